@@ -0,0 +1,13 @@
+export { LICENSE, VERSION } from "./version.ts";
+export * from "./lib/async/transformers.ts";
+export * from "./lib/async/combiners.ts";
+export * from "./lib/async/reducers.ts";
+export * from "./lib/types.ts";
+export * from "./lib/async/effectors.ts";
+
+import * as fp from "./async_fp.ts";
+/**
+ * Curried async functions. Follows the same currying rules as the sync
+ * `curried` export.
+ */
+export const curried = fp;
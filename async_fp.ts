@@ -0,0 +1,267 @@
+export { LICENSE, VERSION } from "./version.ts";
+
+import * as combinators from "./lib/async/combiners.ts";
+import * as reducers from "./lib/async/reducers.ts";
+import * as transformers from "./lib/async/transformers.ts";
+import * as effectors from "./lib/async/effectors.ts";
+import { AsyncForEachCallback } from "./lib/async/effectors.ts";
+import {
+  AsyncKeySelectorCallback,
+  AsyncReduceAccumulatorCallback,
+  AsyncReduceStopCallback,
+} from "./lib/async/reducers.ts";
+import {
+  AsyncCatchErrorCallback,
+  AsyncFlatMapCallback,
+  AsyncMapCallback,
+  AsyncOnErrorCallback,
+  AsyncTeeOptions,
+} from "./lib/async/transformers.ts";
+import {
+  AnyIterable,
+  AsyncFlatItem,
+  AsyncIterableCircular,
+  AsyncIterablePredicateCallback,
+  RandomSource,
+  SafeResult,
+} from "./lib/types.ts";
+
+// The curried functions below are typed by hand in the same way as those in
+// `fp.ts`, so that type parameters are preserved.
+
+// Combinators
+
+/** Curried version of {@link combinators.pair | `pair`}. */
+export function pair<U>(
+  it2: AnyIterable<U>,
+): <T>(
+  it1: AnyIterable<T>,
+) => AsyncIterableCircular<[T | undefined, U | undefined]> {
+  return (it1) => combinators.pair(it1, it2);
+}
+
+/** Curried version of {@link combinators.concat | `concat`}. */
+export function concat<U>(
+  ...tails: Array<AnyIterable<U>>
+): <T>(head: AnyIterable<T>) => AsyncIterableCircular<T | U> {
+  return (head) => combinators.concat(head, ...tails);
+}
+
+// Reducers
+
+/** Curried version of {@link reducers.reduce | `reduce`}. */
+export function reduce<T, U>(
+  reducer: AsyncReduceAccumulatorCallback<T, U>,
+  initialValue: U,
+  stop?: AsyncReduceStopCallback<T, U>,
+): (it: AnyIterable<T>) => Promise<U> {
+  return (it) => reducers.reduce(it, reducer, initialValue, stop);
+}
+
+/** Curried version of {@link reducers.some | `some`}. */
+export function some<T>(
+  predicate: AsyncIterablePredicateCallback<T>,
+): (it: AnyIterable<T>) => Promise<boolean> {
+  return (it) => reducers.some(it, predicate);
+}
+
+/** Curried version of {@link reducers.every | `every`}. */
+export function every<T>(
+  predicate: AsyncIterablePredicateCallback<T>,
+): (it: AnyIterable<T>) => Promise<boolean> {
+  return (it) => reducers.every(it, predicate);
+}
+
+/** Curried version of {@link reducers.includes | `includes`}. */
+export function includes<T>(
+  value: T,
+): (it: AnyIterable<T>) => Promise<boolean> {
+  return (it) => reducers.includes(it, value);
+}
+
+/** Curried version of {@link reducers.find | `find`}. */
+export function find<T>(
+  predicate: AsyncIterablePredicateCallback<T>,
+): (it: AnyIterable<T>) => Promise<T | undefined> {
+  return (it) => reducers.find(it, predicate);
+}
+
+/** Curried version of {@link reducers.findIndex | `findIndex`}. */
+export function findIndex<T>(
+  predicate: AsyncIterablePredicateCallback<T>,
+): (it: AnyIterable<T>) => Promise<number> {
+  return (it) => reducers.findIndex(it, predicate);
+}
+
+export const sum = reducers.sum;
+export const average = reducers.average;
+export const product = reducers.product;
+export const norm = reducers.norm;
+export const toArray = reducers.toArray;
+
+/** Curried version of {@link reducers.sample | `sample`}. */
+export function sample(
+  k: number,
+  random?: RandomSource,
+): <T>(it: AnyIterable<T>) => Promise<T[]> {
+  return (it) => reducers.sample(it, k, random);
+}
+
+/** Curried version of {@link reducers.sampleWeighted | `sampleWeighted`}. */
+export function sampleWeighted<T>(
+  k: number,
+  weightFn: AsyncKeySelectorCallback<T, number>,
+  random?: RandomSource,
+): (it: AnyIterable<T>) => Promise<T[]> {
+  return (it) => reducers.sampleWeighted(it, k, weightFn, random);
+}
+
+// Transformers
+
+/** Curried version of {@link transformers.map | `map`}. */
+export function map<T, U = T>(
+  f: AsyncMapCallback<T, U>,
+): (it: AnyIterable<T>) => AsyncIterableCircular<U> {
+  return (it) => transformers.map(it, f);
+}
+
+/** Curried version of {@link transformers.flatMap | `flatMap`}. */
+export function flatMap<T, U = T>(
+  f: AsyncFlatMapCallback<T, U>,
+): (it: AnyIterable<T>) => AsyncIterableCircular<U> {
+  return (it) => transformers.flatMap(it, f);
+}
+
+/** Curried version of {@link transformers.take | `take`}. */
+export function take(
+  n: number,
+): <T>(it: AnyIterable<T>) => AsyncIterableCircular<T> {
+  return (it) => transformers.take(it, n);
+}
+
+/** Curried version of {@link transformers.takeWhile | `takeWhile`}. */
+export function takeWhile<T>(
+  f: AsyncIterablePredicateCallback<T>,
+): (it: AnyIterable<T>) => AsyncIterableCircular<T> {
+  return (it) => transformers.takeWhile(it, f);
+}
+
+/** Curried version of {@link transformers.drop | `drop`}. */
+export function drop(
+  n: number,
+): <T>(it: AnyIterable<T>) => AsyncIterableCircular<T> {
+  return (it) => transformers.drop(it, n);
+}
+
+/** Curried version of {@link transformers.dropUntil | `dropUntil`}. */
+export function dropUntil<T>(
+  f: AsyncIterablePredicateCallback<T>,
+  includeFirst?: boolean,
+): (it: AnyIterable<T>) => AsyncIterableCircular<T> {
+  return (it) => transformers.dropUntil(it, f, includeFirst);
+}
+
+/** Curried version of {@link transformers.dropWhile | `dropWhile`}. */
+export function dropWhile<T>(
+  f: AsyncIterablePredicateCallback<T>,
+): (it: AnyIterable<T>) => AsyncIterableCircular<T> {
+  return (it) => transformers.dropWhile(it, f);
+}
+
+/** Curried version of {@link transformers.until | `until`}. */
+export function until<T>(
+  f: AsyncIterablePredicateCallback<T>,
+  includeLast?: boolean,
+): (it: AnyIterable<T>) => AsyncIterableCircular<T> {
+  return (it) => transformers.until(it, f, includeLast);
+}
+
+/** Curried version of {@link transformers.filter | `filter`}. */
+export function filter<T>(
+  predicate: AsyncIterablePredicateCallback<T>,
+): (it: AnyIterable<T>) => AsyncIterableCircular<T> {
+  return (it) => transformers.filter(it, predicate);
+}
+
+export const indexedPairs = transformers.indexedPairs;
+
+/** Curried version of {@link transformers.chunkify | `chunkify`}. */
+export function chunkify(
+  chunkSize: number,
+): <T>(it: AnyIterable<T>) => AsyncIterableCircular<T[]> {
+  return (it) => transformers.chunkify(it, chunkSize);
+}
+
+/** Curried version of {@link transformers.splitOn | `splitOn`}. */
+export function splitOn(
+  delimiter: string,
+): (chunks: AnyIterable<string>) => AsyncIterableCircular<string> {
+  return (chunks) => transformers.splitOn(chunks, delimiter);
+}
+
+export const lines = transformers.lines;
+export const remember = transformers.remember;
+
+/** Curried version of {@link transformers.catchError | `catchError`}. */
+export function catchError<U>(
+  handler: AsyncCatchErrorCallback<U>,
+): <T>(it: AnyIterable<T>) => AsyncIterableCircular<T | U> {
+  return (it) => transformers.catchError(it, handler);
+}
+
+/** Curried version of {@link transformers.onError | `onError`}. */
+export function onError(
+  f: AsyncOnErrorCallback,
+): <T>(it: AnyIterable<T>) => AsyncIterableCircular<T> {
+  return (it) => transformers.onError(it, f);
+}
+
+export const retry = transformers.retry;
+
+/** Curried version of {@link transformers.mapSafe | `mapSafe`}. */
+export function mapSafe<T, U>(
+  f: AsyncMapCallback<T, U>,
+): (it: AnyIterable<T>) => AsyncIterableCircular<SafeResult<T, U>> {
+  return (it) => transformers.mapSafe(it, f);
+}
+
+/** Curried version of {@link transformers.tee | `tee`}. */
+export function tee(
+  n?: number,
+  options?: AsyncTeeOptions,
+): <T>(it: AnyIterable<T>) => AsyncIterableIterator<T>[] {
+  return (it) => transformers.tee(it, n, options);
+}
+
+/** Curried version of {@link transformers.flat | `flat`}. */
+export function flat<Depth extends number = 1>(
+  depth?: Depth,
+): <T>(it: AnyIterable<T>) => AsyncIterableCircular<AsyncFlatItem<T, Depth>> {
+  return <T>(it: AnyIterable<T>) => {
+    const flattened = transformers.flat<unknown, AnyIterable<unknown>>(
+      it,
+      depth,
+    );
+    return flattened as AsyncIterableCircular<AsyncFlatItem<T, Depth>>;
+  };
+}
+
+export const completeFlat = transformers.completeFlat;
+export const fuse = transformers.fuse;
+export const peekable = transformers.peekable;
+
+// Effectors
+
+/** Curried version of {@link effectors.forEach | `forEach`}. */
+export function forEach<T>(
+  f: AsyncForEachCallback<T>,
+): (it: AnyIterable<T>) => Promise<void> {
+  return (it) => effectors.forEach(it, f);
+}
+
+/** Curried version of {@link effectors.lazyObserver | `lazyObserver`}. */
+export function lazyObserver<T>(
+  f: AsyncForEachCallback<T>,
+): (it: AnyIterable<T>) => AsyncIterableCircular<T> {
+  return (it) => effectors.lazyObserver(it, f);
+}
@@ -0,0 +1,39 @@
+import { assertArrayIncludes, assertEquals } from "./test_deps.ts";
+import { AsyncIterableCircular } from "./lib/types.ts";
+import * as mod from "./async.ts";
+import * as fp from "./async_fp.ts";
+
+Deno.test("All async functions are available in functional programming version", () => {
+  assertArrayIncludes(["curried", ...Object.keys(fp)], Object.keys(mod));
+});
+
+Deno.test("Async curried pipeline", async () => {
+  const double = fp.map<number>((x) => Promise.resolve(x * 2));
+  const firstThree = fp.take(3);
+
+  assertEquals(await fp.toArray(firstThree(double([1, 2, 3, 4]))), [2, 4, 6]);
+});
+
+Deno.test("Async curried functions preserve generics", async () => {
+  const double = fp.map((x: number) => x * 2);
+  const doubled: AsyncIterableCircular<number> = double([1, 2, 3]);
+  // the item type is inferred from the iterable
+  const firstTwo: AsyncIterableCircular<number> = fp.take(2)(doubled);
+  assertEquals(await fp.toArray(firstTwo), [2, 4]);
+
+  const findBig = fp.find((x: number) => x > 2);
+  const firstBig: number | undefined = await findBig(doubled);
+  assertEquals(firstBig, 4);
+
+  const nested = [[1, [2]], [[3]]];
+  const flattened: AsyncIterableCircular<number> = fp.flat(2)(nested);
+  assertEquals(await fp.toArray(flattened), [1, 2, 3]);
+
+  const pairWithLetters = fp.pair(["a"]);
+  const pairs: AsyncIterable<[number | undefined, string | undefined]> =
+    pairWithLetters([1, 2]);
+  assertEquals(await fp.toArray(pairs), [[1, "a"], [2, undefined]]);
+
+  const picked: string[] = await fp.sample(1)(["a", "b"]);
+  assertEquals(picked.length, 1);
+});
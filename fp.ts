@@ -1,47 +1,474 @@
 export { LICENSE, VERSION } from "./version.ts";
 
-import { curryIterFunction } from "./lib/internal/util.ts";
 import * as combinators from "./lib/combiners.ts";
 import * as reducers from "./lib/reducers.ts";
 import * as transformers from "./lib/transformers.ts";
 import * as effectors from "./lib/effectors.ts";
+import * as transducers from "./lib/transducers.ts";
+import * as random from "./lib/random.ts";
+import * as chainer from "./lib/chain.ts";
+import { ForEachCallback } from "./lib/effectors.ts";
+import {
+  BigIntOptions,
+  KeySelectorCallback,
+  PrecisionOptions,
+  ReduceAccumulatorCallback,
+  ReduceStopCallback,
+} from "./lib/reducers.ts";
+import {
+  CatchErrorCallback,
+  ChunkByCallback,
+  FlatMapCallback,
+  MapCallback,
+  OnErrorCallback,
+  SplitWhenCallback,
+  TeeOptions,
+  WindowsOptions,
+} from "./lib/transformers.ts";
+import { TransduceCallback, Transducer } from "./lib/transducers.ts";
+import {
+  FlatItem,
+  IterableCircular,
+  IterablePredicateCallback,
+  IterableTypeGuardCallback,
+  RandomSource,
+  SafeResult,
+} from "./lib/types.ts";
+
+// The curried functions below are typed by hand so that type parameters are
+// preserved. Where the other arguments don't depend on the item type, the
+// returned function is generic, so the item type is inferred from the iterable
+// it is applied to. Otherwise, the item type is inferred from the callback, or
+// from context (e.g. the previous step in a `pipe`).
 
 // Combinators
-export const pair = curryIterFunction(combinators.pair);
-export const concat = curryIterFunction(combinators.concat);
+
+/** Curried version of {@link combinators.pair | `pair`}. */
+export function pair<U>(
+  it2: Iterable<U>,
+): <T>(it1: Iterable<T>) => IterableCircular<[T | undefined, U | undefined]> {
+  return (it1) => combinators.pair(it1, it2);
+}
+
+/** Curried version of {@link combinators.concat | `concat`}. */
+export function concat<U>(
+  ...tails: Array<Iterable<U>>
+): <T>(head: Iterable<T>) => IterableCircular<T | U> {
+  return (head) => combinators.concat(head, ...tails);
+}
+
+export const zip = combinators.zip;
+export const zipLongest = combinators.zipLongest;
+export const zipWith = combinators.zipWith;
+export const mergeSorted = combinators.mergeSorted;
+export const mergeSortedBy = combinators.mergeSortedBy;
+export const union = combinators.union;
+export const intersection = combinators.intersection;
+export const difference = combinators.difference;
+export const symmetricDifference = combinators.symmetricDifference;
 
 // Reducers
-export const reduce = curryIterFunction(reducers.reduce);
-export const some = curryIterFunction(reducers.some);
-export const every = curryIterFunction(reducers.every);
-export const includes = curryIterFunction(reducers.includes);
-export const find = curryIterFunction(reducers.find);
-export const findIndex = curryIterFunction(reducers.findIndex);
-export const sum = reducers.sum;
+
+/** Curried version of {@link reducers.reduce | `reduce`}. */
+export function reduce<T, U>(
+  reducer: ReduceAccumulatorCallback<T, U>,
+  initialValue: U,
+  stop?: ReduceStopCallback<T, U>,
+): (it: Iterable<T>) => U {
+  return (it) => reducers.reduce(it, reducer, initialValue, stop);
+}
+
+/** Curried version of {@link reducers.some | `some`}. */
+export function some<T>(
+  predicate: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => boolean {
+  return (it) => reducers.some(it, predicate);
+}
+
+/** Curried version of {@link reducers.every | `every`}. */
+export function every<T>(
+  predicate: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => boolean {
+  return (it) => reducers.every(it, predicate);
+}
+
+/** Curried version of {@link reducers.includes | `includes`}. */
+export function includes<T>(value: T): (it: Iterable<T>) => boolean {
+  return (it) => reducers.includes(it, value);
+}
+
+/** Curried version of {@link reducers.find | `find`}. */
+export function find<T, S extends T>(
+  predicate: IterableTypeGuardCallback<T, S>,
+): (it: Iterable<T>) => S | undefined;
+export function find<T>(
+  predicate: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => T | undefined;
+export function find<T>(
+  predicate: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => T | undefined {
+  return (it) => reducers.find(it, predicate);
+}
+
+/** Curried version of {@link reducers.findIndex | `findIndex`}. */
+export function findIndex<T>(
+  predicate: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => number {
+  return (it) => reducers.findIndex(it, predicate);
+}
+
+/** Curried version of {@link reducers.groupBy | `groupBy`}. */
+export function groupBy<T, K>(
+  keyFn: KeySelectorCallback<T, K>,
+): (it: Iterable<T>) => Map<K, T[]> {
+  return (it) => reducers.groupBy(it, keyFn);
+}
+
+/** Curried version of {@link reducers.partition | `partition`}. */
+export function partition<T, S extends T>(
+  predicate: IterableTypeGuardCallback<T, S>,
+): (it: Iterable<T>) => [S[], Exclude<T, S>[]];
+export function partition<T>(
+  predicate: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => [T[], T[]];
+export function partition<T>(
+  predicate: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => [T[], T[]] {
+  return (it) => reducers.partition(it, predicate);
+}
+
+/** Curried version of {@link reducers.countBy | `countBy`}. */
+export function countBy<T, K>(
+  keyFn: KeySelectorCallback<T, K>,
+): (it: Iterable<T>) => Map<K, number> {
+  return (it) => reducers.countBy(it, keyFn);
+}
+
+/** Curried version of {@link reducers.indexBy | `indexBy`}. */
+export function indexBy<T, K>(
+  keyFn: KeySelectorCallback<T, K>,
+): (it: Iterable<T>) => Map<K, T> {
+  return (it) => reducers.indexBy(it, keyFn);
+}
+
+// `sum` and `product` have a single generic signature rather than the
+// overloads of the originals, since only the last overload would be matched
+// when they are passed as a value, such as to end a `pipe`.
+
+/** See {@link reducers.sum | `sum`}. */
+export function sum<N extends number | bigint>(
+  it: Iterable<N>,
+  options?: N extends bigint ? BigIntOptions : PrecisionOptions,
+): N extends bigint ? bigint : number;
+export function sum(
+  it: Iterable<number | bigint>,
+  options?: PrecisionOptions | BigIntOptions,
+): number | bigint {
+  return reducers.sum(it as Iterable<number>, options as PrecisionOptions);
+}
+
 export const average = reducers.average;
-export const product = reducers.product;
+
+/** See {@link reducers.product | `product`}. */
+export function product<N extends number | bigint>(
+  it: Iterable<N>,
+  options?: N extends bigint ? BigIntOptions : never,
+): N extends bigint ? bigint : number;
+export function product(
+  it: Iterable<number | bigint>,
+  options?: BigIntOptions,
+): number | bigint {
+  return reducers.product(it as Iterable<bigint>, options);
+}
+
 export const norm = reducers.norm;
+export const min = reducers.min;
+export const max = reducers.max;
+export const minMax = reducers.minMax;
+
+/** Curried version of {@link reducers.minBy | `minBy`}. */
+export function minBy<T, K extends number | string | bigint>(
+  keyFn: KeySelectorCallback<T, K>,
+): (it: Iterable<T>) => T | undefined {
+  return (it) => reducers.minBy(it, keyFn);
+}
+
+/** Curried version of {@link reducers.maxBy | `maxBy`}. */
+export function maxBy<T, K extends number | string | bigint>(
+  keyFn: KeySelectorCallback<T, K>,
+): (it: Iterable<T>) => T | undefined {
+  return (it) => reducers.maxBy(it, keyFn);
+}
+
+// Options are rarely needed, so these aren't curried, and can be used directly
+// as the last step of a `pipe`.
+export const variance = reducers.variance;
+export const stddev = reducers.stddev;
+export const describe = reducers.describe;
+
+/** Curried version of {@link reducers.quantile | `quantile`}. */
+export function quantile(q: number): (it: Iterable<number>) => number;
+export function quantile(q: number[]): (it: Iterable<number>) => number[];
+export function quantile(
+  q: number | number[],
+): (it: Iterable<number>) => number | number[] {
+  return (it) => reducers.quantile(it, q as number);
+}
+
+export const median = reducers.median;
+export const quantileSketch = reducers.quantileSketch;
+
+/** Curried version of {@link reducers.sample | `sample`}. */
+export function sample(
+  k: number,
+  random?: RandomSource,
+): <T>(it: Iterable<T>) => T[] {
+  return (it) => reducers.sample(it, k, random);
+}
+
+/** Curried version of {@link reducers.sampleWeighted | `sampleWeighted`}. */
+export function sampleWeighted<T>(
+  k: number,
+  weightFn: KeySelectorCallback<T, number>,
+  random?: RandomSource,
+): (it: Iterable<T>) => T[] {
+  return (it) => reducers.sampleWeighted(it, k, weightFn, random);
+}
 
 // Transformers
-export const map = curryIterFunction(transformers.map);
-export const flatMap = curryIterFunction(transformers.flatMap);
-export const take = curryIterFunction(transformers.take);
-export const takeWhile = curryIterFunction(transformers.takeWhile);
-export const drop = curryIterFunction(transformers.drop);
-export const dropUntil = curryIterFunction(transformers.dropUntil);
-export const dropWhile = curryIterFunction(transformers.dropWhile);
-export const until = curryIterFunction(transformers.until);
-export const filter = curryIterFunction(transformers.filter);
+
+/** Curried version of {@link transformers.map | `map`}. */
+export function map<T, U = T>(
+  f: MapCallback<T, U>,
+): (it: Iterable<T>) => IterableCircular<U> {
+  return (it) => transformers.map(it, f);
+}
+
+/** Curried version of {@link transformers.flatMap | `flatMap`}. */
+export function flatMap<T, U = T>(
+  f: FlatMapCallback<T, U>,
+): (it: Iterable<T>) => Iterable<U> {
+  return (it) => transformers.flatMap(it, f);
+}
+
+/** Curried version of {@link transformers.take | `take`}. */
+export function take(n: number): <T>(it: Iterable<T>) => IterableCircular<T> {
+  return (it) => transformers.take(it, n);
+}
+
+/** Curried version of {@link transformers.takeWhile | `takeWhile`}. */
+export function takeWhile<T>(
+  f: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => IterableCircular<T> {
+  return (it) => transformers.takeWhile(it, f);
+}
+
+/** Curried version of {@link transformers.drop | `drop`}. */
+export function drop(n: number): <T>(it: Iterable<T>) => IterableCircular<T> {
+  return (it) => transformers.drop(it, n);
+}
+
+/** Curried version of {@link transformers.dropUntil | `dropUntil`}. */
+export function dropUntil<T>(
+  f: IterablePredicateCallback<T>,
+  includeFirst?: boolean,
+): (it: Iterable<T>) => IterableCircular<T> {
+  return (it) => transformers.dropUntil(it, f, includeFirst);
+}
+
+/** Curried version of {@link transformers.dropWhile | `dropWhile`}. */
+export function dropWhile<T>(
+  f: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => IterableCircular<T> {
+  return (it) => transformers.dropWhile(it, f);
+}
+
+/** Curried version of {@link transformers.until | `until`}. */
+export function until<T>(
+  f: IterablePredicateCallback<T>,
+  includeLast?: boolean,
+): (it: Iterable<T>) => IterableCircular<T> {
+  return (it) => transformers.until(it, f, includeLast);
+}
+
+/** Curried version of {@link transformers.filter | `filter`}. */
+export function filter<T, S extends T>(
+  predicate: IterableTypeGuardCallback<T, S>,
+): (it: Iterable<T>) => IterableCircular<S>;
+export function filter<T>(
+  predicate: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => IterableCircular<T>;
+export function filter<T>(
+  predicate: IterablePredicateCallback<T>,
+): (it: Iterable<T>) => IterableCircular<T> {
+  return (it) => transformers.filter(it, predicate);
+}
+
 export const indexedPairs = transformers.indexedPairs;
-export const chunkify = curryIterFunction(transformers.chunkify);
+
+/** Curried version of {@link transformers.chunkify | `chunkify`}. */
+export function chunkify(
+  chunkSize: number,
+): <T>(it: Iterable<T>) => IterableCircular<T[]> {
+  return (it) => transformers.chunkify(it, chunkSize);
+}
+
+/** Curried version of {@link transformers.windows | `windows`}. */
+export function windows(
+  size: number,
+  options?: WindowsOptions,
+): <T>(it: Iterable<T>) => IterableCircular<T[]> {
+  return (it) => transformers.windows(it, size, options);
+}
+
+export const pairwise = transformers.pairwise;
+
+/** Curried version of {@link transformers.chunkBy | `chunkBy`}. */
+export function chunkBy<T, K>(
+  keyFn: ChunkByCallback<T, K>,
+): (it: Iterable<T>) => IterableCircular<T[]> {
+  return (it) => transformers.chunkBy(it, keyFn);
+}
+
+/** Curried version of {@link transformers.splitWhen | `splitWhen`}. */
+export function splitWhen<T>(
+  predicate: SplitWhenCallback<T>,
+): (it: Iterable<T>) => IterableCircular<T[]> {
+  return (it) => transformers.splitWhen(it, predicate);
+}
+
+/** Curried version of {@link transformers.splitOn | `splitOn`}. */
+export function splitOn(
+  delimiter: string,
+): (chunks: Iterable<string>) => IterableCircular<string> {
+  return (chunks) => transformers.splitOn(chunks, delimiter);
+}
+
+export const lines = transformers.lines;
 export const remember = transformers.remember;
-export const flat = curryIterFunction(transformers.flat);
+
+/** Curried version of {@link transformers.catchError | `catchError`}. */
+export function catchError<U>(
+  handler: CatchErrorCallback<U>,
+): <T>(it: Iterable<T>) => IterableCircular<T | U> {
+  return (it) => transformers.catchError(it, handler);
+}
+
+/** Curried version of {@link transformers.onError | `onError`}. */
+export function onError(
+  f: OnErrorCallback,
+): <T>(it: Iterable<T>) => IterableCircular<T> {
+  return (it) => transformers.onError(it, f);
+}
+
+export const retry = transformers.retry;
+
+/** Curried version of {@link transformers.mapSafe | `mapSafe`}. */
+export function mapSafe<T, U>(
+  f: MapCallback<T, U>,
+): (it: Iterable<T>) => IterableCircular<SafeResult<T, U>> {
+  return (it) => transformers.mapSafe(it, f);
+}
+
+/** Curried version of {@link transformers.tee | `tee`}. */
+export function tee(
+  n?: number,
+  options?: TeeOptions,
+): <T>(it: Iterable<T>) => IterableIterator<T>[] {
+  return (it) => transformers.tee(it, n, options);
+}
+
+/** Curried version of {@link transformers.shuffle | `shuffle`}. */
+export function shuffle(
+  random?: RandomSource,
+): <T>(it: Iterable<T>) => IterableCircular<T> {
+  return (it) => transformers.shuffle(it, random);
+}
+
+/** Curried version of {@link transformers.flat | `flat`}. */
+export function flat<Depth extends number = 1>(
+  depth?: Depth,
+): <T>(it: Iterable<T>) => IterableCircular<FlatItem<T, Depth>> {
+  return <T>(it: Iterable<T>) => {
+    const flattened = transformers.flat<unknown, Iterable<unknown>>(it, depth);
+    return flattened as IterableCircular<FlatItem<T, Depth>>;
+  };
+}
+
 export const completeFlat = transformers.completeFlat;
 export const fuse = transformers.fuse;
 export const peekable = transformers.peekable;
 
 // Effectors
-export const forEach = curryIterFunction(effectors.forEach);
-export const lazyObserver = curryIterFunction(effectors.lazyObserver);
+
+/** Curried version of {@link effectors.forEach | `forEach`}. */
+export function forEach<T>(f: ForEachCallback<T>): (it: Iterable<T>) => void {
+  return (it) => effectors.forEach(it, f);
+}
+
+/** Curried version of {@link effectors.lazyObserver | `lazyObserver`}. */
+export function lazyObserver<T>(
+  f: ForEachCallback<T>,
+): (it: Iterable<T>) => IterableCircular<T> {
+  return (it) => effectors.lazyObserver(it, f);
+}
+
+// Transducers
+
+export const tmap = transducers.tmap;
+export const tfilter = transducers.tfilter;
+export const ttake = transducers.ttake;
+export const compose = transducers.compose;
+export const reduced = transducers.reduced;
+export const isReduced = transducers.isReduced;
+
+/** Curried version of {@link transducers.transduce | `transduce`}. */
+export function transduce<T, U, A>(
+  xf: Transducer<T, U>,
+  reducer: TransduceCallback<T, U, A>,
+  initialValue: A,
+): (it: Iterable<T>) => A {
+  return (it) => transducers.transduce(it, xf, reducer, initialValue);
+}
+
+/** Curried version of {@link transducers.into | `into`}. */
+export function into<T, K, V>(
+  target: Map<K, V>,
+  xf: Transducer<T, [K, V]>,
+): (it: Iterable<T>) => Map<K, V>;
+export function into<T, U>(
+  target: Set<U>,
+  xf: Transducer<T, U>,
+): (it: Iterable<T>) => Set<U>;
+export function into<T, U>(
+  target: U[],
+  xf: Transducer<T, U>,
+): (it: Iterable<T>) => U[];
+export function into<T>(
+  target: unknown[] | Set<unknown> | Map<unknown, unknown>,
+  xf: Transducer<T, unknown>,
+): (it: Iterable<T>) => unknown[] | Set<unknown> | Map<unknown, unknown> {
+  return (it) => transducers.into(target as unknown[], xf, it);
+}
+
+/** Curried version of {@link transducers.sequence | `sequence`}. */
+export function sequence<T, U>(
+  xf: Transducer<T, U>,
+): (it: Iterable<T>) => IterableCircular<U> {
+  return (it) => transducers.sequence(it, xf);
+}
+
+// Random
+
+export const seededRandom = random.seededRandom;
+export const randomInteger = random.randomInteger;
+export const randomBoolean = random.randomBoolean;
+export const randomPick = random.randomPick;
+
+// Chaining
+export const chain = chainer.chain;
+
+// Composition
+export { flow, pipe } from "./lib/compose.ts";
 
 export * as create from "./lib/generators.ts";
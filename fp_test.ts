@@ -1,5 +1,4 @@
 import { assertArrayIncludes, assertEquals } from "./test_deps.ts";
-import { c, p } from "https://deno.land/x/copb@v1.0.1/mod.ts";
 import * as mod from "./mod.ts";
 import * as fp from "./fp.ts";
 
@@ -7,13 +6,53 @@ Deno.test("All functions are available in functional programming version", () =>
   assertArrayIncludes(["curried", ...Object.keys(fp)], Object.keys(mod));
 });
 
-Deno.test("With copb", () => {
-  const pipeline = c(
-    p(fp.map<number>((x) => x * 100)) // Only needed type annotation, the rest is inferred.
-    (fp.map(Math.floor))(fp.filter((x) => x % 3 === 0))(fp.reduce(
-      (str, x) => str + x,
-      "",
-    ))(Number),
+Deno.test("With pipe", () => {
+  const result = fp.pipe(
+    [
+      0.4961166694959176,
+      0.21540769751705935,
+      0.7146328682274266,
+      0.5392881687008804,
+      0.746080578311838,
+      0.6354297379184395,
+    ],
+    fp.map((x) => x * 100), // Item type is inferred from the piped value.
+    fp.map(Math.floor),
+    fp.filter((x) => x % 3 === 0),
+    fp.reduce((str, x) => str + x, ""),
+    Number,
+  );
+
+  assertEquals(result, 2163);
+});
+
+Deno.test("Pipes end in sum and product", () => {
+  const total: number = fp.pipe(
+    fp.create.increments(1),
+    fp.map((n: number) => n * 2),
+    fp.take(3),
+    fp.sum,
+  );
+  assertEquals(total, 12);
+  const factorial: number = fp.flow(
+    fp.map((n: number) => n + 1),
+    fp.product,
+  )([1, 2, 3]);
+  assertEquals(factorial, 24);
+
+  const bigTotal: bigint = fp.pipe([1n, 2n], fp.sum);
+  assertEquals(bigTotal, 3n);
+  assertEquals(fp.sum([0.1, 0.2], { precise: true }), 0.30000000000000004);
+  assertEquals(fp.product(new Array<bigint>(), { bigint: true }), 1n);
+});
+
+Deno.test("With flow", () => {
+  const pipeline = fp.flow(
+    fp.map<number>((x) => x * 100), // Only needed type annotation, the rest is inferred.
+    fp.map(Math.floor),
+    fp.filter((x) => x % 3 === 0),
+    fp.reduce((str, x) => str + x, ""),
+    Number,
   );
 
   assertEquals(
@@ -28,3 +67,40 @@ Deno.test("With copb", () => {
     2163,
   );
 });
+
+Deno.test("Curried functions preserve generics", () => {
+  const take2 = fp.take(2);
+  const strings: Iterable<string> = take2(["a", "b", "c"]);
+  const numbers: Iterable<number> = take2([1, 2, 3]);
+  assertEquals([...strings], ["a", "b"]);
+  assertEquals([...numbers], [1, 2]);
+
+  const chunks: Iterable<boolean[]> = fp.chunkify(2)([true, false, true]);
+  assertEquals([...chunks], [[true, false], [true]]);
+
+  const flattened: Iterable<number> = fp.flat(2)([[1, [2]], [[3]]]);
+  assertEquals([...flattened], [1, 2, 3]);
+
+  const pairWithLetters = fp.pair(["a", "b"]);
+  const pairs: Iterable<[number | undefined, string | undefined]> =
+    pairWithLetters([1, 2]);
+  assertEquals([...pairs], [[1, "a"], [2, "b"]]);
+});
+
+Deno.test("Curried type guards narrow", () => {
+  const mixed: Array<string | number> = [1, "a", 2, "b"];
+  const isString = (x: string | number): x is string => typeof x === "string";
+
+  const strings: Iterable<string> = fp.pipe(mixed, fp.filter(isString));
+  assertEquals([...strings], ["a", "b"]);
+
+  const firstString: string | undefined = fp.pipe(mixed, fp.find(isString));
+  assertEquals(firstString, "a");
+
+  const [someStrings, someNumbers]: [string[], number[]] = fp.pipe(
+    mixed,
+    fp.partition(isString),
+  );
+  assertEquals(someStrings, ["a", "b"]);
+  assertEquals(someNumbers, [1, 2]);
+});
@@ -0,0 +1,104 @@
+import { getAsyncIterator } from "../internal/util.ts";
+import { AnyIterable, AsyncIterableCircular } from "../types.ts";
+
+/**
+ * Creates a new async iterable containing tuples of each element of `it1` and
+ * `it2`. Both iterables are advanced concurrently.
+ * @param it1 - Iterable to be mapped to the first element of each tuple in the
+ * new iterator.
+ * @param it2 - Iterable to be mapped to the second element of each tuple in the
+ * new iterator.
+ * @typeParam T - Type of items in `it1`
+ * @typeParam U - Type of items in `it2`
+ * @returns An async iterable containing pairs of items taken from `it1` and
+ * `it2`. Note that this continues until _both_ iterables are done, yielding
+ * `undefined` in place of items from whichever ended first.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const pairs = aiter.pair([1, 2, 3], ["a", "b", "c"]);
+ *
+ * for await (const pair of pairs) {
+ *   console.log(pair);
+ * }
+ *
+ * // -> [1, "a"]
+ * // -> [2, "b"]
+ * // -> [3, "c"]
+ * ```
+ */
+export function pair<T, U>(
+  it1: AnyIterable<T>,
+  it2: AnyIterable<U>,
+): AsyncIterableCircular<[T | undefined, U | undefined]> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      const first: AsyncIterator<T | U> = getAsyncIterator(it1);
+      let second: AsyncIterator<T | U>;
+      try {
+        second = getAsyncIterator(it2);
+      } catch (error) {
+        await first.return?.();
+        throw error;
+      }
+      const iterators = [first, second];
+      const done = [false, false];
+      // an iterator which throws is finished, so it mustn't be closed
+      const next = (i: number) =>
+        iterators[i].next().then(
+          (result) => {
+            if (result.done) done[i] = true;
+            return result;
+          },
+          (error) => {
+            done[i] = true;
+            throw error;
+          },
+        );
+      try {
+        while (true) {
+          const [a, b] = await Promise.all([next(0), next(1)]);
+          if (a.done && b.done) return;
+          yield [a.value, b.value] as [T | undefined, U | undefined];
+        }
+      } finally {
+        await Promise.all(
+          iterators.filter((_, i) => !done[i]).map((it) => it.return?.()),
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Combines two or more iterables, which may be any mix of sync and async.
+ * @param head - The first iterable.
+ * @param tails - (blob) Additional iterables to add to the end of head. If
+ * there are more than one, they must be of the same type.
+ * @typeParam T - The item type of `head`.
+ * @typeParam U - The item type of each tail.
+ * @returns An async iterable which yields items from the head followed by items
+ * from the tail(s) in order.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const concatenated = aiter.concat([1, 2], aiter.map([3, 4], (n) => n));
+ *
+ * console.log(await aiter.toArray(concatenated)); // -> [ 1, 2, 3, 4 ]
+ * ```
+ */
+export function concat<T, U = T>(
+  head: AnyIterable<T>,
+  ...tails: Array<AnyIterable<U>>
+): AsyncIterableCircular<T | U> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      for await (const item of head) yield item;
+      for (const it of tails) {
+        for await (const item of it) yield item;
+      }
+    },
+  };
+}
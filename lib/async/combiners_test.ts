@@ -0,0 +1,49 @@
+import { assert, assertEquals } from "../../test_deps.ts";
+import * as combiners from "./combiners.ts";
+import { toArray } from "./reducers.ts";
+
+async function* asyncRange(n: number) {
+  for (let i = 0; i < n; i++) yield i;
+}
+
+Deno.test("async pair", async () => {
+  const pairs = combiners.pair(asyncRange(3), ["a", "b", "c"]);
+  assertEquals(await toArray(pairs), [[0, "a"], [1, "b"], [2, "c"]]);
+
+  // runs until both are done, filling in for the shorter one
+  const uneven: AsyncIterable<[number | undefined, string | undefined]> =
+    combiners.pair(asyncRange(3), ["a"]);
+  const items = await toArray(uneven);
+  assertEquals(items, [[0, "a"], [1, undefined], [2, undefined]]);
+});
+
+Deno.test("async pair closes the first source if the second fails to open", async () => {
+  let closed = 0;
+  async function* first() {
+    try {
+      yield* asyncRange(3);
+    } finally {
+      closed++;
+    }
+  }
+  const broken: AsyncIterable<number> = {
+    [Symbol.asyncIterator]: () => {
+      throw new Error("Open");
+    },
+  };
+  const source = first();
+  await source.next();
+
+  try {
+    await toArray(combiners.pair(source, broken));
+    assert(false);
+  } catch (error) {
+    assertEquals((error as Error).message, "Open");
+  }
+  assertEquals(closed, 1);
+});
+
+Deno.test("async concat", async () => {
+  const concatenated = combiners.concat(["a"], asyncRange(2), [2]);
+  assertEquals(await toArray(concatenated), ["a", 0, 1, 2]);
+});
@@ -0,0 +1,204 @@
+import { assert, assertEquals } from "../../test_deps.ts";
+import * as transformers from "./transformers.ts";
+import * as combiners from "./combiners.ts";
+
+/**
+ * Hands out async sources which record how their iterators are opened and
+ * closed. An iterator counts as closed once it has finished or `return()` has
+ * been called on it.
+ */
+class Sources {
+  opened = 0;
+  closed = 0;
+  closedAgain = 0;
+
+  source = <T>(items: Iterable<T>): AsyncIterable<T> => {
+    // deno-lint-ignore no-this-alias
+    const sources = this;
+    return {
+      [Symbol.asyncIterator]() {
+        const iterator = items[Symbol.iterator]();
+        let closed = false;
+        const close = () => {
+          if (closed) {
+            sources.closedAgain++;
+          } else {
+            closed = true;
+            sources.closed++;
+          }
+        };
+        sources.opened++;
+        return {
+          async next() {
+            await Promise.resolve();
+            if (closed) return { done: true, value: undefined };
+            const next = iterator.next();
+            if (next.done) close();
+            return next;
+          },
+          async return(value?: unknown) {
+            await Promise.resolve();
+            close();
+            return { done: true, value };
+          },
+        } as AsyncIterator<T>;
+      },
+    };
+  };
+
+  assertAllClosedOnce(name: string) {
+    assert(this.opened > 0, `\`${name}\` never opened a source`);
+    assertEquals(this.closed, this.opened, `\`${name}\` left a source open`);
+    assertEquals(this.closedAgain, 0, `\`${name}\` closed a source twice`);
+  }
+}
+
+type Source = Sources["source"];
+
+const digits = () => [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * Builds a pipeline from each async transformer, fed by `source`, with
+ * arguments that make it yield at least two items.
+ */
+const transformerCases: Record<
+  keyof typeof transformers,
+  (source: Source) => AsyncIterable<unknown>
+> = {
+  catchError: (source) =>
+    transformers.catchError(
+      transformers.map(source([0, 1]), (n) => {
+        if (n > 0) throw new Error("Upstream");
+        return n;
+      }),
+      () => source([1, 2]),
+    ),
+  chunkify: (source) => transformers.chunkify(source(digits()), 2),
+  completeFlat: (source) =>
+    transformers.completeFlat(source([source([0, source([1])]), source([2])])),
+  drop: (source) => transformers.drop(source(digits()), 2),
+  dropUntil: (source) => transformers.dropUntil(source(digits()), (n) => n > 2),
+  dropWhile: (source) => transformers.dropWhile(source(digits()), (n) => n < 2),
+  filter: (source) => transformers.filter(source(digits()), (n) => n % 2 === 0),
+  flat: (source) => transformers.flat(source([source([0, 1]), source([2])])),
+  flatMap: (source) =>
+    transformers.flatMap(source(digits()), (n) => source([n, n])),
+  fuse: (source) => transformers.fuse(source(digits())),
+  indexedPairs: (source) => transformers.indexedPairs(source(digits())),
+  lines: (source) => transformers.lines(source(["a\nb", "\nc\n"])),
+  map: (source) =>
+    transformers.map(source(digits()), (n) => Promise.resolve(n * 2)),
+  mapSafe: (source) =>
+    transformers.mapSafe(source(digits()), (n) => {
+      if (n % 2 === 1) throw new Error("Odd");
+      return n;
+    }),
+  onError: (source) => transformers.onError(source(digits()), () => {}),
+  peekable: (source) => transformers.peekable(source(digits())),
+  remember: (source) => {
+    const remembered = transformers.remember(source(digits()));
+    // an iteration leaves the source open for the others, so it is closed
+    // explicitly once the pipeline stops
+    return {
+      async *[Symbol.asyncIterator]() {
+        try {
+          yield* remembered;
+        } finally {
+          await remembered.close();
+        }
+      },
+    };
+  },
+  retry: (source) => {
+    let failures = 0;
+    return transformers.retry(() =>
+      transformers.map(source(digits()), (n) => {
+        if (n === 1 && failures++ === 0) throw new Error("Flaky");
+        return n;
+      })
+    );
+  },
+  splitOn: (source) => transformers.splitOn(source(["a,b", ",c"]), ","),
+  take: (source) => transformers.take(source(digits()), 5),
+  takeWhile: (source) => transformers.takeWhile(source(digits()), (n) => n < 5),
+  tee: (source) => transformers.tee(source(digits()), 1)[0],
+  until: (source) => transformers.until(source(digits()), (n) => n > 5),
+};
+
+const combinerCases: Record<
+  keyof typeof combiners,
+  (source: Source) => AsyncIterable<unknown>
+> = {
+  concat: (source) => combiners.concat(source([0, 1]), source([2, 3])),
+  pair: (source) => combiners.pair(source(digits()), source([0, 1, 2])),
+};
+
+const cases = { ...transformerCases, ...combinerCases };
+
+Deno.test("async conformance cases cover every transformer and combiner", () => {
+  for (
+    const name of [...Object.keys(transformers), ...Object.keys(combiners)]
+  ) {
+    assert(name in cases, `No conformance case for \`${name}\``);
+  }
+});
+
+Deno.test("breaking out of an async pipeline closes its sources once", async () => {
+  for (const [name, build] of Object.entries(cases)) {
+    for (const taken of [1, 2]) {
+      const sources = new Sources();
+      let count = 0;
+      for await (const _ of build(sources.source)) {
+        if (++count === taken) break;
+      }
+      assertEquals(count, taken, `\`${name}\` yielded too few items`);
+      sources.assertAllClosedOnce(name);
+    }
+  }
+});
+
+Deno.test("throwing into an async pipeline closes its sources once", async () => {
+  for (const [name, build] of Object.entries(cases)) {
+    const sources = new Sources();
+    const iterator = build(sources.source)[Symbol.asyncIterator]();
+    const error = new Error(name);
+
+    await iterator.next();
+    assert(iterator.throw !== undefined, `\`${name}\` has no \`throw()\``);
+    try {
+      await iterator.throw(error);
+      assert(false, `\`${name}\` swallowed the error`);
+    } catch (thrown) {
+      assertEquals(thrown, error);
+    }
+    sources.assertAllClosedOnce(name);
+    assertEquals((await iterator.next()).done, true, `\`${name}\` continued`);
+  }
+});
+
+Deno.test("exhausting an async pipeline closes its sources once", async () => {
+  for (const [name, build] of Object.entries(cases)) {
+    const sources = new Sources();
+    for await (const _ of build(sources.source));
+    sources.assertAllClosedOnce(name);
+  }
+});
+
+Deno.test("finally blocks in async generator sources run once", async () => {
+  let cleanups = 0;
+  async function* source() {
+    try {
+      for (let i = 0;; i++) yield i;
+    } finally {
+      cleanups++;
+    }
+  }
+
+  const pipeline = transformers.take(
+    combiners.pair(transformers.map(source(), (n) => n * 2), source()),
+    3,
+  );
+
+  assertEquals((await Array.fromAsync(pipeline)).length, 3);
+  assertEquals(cleanups, 2);
+});
@@ -0,0 +1,82 @@
+import { AnyIterable, AsyncIterableCircular } from "../types.ts";
+
+/**
+ * {@link forEach | `forEach`} callback.
+ * @typeParam T - See {@link forEach}
+ */
+export interface AsyncForEachCallback<T> {
+  /**
+   * {@link forEach | `forEach`} callback.
+   * @callback AsyncForEachCallback
+   * @param item - The current item.
+   * @param index - The index of the item.
+   * @param it - The iterable.
+   */
+  (item: T, index: number, it: AnyIterable<T>): void | Promise<void>;
+}
+
+/**
+ * Performs the specified action for each item in an iterable, consuming the
+ * iterable in the process. Each call to `f` is awaited before the next item is
+ * pulled.
+ * @param it - The iterable being looped over.
+ * @param {AsyncForEachCallback} f - A function that accepts up to three
+ * arguments. `forEach` calls `f` one time for each item in the iterable.
+ * @typeParam T - The type of items in `it`.
+ * @returns A promise which resolves once `it` has been consumed.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * await aiter.forEach([1, 2, 3], async (x) => console.log(x));
+ *
+ * // -> 1
+ * // -> 2
+ * // -> 3
+ * ```
+ */
+export async function forEach<T>(
+  it: AnyIterable<T>,
+  f: AsyncForEachCallback<T>,
+): Promise<void> {
+  let index = 0;
+  for await (const item of it) await f(item, index++, it);
+}
+
+/**
+ * Performs the specified action for each item in an iterable when the returned
+ * async iterable is iterated over. Like {@link forEach | `forEach`} but
+ * non-consuming.
+ * @param it - The iterable being observed.
+ * @param {AsyncForEachCallback} f - A function that accepts up to three
+ * arguments. `lazyObserver` calls and awaits `f` one time for each item in the
+ * iterable.
+ * @typeParam T - The type of items in `it`.
+ * @returns - The observed version of `it`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const observed = aiter.lazyObserver([1, 2, 3], (x) => console.log(x));
+ * const iterator = observed[Symbol.asyncIterator]();
+ *
+ * await iterator.next();
+ * // -> 1
+ * await iterator.next();
+ * // -> 2
+ * ```
+ */
+export function lazyObserver<T>(
+  it: AnyIterable<T>,
+  f: AsyncForEachCallback<T>,
+): AsyncIterableCircular<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for await (const item of it) {
+        await f(item, index++, it);
+        yield item;
+      }
+    },
+  };
+}
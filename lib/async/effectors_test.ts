@@ -0,0 +1,25 @@
+import { assertEquals } from "../../test_deps.ts";
+import * as effectors from "./effectors.ts";
+
+Deno.test("async forEach", async () => {
+  const seen: number[] = [];
+  await effectors.forEach([1, 2, 3], async (x, i) => {
+    await Promise.resolve();
+    assertEquals(x - i, 1);
+    seen.push(x);
+  });
+  assertEquals(seen, [1, 2, 3]);
+});
+
+Deno.test("async lazyObserver", async () => {
+  let lastReceived = NaN;
+  const observed = effectors.lazyObserver([1, 2, 3], (x) => {
+    lastReceived = x;
+  });
+  const iterator = observed[Symbol.asyncIterator]();
+
+  await iterator.next();
+  assertEquals(lastReceived, 1);
+  await iterator.next();
+  assertEquals(lastReceived, 2);
+});
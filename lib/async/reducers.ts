@@ -0,0 +1,408 @@
+import { kComb } from "../internal/util.ts";
+import { Reservoir, WeightedReservoir } from "../internal/reservoir.ts";
+import {
+  AnyIterable,
+  AsyncIterablePredicateCallback,
+  RandomSource,
+} from "../types.ts";
+import { map } from "./transformers.ts";
+
+/**
+ * {@link reduce | `reduce`} accumulator callback.
+ * @typeParam T - See {@link reduce}.
+ * @typeParam U - See {@link reduce}.
+ */
+export interface AsyncReduceAccumulatorCallback<T, U> {
+  /**
+   * {@link reduce | `reduce`} accumulator callback.
+   * @callback AsyncReduceAccumulatorCallback
+   * @param accumulator Accumulates the callback's return values. Is the
+   * accumulated value previously returned in the last invocation of the
+   * callback --- or initialValue, if supplied.
+   * @param currentValue The current item being processed in the iterable.
+   * @param index The number of items in the iterable which have already been
+   * processed,
+   * @param iterable The iterable {@link reduce} was called on.
+   * @returns The next `accumulator` value, or a promise of it.
+   */
+  (
+    accumulator: U,
+    currentValue: T,
+    index: number,
+    iterable: AnyIterable<T>,
+  ): U | Promise<U>;
+}
+
+/**
+ * {@link reduce | `reduce`} stop callback.
+ * @typeParam T - See {@link reduce}.
+ * @typeParam U - See {@link reduce}.
+ */
+export interface AsyncReduceStopCallback<T, U> {
+  /**
+   * {@link reduce | `reduce`} stop callback.
+   * @callback AsyncReduceStopCallback
+   * @param accumulator See {@link AsyncReduceAccumulatorCallback}
+   * @param currentValue The current item being processed in the iterable.
+   * @param index The number of items in the iterable which have already been
+   * processed,
+   * @param iterable The iterable {@link reduce} was called on.
+   * @returns Whether the reducer should stop, or a promise of it.
+   */
+  (
+    accumulator: U,
+    currentValue: T,
+    index: number,
+    iterable: AnyIterable<T>,
+  ): boolean | Promise<boolean>;
+}
+
+/**
+ * Calls the specified callback function for all the items in an iterable. The
+ * return value of the callback function is the accumulated result, and is
+ * provided as an argument in the next call to the callback function.
+ * @param it The iterable to be reduced.
+ * @param {AsyncReduceAccumulatorCallback} reducer A function that accepts up to
+ * four arguments. The reduce function calls and awaits `f` one time for each
+ * item in the iterable, unless it is stopped early.
+ * @param initialValue Used as the initial value to start accumulation.
+ * @param {AsyncReduceStopCallback} stop A function similar to `f`. If it
+ * returns true, `reduce` will stop early and return the current accumulated
+ * value.
+ * @typeParam T - Type of items in `it`.
+ * @typeParam U - Type of accumulator and result.
+ * @returns A promise of the final accumulator value.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const total = await aiter.reduce([1, 2, 3], async (tot, n) => tot + n, 0);
+ *
+ * console.log(total); // -> 6
+ * ```
+ */
+export async function reduce<T, U>(
+  it: AnyIterable<T>,
+  reducer: AsyncReduceAccumulatorCallback<T, U>,
+  initialValue: U,
+  stop: AsyncReduceStopCallback<T, U> = kComb(false),
+): Promise<U> {
+  let index = 0;
+  let accumulator = initialValue;
+  for await (const item of it) {
+    accumulator = await reducer(accumulator, item, index, it);
+    if (await stop(accumulator, item, index, it)) break;
+    index++;
+  }
+  return accumulator;
+}
+
+/**
+ * Determines whether the specified callback function returns true for any item
+ * in an iterable.
+ *
+ * :warning: When ran on an endless iterable for which `predicate` never returns
+ * true, the returned promise never resolves.
+ * @param it - The iterable to be tested.
+ * @param {AsyncIterablePredicateCallback} predicate A function that accepts up
+ * to three arguments.
+ * @typeParam T - The type of items in `it`.
+ * @returns A promise of whether any of the items in `it` predicate true.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * console.log(await aiter.some([1, 2, 3], async (n) => n > 2)); // -> true
+ * ```
+ */
+export function some<T>(
+  it: AnyIterable<T>,
+  predicate: AsyncIterablePredicateCallback<T>,
+): Promise<boolean> {
+  const predicateResults = map(it, predicate);
+  return reduce<boolean, boolean>(
+    predicateResults,
+    (acc, result) => acc || result,
+    false,
+    (acc) => acc,
+  );
+}
+
+/**
+ * Determines whether the specified callback function returns true for all items
+ * in an iterable.
+ *
+ * :warning: When ran on an endless iterable for which `predicate` never returns
+ * false, the returned promise never resolves.
+ * @param it - The iterable to be tested.
+ * @param {AsyncIterablePredicateCallback} predicate A function that accepts up
+ * to three arguments.
+ * @typeParam T - The type of items in `it`.
+ * @returns A promise of whether all of the items in `it` predicate true.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * console.log(await aiter.every([1, 2, 3], async (n) => n > 2)); // -> false
+ * ```
+ */
+export function every<T>(
+  it: AnyIterable<T>,
+  predicate: AsyncIterablePredicateCallback<T>,
+): Promise<boolean> {
+  const predicateResults = map(it, predicate);
+  return reduce<boolean, boolean>(
+    predicateResults,
+    (acc, result) => acc && result,
+    true,
+    (acc) => !acc,
+  );
+}
+
+/**
+ * Determines whether an iterable includes a certain element.
+ *
+ * :warning: When ran on an endless iterable which does not contain `value`,
+ * the returned promise never resolves.
+ * @param it - The iterable to be tested.
+ * @param value - The item to search for.
+ * @typeParam T - The type of items in `it`.
+ * @returns A promise of whether `value` is in `it`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * console.log(await aiter.includes([1, 2, 3], 2)); // -> true
+ * ```
+ */
+export async function includes<T>(
+  it: AnyIterable<T>,
+  value: T,
+): Promise<boolean> {
+  for await (const item of it) {
+    if (item === value) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns the value of the first item in the iterable where predicate is true,
+ * and undefined otherwise.
+ * @param it - The iterable to search.
+ * @param {AsyncIterablePredicateCallback} predicate - Called and awaited once
+ * for each item in the iterable, in ascending order, until it returns true.
+ * @typeParam T - The type of items in `it`.
+ * @returns A promise of the first item which satisfied `predicate`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * console.log(await aiter.find([1, 2, 3], async (n) => n > 1)); // -> 2
+ * ```
+ */
+export async function find<T>(
+  it: AnyIterable<T>,
+  predicate: AsyncIterablePredicateCallback<T>,
+): Promise<T | undefined> {
+  let index = 0;
+  for await (const item of it) {
+    if (await predicate(item, index++, it)) return item;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the index of the first item in the iterable where predicate is true,
+ * and -1 otherwise.
+ * @param it - The iterable to search.
+ * @param {AsyncIterablePredicateCallback} predicate - Called and awaited once
+ * for each item in the iterable, in ascending order, until it returns true.
+ * @typeParam T - The type of items in `it`.
+ * @returns A promise of the index of the first item which satisfied
+ * `predicate`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * console.log(await aiter.findIndex([1, 2, 3], async (n) => n > 1)); // -> 1
+ * ```
+ */
+export async function findIndex<T>(
+  it: AnyIterable<T>,
+  predicate: AsyncIterablePredicateCallback<T>,
+): Promise<number> {
+  let index = 0;
+  for await (const item of it) {
+    if (await predicate(item, index, it)) return index;
+    index++;
+  }
+  return -1;
+}
+
+/**
+ * Finds the sum of all items in `it`.
+ *
+ * :warning: When ran on an endless iterable, the returned promise never
+ * resolves.
+ * @param it - The iterable to sum.
+ * @returns A promise of the sum of all items in `it`.
+ */
+export function sum(it: AnyIterable<number>): Promise<number> {
+  return reduce(it, (acc, n) => acc + n, 0, (acc) => isNaN(acc));
+}
+
+/**
+ * Finds the average of all items in `it`.
+ *
+ * :warning: When ran on an endless iterable, the returned promise never
+ * resolves.
+ * @param it - The iterable to calculate the average of.
+ * @returns A promise of the average of all items in `it`.
+ */
+export async function average(it: AnyIterable<number>): Promise<number> {
+  let count = 0;
+  let accumulator = 0;
+  for await (const item of it) {
+    accumulator += item;
+    if (isNaN(accumulator)) break;
+    count++;
+  }
+  return accumulator / count;
+}
+
+/**
+ * Finds the product of all items in `it`.
+ *
+ * :warning: When ran on an endless iterable without any zeros, the returned
+ * promise never resolves.
+ * @param it - The iterable to multiply.
+ * @returns A promise of the product of all items in `it`.
+ */
+export function product(it: AnyIterable<number>): Promise<number> {
+  return reduce(it, (acc, n) => acc * n, 1, (acc) => acc === 0 || isNaN(acc));
+}
+
+/**
+ * Finds the norm of `it` (distance from the origin).
+ *
+ * :warning: When ran on an endless iterable, the returned promise never
+ * resolves.
+ * @param it - The iterable to find the norm of.
+ * @returns A promise of the norm of `it`.
+ */
+export async function norm(it: AnyIterable<number>): Promise<number> {
+  return Math.sqrt(
+    await reduce(it, (acc, n) => acc + n ** 2, 0, (acc) => isNaN(acc)),
+  );
+}
+
+/**
+ * Collects all items of `it` into an array. The async equivalent of spreading
+ * a sync iterable into an array.
+ *
+ * :warning: When ran on an endless iterable, the returned promise never
+ * resolves.
+ * @param it - The iterable to collect.
+ * @typeParam T - The type of items in `it`.
+ * @returns A promise of an array of all items in `it`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const doubled = aiter.map([1, 2, 3], async (n) => n * 2);
+ *
+ * console.log(await aiter.toArray(doubled)); // -> [ 2, 4, 6 ]
+ * ```
+ */
+export async function toArray<T>(it: AnyIterable<T>): Promise<T[]> {
+  const items = new Array<T>();
+  for await (const item of it) items.push(item);
+  return items;
+}
+
+/**
+ * Async key selector callback.
+ * @typeParam T - The type of items.
+ * @typeParam K - The type of keys.
+ */
+export interface AsyncKeySelectorCallback<T, K> {
+  /**
+   * Async key selector callback.
+   * @callback AsyncKeySelectorCallback
+   * @param item - The current item.
+   * @param index - The index of the item.
+   * @param it - The iterable.
+   * @returns The key for `item`, or a promise of it.
+   */
+  (item: T, index: number, it: AnyIterable<T>): K | Promise<K>;
+}
+
+function assertSampleSize(k: number): void {
+  if (!(Number.isSafeInteger(k) && k >= 0)) {
+    throw new RangeError(
+      `Expected \`k\` to be an integer from 0 and up, got \`${k}\``,
+    );
+  }
+}
+
+/**
+ * Picks `k` items from `it` uniformly at random, without replacement, in a
+ * single pass and using memory only for the `k` items kept.
+ *
+ * :warning: When ran on an endless iterable, the returned promise never
+ * resolves.
+ * @param it - The iterable to sample.
+ * @param k - The number of items to pick.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @typeParam T - The type of items in `it`.
+ * @returns A promise of `k` items of `it` in random order, or all of them if
+ * there are fewer than `k`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * console.log(await aiter.sample(logLines, 100)); // ~> 100 random lines
+ * ```
+ */
+export async function sample<T>(
+  it: AnyIterable<T>,
+  k: number,
+  random: RandomSource = Math.random,
+): Promise<T[]> {
+  assertSampleSize(k);
+  const reservoir = new Reservoir<T>(k, random);
+  for await (const item of it) reservoir.add(item);
+  return reservoir.items();
+}
+
+/**
+ * Picks `k` items from `it` at random, without replacement, where each pick
+ * is made with probability proportional to the weights of the remaining
+ * items, in a single pass and using memory only for the `k` items kept.
+ *
+ * :warning: When ran on an endless iterable, the returned promise never
+ * resolves.
+ * @param it - The iterable to sample.
+ * @param k - The number of items to pick.
+ * @param {AsyncKeySelectorCallback} weightFn - Returns (a promise of) the
+ * weight of each item, which must be finite and non-negative. Items weighing 0
+ * are never picked.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @typeParam T - The type of items in `it`.
+ * @returns A promise of `k` items of `it`, in the order they were picked, or
+ * all of the items with positive weights if there are fewer than `k`.
+ */
+export async function sampleWeighted<T>(
+  it: AnyIterable<T>,
+  k: number,
+  weightFn: AsyncKeySelectorCallback<T, number>,
+  random: RandomSource = Math.random,
+): Promise<T[]> {
+  assertSampleSize(k);
+  const reservoir = new WeightedReservoir<T>(k, random);
+  let index = 0;
+  for await (const item of it) {
+    reservoir.add(item, await weightFn(item, index++, it));
+  }
+  return reservoir.items();
+}
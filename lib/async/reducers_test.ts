@@ -0,0 +1,86 @@
+import { assertEquals } from "../../test_deps.ts";
+import * as reducers from "./reducers.ts";
+import { increments, range } from "../generators.ts";
+import { seededRandom } from "../random.ts";
+
+async function* asyncRange(n: number) {
+  for (let i = 0; i < n; i++) yield i;
+}
+
+Deno.test("async reduce", async () => {
+  assertEquals(
+    await reducers.reduce(
+      asyncRange(10),
+      (acc, x) => Promise.resolve(acc + x),
+      0,
+    ),
+    45,
+  );
+  assertEquals(
+    await reducers.reduce(
+      increments(),
+      (_, x) => x,
+      0,
+      (x) => Promise.resolve(x === 5),
+    ),
+    5,
+  );
+});
+
+Deno.test("async some and every", async () => {
+  assertEquals(
+    await reducers.some(asyncRange(5), (x) => Promise.resolve(x > 3)),
+    true,
+  );
+  assertEquals(await reducers.some(asyncRange(5), (x) => x > 4), false);
+  assertEquals(await reducers.some(increments(), (x) => x > 100), true);
+  assertEquals(
+    await reducers.every(asyncRange(5), (x) => Promise.resolve(x < 5)),
+    true,
+  );
+  assertEquals(await reducers.every(increments(), (x) => x < 100), false);
+});
+
+Deno.test("async includes, find and findIndex", async () => {
+  assertEquals(await reducers.includes(asyncRange(5), 3), true);
+  assertEquals(await reducers.includes(asyncRange(5), 5), false);
+  assertEquals(
+    await reducers.find(asyncRange(5), (x) => Promise.resolve(x > 2)),
+    3,
+  );
+  assertEquals(await reducers.find(asyncRange(5), (x) => x > 5), undefined);
+  assertEquals(
+    await reducers.findIndex([5, 6, 7], (x) => Promise.resolve(x > 5)),
+    1,
+  );
+  assertEquals(await reducers.findIndex([5, 6, 7], (x) => x > 7), -1);
+});
+
+Deno.test("async numeric reducers", async () => {
+  assertEquals(await reducers.sum(asyncRange(5)), 10);
+  assertEquals(await reducers.average(range(1, 100)), 50.5);
+  assertEquals(await reducers.product(range(1, 5)), 120);
+  assertEquals(await reducers.norm([12, 16, 21]), 29);
+});
+
+Deno.test("async toArray", async () => {
+  assertEquals(await reducers.toArray(asyncRange(3)), [0, 1, 2]);
+  assertEquals(await reducers.toArray([]), []);
+});
+
+Deno.test("async sample", async () => {
+  const random = seededRandom(1);
+  const picked = await reducers.sample(asyncRange(100), 5, random);
+
+  assertEquals(new Set(picked).size, 5);
+  assertEquals((await reducers.sample(asyncRange(3), 5)).sort(), [0, 1, 2]);
+  assertEquals(
+    await reducers.sampleWeighted(
+      asyncRange(5),
+      3,
+      (n) => Promise.resolve(n % 2),
+      random,
+    ).then((items) => items.sort()),
+    [1, 3],
+  );
+});
@@ -0,0 +1,1238 @@
+import {
+  getAsyncIterator,
+  isAsyncIterable,
+  isIterable,
+  sameValueZero,
+  untilErrorAsync,
+} from "../internal/util.ts";
+import { Deque } from "../internal/deque.ts";
+import { ReplayCache } from "../internal/replay_cache.ts";
+import { SharedBuffer } from "../internal/shared_buffer.ts";
+import { Splitter, trimLineEnd } from "../internal/splitter.ts";
+import {
+  AnyIterable,
+  AsyncIterableCircular,
+  AsyncIterablePredicateCallback,
+  AsyncPeekable,
+  AsyncRemembered,
+  LinesOptions,
+  SafeResult,
+} from "../types.ts";
+
+/**
+ * {@link map | `map`} callback.
+ * @typeParam T - See {@link map}
+ * @typeParam U - See {@link map}
+ */
+export interface AsyncMapCallback<T, U> {
+  /**
+   * {@link map | `map`} callback.
+   * @callback AsyncMapCallback
+   * @param item - The current item to be mapped.
+   * @param index - The index of the item.
+   * @param it - The iterable.
+   * @returns The mapped value, or a promise of it.
+   */
+  (item: T, index: number, it: AnyIterable<T>): U | Promise<U>;
+}
+
+/**
+ * {@link flatMap | `flatMap`} callback.
+ * @typeParam T - See {@link flatMap}
+ * @typeParam U - See {@link flatMap}
+ */
+export interface AsyncFlatMapCallback<T, U> {
+  /**
+   * {@link flatMap | `flatMap`} callback.
+   * @callback AsyncFlatMapCallback
+   * @param item - The current item to be mapped.
+   * @param index - The index of the item.
+   * @param it - The iterable.
+   * @returns The mapped value, or a promise of it.
+   */
+  (
+    item: T,
+    index: number,
+    it: AnyIterable<T>,
+  ): U | AnyIterable<U> | Promise<U | AnyIterable<U>>;
+}
+
+/**
+ * Lazily calls a defined callback function for each element of an iterable, and
+ * returns a new async iterable of the results.
+ * @param it - The iterable being mapped.
+ * @param {AsyncMapCallback} f - A function that accepts up to three arguments.
+ * The map function calls and awaits `f` one time for each item in the iterable.
+ * @typeParam T - Type of items in `it`.
+ * @typeParam U - Return type of `f`.
+ * @returns An async iterable of `f` applied to items of `it`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const ids = aiter.map([1, 2, 3], async (n) => `id-${n}`);
+ *
+ * for await (const id of ids) {
+ *   console.log(id);
+ * }
+ *
+ * // -> id-1
+ * // -> id-2
+ * // -> id-3
+ * ```
+ */
+export function map<T, U = T>(
+  it: AnyIterable<T>,
+  f: AsyncMapCallback<T, U>,
+): AsyncIterableCircular<U> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for await (const item of it) yield await f(item, index++, it);
+    },
+  };
+}
+
+/**
+ * Lazily calls a defined callback function for each element of an iterable, and
+ * returns a new async iterable of the results flattened by one level. Both sync
+ * and async iterables returned by `f` are flattened.
+ * @param it - The iterable being mapped.
+ * @param {AsyncFlatMapCallback} f - A function that accepts up to three
+ * arguments. The flatMap function calls and awaits `f` one time for each item in
+ * the iterable.
+ * @typeParam T - Type of items in `it`.
+ * @typeParam U - Return type of `f`.
+ * @returns An async iterable of `f` applied to items of `it`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const squares = aiter.flatMap([1, 2, 3], async (n) => [n, n * n]);
+ *
+ * console.log(await aiter.toArray(squares)); // -> [ 1, 1, 2, 4, 3, 9 ]
+ * ```
+ */
+export function flatMap<T, U = T>(
+  it: AnyIterable<T>,
+  f: AsyncFlatMapCallback<T, U>,
+): AsyncIterableCircular<U> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for await (const item of it) {
+        const mapped = await f(item, index, it);
+        // uses simplified flat as at most one level is flattened
+        if (isAsyncIterable(mapped) || isIterable(mapped)) {
+          for await (const inner of mapped) yield inner;
+        } else {
+          yield mapped;
+        }
+        index++;
+      }
+    },
+  };
+}
+
+/**
+ * Returns a new async iterable containing the first `n` items of `it`.
+ * @param it - The iterable being taken from.
+ * @param n - The number of items to take.
+ * @typeParam T - The type of items in both `it` and the returned iterable.
+ * @returns A new async iterable of `it` which terminates after `n` items.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const first3 = aiter.take(iter.create.increments(1), 3);
+ *
+ * console.log(await aiter.toArray(first3)); // -> [ 1, 2, 3 ]
+ * ```
+ */
+export function take<T>(
+  it: AnyIterable<T>,
+  n: number,
+): AsyncIterableCircular<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      if (n <= 0) return;
+      let count = 0;
+      for await (const item of it) {
+        yield item;
+        if (++count >= n) break;
+      }
+    },
+  };
+}
+
+/**
+ * Returns a new async iterable containing the items of `it` except the first
+ * `n` items.
+ * @param it - The iterable being taken from.
+ * @param n - The number of items to drop.
+ * @typeParam T - The type of items in both `it` and the returned iterable.
+ * @returns A new async iterable of `it` which skips the first `n` items.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const from3 = aiter.drop([1, 2, 3, 4], 2);
+ *
+ * console.log(await aiter.toArray(from3)); // -> [ 3, 4 ]
+ * ```
+ */
+export function drop<T>(
+  it: AnyIterable<T>,
+  n: number,
+): AsyncIterableCircular<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for await (const item of it) {
+        if (index++ < n) continue;
+        yield item;
+      }
+    },
+  };
+}
+
+/**
+ * Returns a new async iterable which yields until `f` returns true.
+ * @param it - The iterable being cut.
+ * @param {AsyncIterablePredicateCallback} f - A function that accepts up to
+ * three arguments. The `until` function calls and awaits `f` one time for each
+ * item in the iterable.
+ * @param includeLast - Whether the item for which `f` returns true should be
+ * included.
+ * @typeParam T - The type of items in both `it` and the returned iterable.
+ * @returns A new async iterable of `it` which terminates.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const numbers = aiter.until(iter.create.increments(1), async (n) => n > 3);
+ *
+ * console.log(await aiter.toArray(numbers)); // -> [ 1, 2, 3, 4 ]
+ * ```
+ */
+export function until<T>(
+  it: AnyIterable<T>,
+  f: AsyncIterablePredicateCallback<T>,
+  includeLast = true,
+): AsyncIterableCircular<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for await (const item of it) {
+        const done = await f(item, index++, it);
+        if (done) {
+          if (includeLast) {
+            yield item;
+          }
+          break;
+        }
+        yield item;
+      }
+    },
+  };
+}
+
+/**
+ * Returns a new async iterable which skips items from `it` until `f` returns
+ * true.
+ * @param it - The iterable being skipped.
+ * @param {AsyncIterablePredicateCallback} f - A function that accepts up to
+ * three arguments. The `dropUntil` function calls and awaits `f` one time for
+ * each item in the iterable until `f` returns true.
+ * @param includeFirst - Whether the item for which `f` returns true should be
+ * included.
+ * @typeParam T - The type of items in both `it` and the returned iterable.
+ * @returns A new async iterable of `it` which begins at the first element where
+ * `f` returns true.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const dropped = aiter.dropUntil([1, 2, 3, 4], (n) => n >= 3);
+ *
+ * console.log(await aiter.toArray(dropped)); // -> [ 3, 4 ]
+ * ```
+ */
+export function dropUntil<T>(
+  it: AnyIterable<T>,
+  f: AsyncIterablePredicateCallback<T>,
+  includeFirst = true,
+): AsyncIterableCircular<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      let dropping = true;
+      for await (const item of it) {
+        if (dropping) {
+          dropping = !(await f(item, index++, it));
+          if (dropping || !includeFirst) continue;
+        }
+        yield item;
+      }
+    },
+  };
+}
+
+/**
+ * Returns a new async iterable which yields while `f` returns true.
+ * @param it - The iterable being cut.
+ * @param {AsyncIterablePredicateCallback} f - A function that accepts up to
+ * three arguments. The `takeWhile` function calls and awaits `f` one time for
+ * each item in the iterable.
+ * @typeParam T - The type of items in both `it` and the returned iterable.
+ * @returns A new async iterable of `it` which terminates.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const numbers = aiter.takeWhile(iter.create.increments(1), (n) => n <= 3);
+ *
+ * console.log(await aiter.toArray(numbers)); // -> [ 1, 2, 3 ]
+ * ```
+ */
+export function takeWhile<T>(
+  it: AnyIterable<T>,
+  f: AsyncIterablePredicateCallback<T>,
+): AsyncIterableCircular<T> {
+  return until(it, async (...args) => !(await f(...args)), false);
+}
+
+/**
+ * Returns a new async iterable which skips items from `it` while `f` returns
+ * true.
+ * @param it - The iterable being skipped.
+ * @param {AsyncIterablePredicateCallback} f - A function that accepts up to
+ * three arguments. The `dropWhile` function calls and awaits `f` one time for
+ * each item in the iterable.
+ * @typeParam T - The type of items in both `it` and the returned iterable.
+ * @returns A new async iterable of `it` which begins at the first element where
+ * `f` returns false.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const dropped = aiter.dropWhile([1, 2, 3, 4], (n) => n < 3);
+ *
+ * console.log(await aiter.toArray(dropped)); // -> [ 3, 4 ]
+ * ```
+ */
+export function dropWhile<T>(
+  it: AnyIterable<T>,
+  f: AsyncIterablePredicateCallback<T>,
+): AsyncIterableCircular<T> {
+  return dropUntil(it, async (...args) => !(await f(...args)));
+}
+
+/**
+ * Returns the items of an iterable that meet the condition specified in a
+ * callback function.
+ * @param it - The iterable being filtered.
+ * @param {AsyncIterablePredicateCallback} predicate - A function that accepts
+ * up to three arguments. The filter function calls and awaits the predicate
+ * function one time for each item in the iterable.
+ * @typeParam T - The type of items in `it`.
+ * @returns A new async iterable.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const odds = aiter.filter([1, 2, 3, 4, 5], async (n) => n % 2 === 1);
+ *
+ * console.log(await aiter.toArray(odds)); // -> [ 1, 3, 5 ]
+ * ```
+ */
+export function filter<T>(
+  it: AnyIterable<T>,
+  predicate: AsyncIterablePredicateCallback<T>,
+): AsyncIterableCircular<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for await (const item of it) {
+        if (await predicate(item, index++, it)) {
+          yield item;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Converts an iterable into a series of pairs of indices and values. The async
+ * counterpart of the sync `indexedPairs`.
+ * @param it - The iterable being indexed.
+ * @typeParam T - The type of items in `it`.
+ * @returns An async iterable over pairs of indices and the items in `it`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const indexed = aiter.indexedPairs(["a", "b"]);
+ *
+ * console.log(await aiter.toArray(indexed)); // -> [ [ 0, "a" ], [ 1, "b" ] ]
+ * ```
+ */
+export function indexedPairs<T>(
+  it: AnyIterable<T>,
+): AsyncIterableCircular<[number, T]> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for await (const item of it) {
+        yield [index++, item];
+      }
+    },
+  };
+}
+
+/**
+ * Splits an iterable into evenly sized chunks.
+ * @param it - The iterable being chunkified.
+ * @param chunkSize - The size of each chunk.
+ * @typeParam T - The type of items in `it`.
+ * @returns A new async iterable over chunk arrays.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const chunks = aiter.chunkify([1, 2, 3, 4, 5], 2);
+ *
+ * console.log(await aiter.toArray(chunks)); // -> [ [ 1, 2 ], [ 3, 4 ], [ 5 ] ]
+ * ```
+ */
+export function chunkify<T>(
+  it: AnyIterable<T>,
+  chunkSize: number,
+): AsyncIterableCircular<T[]> {
+  if (!(Number.isSafeInteger(chunkSize) && chunkSize > 0)) {
+    throw new RangeError(
+      `Expected \`chunkSize\` to be an integer from 1 and up, got \`${chunkSize}\``,
+    );
+  }
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      let chunk = [];
+
+      for await (const value of it) {
+        chunk.push(value);
+
+        if (chunk.length === chunkSize) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+
+      if (chunk.length > 0) {
+        yield chunk;
+      }
+    },
+  };
+}
+
+function assertDelimiter(delimiter: string): void {
+  if (typeof delimiter !== "string" || delimiter.length === 0) {
+    throw new RangeError(
+      `Expected \`delimiter\` to be a non-empty string, got \`${delimiter}\``,
+    );
+  }
+}
+
+/**
+ * Lazily joins chunks of text and splits them on `delimiter`, like
+ * `String.prototype.split`. Delimiters may span chunk boundaries. As with
+ * `split`, the text after the last delimiter is always yielded, even if it is
+ * empty.
+ * @param chunks - The chunks of text, e.g. from a reader.
+ * @param delimiter - The non-empty string to split on.
+ * @returns An async iterable over the text between delimiters.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const records = aiter.splitOn(["a::b:", ":c"], "::");
+ *
+ * console.log(await aiter.toArray(records)); // -> ["a", "b", "c"]
+ * ```
+ */
+export function splitOn(
+  chunks: AnyIterable<string>,
+  delimiter: string,
+): AsyncIterableCircular<string> {
+  assertDelimiter(delimiter);
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      const splitter = new Splitter(delimiter, false);
+      for await (const chunk of chunks) {
+        for (const piece of splitter.push(chunk)) yield piece;
+      }
+      yield splitter.end();
+    },
+  };
+}
+
+/**
+ * Lazily joins chunks of text and splits them into lines, which may span
+ * chunk boundaries. Lines end with `"\n"` or, by default, `"\r\n"`. A
+ * trailing line ending doesn't start an extra, empty line.
+ * @param chunks - The chunks of text, e.g. from a reader.
+ * @param options - See {@link LinesOptions}.
+ * @returns An async iterable over the lines.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const file = await Deno.open("./log.txt");
+ * const chunks = file.readable.pipeThrough(new TextDecoderStream());
+ *
+ * for await (const line of aiter.lines(chunks)) {
+ *   console.log(line);
+ * }
+ * ```
+ */
+export function lines(
+  chunks: AnyIterable<string>,
+  { keepEnds = false, crlf = true }: LinesOptions = {},
+): AsyncIterableCircular<string> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      const splitter = new Splitter("\n", true);
+      for await (const chunk of chunks) {
+        for (const line of splitter.push(chunk)) {
+          yield keepEnds ? line : trimLineEnd(line, crlf);
+        }
+      }
+      const last = splitter.end();
+      if (last !== "") yield last;
+    },
+  };
+}
+
+/**
+ * {@link catchError | `catchError`} callback.
+ * @typeParam U - See {@link catchError}
+ */
+export interface AsyncCatchErrorCallback<U> {
+  /**
+   * {@link catchError | `catchError`} callback.
+   * @callback AsyncCatchErrorCallback
+   * @param error - The error thrown by the source.
+   * @returns The iterable to continue with, or a promise of it.
+   */
+  (error: unknown): AnyIterable<U> | Promise<AnyIterable<U>>;
+}
+
+/**
+ * Yields the items of `it`, and if iterating over it throws (or rejects),
+ * continues with the items of the fallback iterable returned by `handler`
+ * instead of aborting. Only errors from `it` are caught, not those of the
+ * consumer.
+ * @param it - The iterable which may throw.
+ * @param {AsyncCatchErrorCallback} handler - Called and awaited with the
+ * error, returning the iterable to continue with. It may rethrow the error.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam U - The type of items in the fallback.
+ * @returns An async iterable over the items of `it`, then those of the
+ * fallback if it threw.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const fetched = aiter.map([1, 2], async (id) => {
+ *   if (id === 2) throw new Error("Not found");
+ *   return `page ${id}`;
+ * });
+ * const safe = aiter.catchError(fetched, () => ["cached page"]);
+ *
+ * console.log(await aiter.toArray(safe)); // -> [ "page 1", "cached page" ]
+ * ```
+ */
+export function catchError<T, U = T>(
+  it: AnyIterable<T>,
+  handler: AsyncCatchErrorCallback<U>,
+): AsyncIterableCircular<T | U> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      const failure = yield* untilErrorAsync(() => getAsyncIterator(it));
+      if (failure === undefined) return;
+      for await (const item of await handler(failure.error)) yield item;
+    },
+  };
+}
+
+/**
+ * {@link onError | `onError`} callback.
+ */
+export interface AsyncOnErrorCallback {
+  /**
+   * {@link onError | `onError`} callback.
+   * @callback AsyncOnErrorCallback
+   * @param error - The error thrown by the source.
+   * @returns Nothing, or a promise which is awaited before rethrowing.
+   */
+  (error: unknown): void | Promise<void>;
+}
+
+/**
+ * Calls and awaits `f` with any error thrown while iterating over `it`, before
+ * rethrowing it. Useful for logging or cleaning up, without recovering from
+ * the error.
+ * @param it - The iterable which may throw.
+ * @param {AsyncOnErrorCallback} f - Called with the error.
+ * @typeParam T - The type of items in `it`.
+ * @returns An async iterable over the items of `it`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const parsed = aiter.map(["1", "{"], (text) => JSON.parse(text));
+ * const logged = aiter.onError(parsed, (error) => console.error(error));
+ *
+ * await aiter.toArray(logged); // logs, then rejects with the SyntaxError
+ * ```
+ */
+export function onError<T>(
+  it: AnyIterable<T>,
+  f: AsyncOnErrorCallback,
+): AsyncIterableCircular<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      const failure = yield* untilErrorAsync(() => getAsyncIterator(it));
+      if (failure === undefined) return;
+      await f(failure.error);
+      throw failure.error;
+    },
+  };
+}
+
+/**
+ * Options for {@link retry | `retry`}.
+ */
+export interface AsyncRetryOptions {
+  /**
+   * The maximum number of times to iterate over a new source, including the
+   * first. Defaults to `3`.
+   */
+  attempts?: number;
+}
+
+/**
+ * Iterates over the source created by `factory`, and if that throws, creates
+ * a new source with `factory` and iterates over it from the start, up to
+ * `attempts` times in total. The error from the last attempt is rethrown.
+ *
+ * Note that items yielded before an error are yielded again by the next
+ * attempt, unless `factory` resumes where the previous source left off.
+ * @param factory - Creates the source, or a promise of it. Errors it throws
+ * count as failed attempts.
+ * @param options - See {@link AsyncRetryOptions}.
+ * @typeParam T - The type of items in the source.
+ * @returns An async iterable over the items of the first source which doesn't
+ * throw.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * let offset = 0;
+ * let failures = 1;
+ * const pages = async function* () {
+ *   for (; offset < 3; offset++) {
+ *     if (offset === 2 && failures-- > 0) throw new Error("Timed out");
+ *     yield offset;
+ *   }
+ * };
+ *
+ * console.log(await aiter.toArray(aiter.retry(pages))); // -> [ 0, 1, 2 ]
+ * ```
+ */
+export function retry<T>(
+  factory: () => AnyIterable<T> | Promise<AnyIterable<T>>,
+  { attempts = 3 }: AsyncRetryOptions = {},
+): AsyncIterableCircular<T> {
+  if (
+    !(attempts === Infinity || Number.isSafeInteger(attempts)) || attempts < 1
+  ) {
+    throw new RangeError(
+      `Expected \`attempts\` to be an integer from 1 and up, got \`${attempts}\``,
+    );
+  }
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      for (let attempt = 1;; attempt++) {
+        const failure = yield* untilErrorAsync(async () =>
+          getAsyncIterator(await factory())
+        );
+        if (failure === undefined) return;
+        if (attempt >= attempts) throw failure.error;
+      }
+    },
+  };
+}
+
+/**
+ * Lazily maps each item of `it` like {@link map | `map`}, but catches errors
+ * thrown (or promises rejected) by `f`, so that a bad item doesn't abort the
+ * whole iteration. Each result is tagged with whether mapping succeeded.
+ * @param it - The iterable being mapped.
+ * @param {AsyncMapCallback} f - A function that accepts up to three
+ * arguments, and may throw.
+ * @typeParam T - Type of items in `it`.
+ * @typeParam U - Return type of `f`.
+ * @returns An async iterable of {@link SafeResult}s, holding either the value
+ * returned by `f` or the error it threw along with the item.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const results = aiter.mapSafe([1, 2], async (id) => {
+ *   if (id === 2) throw new Error("Not found");
+ *   return id * 10;
+ * });
+ *
+ * console.log(await aiter.toArray(results));
+ * // -> [ { ok: true, value: 10 }, { ok: false, error: Error: Not found, item: 2 } ]
+ * ```
+ */
+export function mapSafe<T, U>(
+  it: AnyIterable<T>,
+  f: AsyncMapCallback<T, U>,
+): AsyncIterableCircular<SafeResult<T, U>> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for await (const item of it) {
+        let result: SafeResult<T, U>;
+        try {
+          result = { ok: true, value: await f(item, index++, it) };
+        } catch (error) {
+          result = { ok: false, error, item };
+        }
+        yield result;
+      }
+    },
+  };
+}
+
+/**
+ * Options for {@link remember | `remember`}.
+ */
+export interface AsyncRememberOptions {
+  /**
+   * The maximum number of items to cache. Once the cache is full, the oldest
+   * item is evicted for each new one, so new iterations replay only the most
+   * recent `maxItems` items before continuing with the source. Defaults to
+   * `Infinity`.
+   */
+  maxItems?: number;
+}
+
+/**
+ * Makes an iterable remember. Each time it is iterated over it will yield the
+ * same results. Iterators over the result may be advanced concurrently; the
+ * source is only ever pulled from once per item. The cache can be inspected
+ * and dropped through the returned {@link AsyncRemembered} handle.
+ *
+ * With `maxItems`, iterators which fall behind the cache (or are running when
+ * it is reset) skip ahead to its oldest item.
+ * @param it - The iterable to remember.
+ * @param options - See {@link AsyncRememberOptions}.
+ * @typeParam T - The type of items in `it`.
+ * @returns A new async iterable which remembers.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const remembered = aiter.remember(iter.create.randomNumbers());
+ *
+ * console.log(await aiter.toArray(aiter.take(remembered, 2)));
+ * // ~> [ 0.1363627616298313, 0.20839783736895812 ]
+ * console.log(await aiter.toArray(aiter.take(remembered, 2)));
+ * // ~> [ 0.1363627616298313, 0.20839783736895812 ]
+ *
+ * await remembered.reset();
+ * console.log(remembered.size); // -> 0
+ * ```
+ */
+export function remember<T>(
+  it: AnyIterable<T>,
+  { maxItems = Infinity }: AsyncRememberOptions = {},
+): AsyncRemembered<T> {
+  if (
+    !(maxItems === Infinity || Number.isSafeInteger(maxItems)) || maxItems < 0
+  ) {
+    throw new RangeError(
+      `Expected \`maxItems\` to be an integer from 0 and up, got \`${maxItems}\``,
+    );
+  }
+
+  const cache = new ReplayCache<T>(maxItems);
+  let iterator: AsyncIterator<T> | undefined;
+  let pending: Promise<[number, T] | undefined> | undefined;
+  let done = false;
+  // bumped by `reset`, so that pulls from the old source are discarded
+  let generation = 0;
+
+  // resolves to the pulled item and its position, or `undefined` if there
+  // isn't one for the current source
+  const pull = () => {
+    const current = generation;
+    return pending ??= (iterator ??= getAsyncIterator(it)).next().then(
+      (next): [number, T] | undefined => {
+        if (current !== generation) return undefined;
+        pending = undefined;
+        if (next.done) {
+          done = true;
+          return undefined;
+        }
+        cache.push(next.value);
+        return [cache.end - 1, next.value];
+      },
+      (error) => {
+        // the failure isn't cached, so that the next read pulls again
+        if (current === generation) pending = undefined;
+        throw error;
+      },
+    );
+  };
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      let position = cache.start;
+      while (true) {
+        position = Math.max(position, cache.start);
+        if (position < cache.end) {
+          yield cache.at(position++);
+        } else if (done) {
+          return;
+        } else {
+          const pulled = await pull();
+          // yield directly, as the item may already have been evicted
+          if (pulled !== undefined && pulled[0] === position) {
+            position++;
+            yield pulled[1];
+          }
+        }
+      }
+    },
+    get size() {
+      return cache.size;
+    },
+    async reset() {
+      const source = done ? undefined : iterator;
+      generation++;
+      iterator = undefined;
+      pending = undefined;
+      done = false;
+      cache.clear();
+      await source?.return?.();
+    },
+    async close() {
+      const source = done ? undefined : iterator;
+      generation++;
+      pending = undefined;
+      done = true;
+      await source?.return?.();
+    },
+  };
+}
+
+/**
+ * Options for {@link tee | `tee`}.
+ */
+export interface AsyncTeeOptions {
+  /**
+   * The maximum number of items the shared buffer may hold, i.e. how far the
+   * fastest reader may get ahead of the slowest one. Defaults to `Infinity`.
+   */
+  maxBuffer?: number;
+  /**
+   * What a reader does when pulling another item would take the buffer past
+   * `maxBuffer`. With `"throw"` the call to `next` rejects with a `RangeError`.
+   * With `"wait"` it waits until the slower readers have caught up, which
+   * never happens if they are consumed one after another rather than
+   * concurrently. Defaults to `"throw"`.
+   */
+  onOverflow?: "throw" | "wait";
+}
+
+/**
+ * Splits one iterable into `n` independent async iterators. The source is
+ * iterated over at most once, and the readers share a buffer holding only the
+ * items the slowest reader has yet to consume. Readers may be advanced
+ * concurrently; the source is only ever pulled from once per item.
+ *
+ * Note that this returns iterators rather than iterables, so each reader can
+ * only be iterated over once. Closing a reader stops the buffer from waiting
+ * for it, and the source is closed once every reader has been closed. If the
+ * source throws, each reader throws the same error once it has read the items
+ * before it.
+ * @param it - The iterable to split.
+ * @param n - The number of readers. Defaults to `2`.
+ * @param options - See {@link AsyncTeeOptions}.
+ * @typeParam T - The type of items in `it`.
+ * @returns An array of `n` async iterators over the items of `it`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const [a, b] = aiter.tee(aiter.fuse([1, 2, 3]), 2, {
+ *   maxBuffer: 1,
+ *   onOverflow: "wait",
+ * });
+ *
+ * console.log(await Promise.all([aiter.toArray(a), aiter.sum(b)]));
+ * // -> [ [ 1, 2, 3 ], 6 ]
+ * ```
+ */
+export function tee<T>(
+  it: AnyIterable<T>,
+  n = 2,
+  { maxBuffer = Infinity, onOverflow = "throw" }: AsyncTeeOptions = {},
+): AsyncIterableIterator<T>[] {
+  if (!(Number.isSafeInteger(n) && n >= 0)) {
+    throw new RangeError(
+      `Expected \`n\` to be an integer from 0 and up, got \`${n}\``,
+    );
+  }
+  if (
+    !(maxBuffer === Infinity || Number.isSafeInteger(maxBuffer)) ||
+    maxBuffer < 1
+  ) {
+    throw new RangeError(
+      `Expected \`maxBuffer\` to be an integer from 1 and up, got \`${maxBuffer}\``,
+    );
+  }
+
+  const buffer = new SharedBuffer<T>(n);
+  let iterator: AsyncIterator<T> | undefined;
+  let pending: Promise<void> | undefined;
+  let done = false;
+  // an error thrown by the source, rethrown to each reader once it gets there
+  let failure: { error: unknown } | undefined;
+  const failed = new Array<boolean>(n).fill(false);
+  let waiting = new Array<() => void>();
+
+  const notify = () => {
+    const resolvers = waiting;
+    waiting = [];
+    for (const resolve of resolvers) resolve();
+  };
+
+  const pull = () =>
+    pending ??= new Promise<IteratorResult<T>>((resolve) =>
+      resolve((iterator ??= getAsyncIterator(it)).next())
+    ).then(
+      (next) => {
+        pending = undefined;
+        if (next.done) done = true;
+        else buffer.push(next.value);
+        notify();
+      },
+      (error) => {
+        pending = undefined;
+        // a source which throws is finished, so it mustn't be closed later
+        done = true;
+        failure = { error };
+        notify();
+      },
+    );
+
+  // detaches a reader, closing the source once every reader is detached
+  const close = async (id: number) => {
+    buffer.detach(id);
+    notify();
+    if (buffer.attached === 0 && !done) {
+      done = true;
+      await iterator?.return?.();
+    }
+  };
+
+  const reader = (id: number): AsyncIterableIterator<T> => ({
+    async next() {
+      while (true) {
+        if (buffer.has(id)) {
+          const value = buffer.take(id);
+          notify();
+          return { done: false, value };
+        }
+        if (buffer.isDetached(id)) return { done: true, value: undefined };
+        if (done) {
+          if (failure !== undefined && !failed[id]) {
+            failed[id] = true;
+            throw failure.error;
+          }
+          return { done: true, value: undefined };
+        }
+        if (pending === undefined && buffer.length >= maxBuffer) {
+          if (onOverflow === "throw") {
+            throw new RangeError(
+              `Expected the \`tee\` buffer to hold at most \`${maxBuffer}\` items, got \`${
+                buffer.length + 1
+              }\``,
+            );
+          }
+          await new Promise<void>((resolve) => waiting.push(resolve));
+        } else {
+          await pull();
+        }
+      }
+    },
+    async return() {
+      await close(id);
+      return { done: true, value: undefined };
+    },
+    async throw(error?: unknown) {
+      await close(id);
+      throw error;
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  });
+
+  return Array.from({ length: n }, (_, id) => reader(id));
+}
+
+type NestedAsyncIterableContent<T> =
+  | Iterable<NestedAsyncIterableContent<T>>
+  | AsyncIterable<NestedAsyncIterableContent<T>>
+  | T;
+
+/**
+ * Lazily flattens a nested iterable to a given depth. Both sync and async
+ * iterables are flattened.
+ * @param iter - The iterable to be flattened.
+ * @param depth - The depth to which `iter` should be flattened.
+ * @typeParam T - The type of values for the returned iterable.
+ * @typeParam Iter - The type of the iterable.
+ * @returns The flattened async iterable.
+ */
+export function flat<
+  T,
+  Iter extends AnyIterable<NestedAsyncIterableContent<T>>,
+>(
+  iter: Iter,
+  depth = 1,
+): AsyncIterableCircular<NestedAsyncIterableContent<T>> {
+  if (!(Number.isSafeInteger(depth) && depth >= 0)) {
+    throw new RangeError(
+      `Expected \`depth\` to be an integer from 0 and up, got \`${depth}\``,
+    );
+  }
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      const source: AnyIterable<NestedAsyncIterableContent<T>> = iter;
+      for await (const value of source) {
+        if (depth > 0 && (isAsyncIterable(value) || isIterable(value))) {
+          yield* flat(value, depth - 1);
+        } else {
+          yield value;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Lazily flattens a nested iterable completely, such that none of its yielded
+ * values are sync or async iterable.
+ * @param iter - The iterable to be flattened.
+ * @typeParam T - The type of values for the returned iterable.
+ * @typeParam Iter - The type of the iterable.
+ * @returns The flattened async iterable.
+ */
+export function completeFlat<
+  T,
+  Iter extends AnyIterable<NestedAsyncIterableContent<T>>,
+>(
+  iter: Iter,
+): AsyncIterableCircular<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      const source: AnyIterable<NestedAsyncIterableContent<T>> = iter;
+      for await (const value of source) {
+        if (isAsyncIterable(value) || isIterable(value)) {
+          yield* completeFlat<T, typeof value>(value);
+        } else {
+          yield value as T;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Strips and fuses an iterable, such that any results including and after a
+ * result with `{ done: true }` are ignored. Also useful for turning a sync
+ * iterable into an async one.
+ * @param iter - The iterable to be fused.
+ * @typeParam T - The type of values for the returned iterable.
+ * @returns A stripped and fused async iterable.
+ */
+export function fuse<T>(iter: AnyIterable<T>): AsyncIterableCircular<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      for await (const value of iter) {
+        yield value;
+      }
+    },
+  };
+}
+
+/**
+ * Generates an async peekable iterator from the provided iterable (See
+ * {@link AsyncPeekable}). Like the sync `peekable`, it can also look several
+ * items ahead, consume items conditionally and push items back.
+ * @param iter - The iterable to make peekable.
+ * @returns An async peekable iterator on the items of `iter`.
+ * @example
+ * ```ts
+ * import * as aiter from "https://deno.land/x/iter/async.ts";
+ *
+ * const peekable = aiter.peekable([0, 1, 2]);
+ *
+ * console.log((await peekable.peek()).value); // -> 0
+ * console.log((await peekable.next()).value); // -> 0
+ * console.log((await peekable.peek()).value); // -> 1
+ * console.log(await peekable.peekN(5)); // -> [1, 2]
+ * ```
+ */
+export function peekable<T>(iter: AnyIterable<T>): AsyncPeekable<T> {
+  return new CAsyncPeekable(iter);
+}
+
+/**
+ * Implementation of the {@link AsyncPeekable} interface.
+ * @private
+ */
+class CAsyncPeekable<T> implements AsyncPeekable<T> {
+  #buffer = new Deque<Promise<IteratorResult<T>>>();
+  #internalIterator: AsyncIterator<T>;
+  #done = false;
+  #position = 0;
+
+  constructor(iter: AnyIterable<T>) {
+    this.#internalIterator = getAsyncIterator(iter);
+  }
+
+  get position(): number {
+    return this.#position;
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    return (this.#buffer.shift() ?? this.#pull()).then((result) => {
+      if (!result.done) this.#position++;
+      return result;
+    });
+  }
+
+  peek(): Promise<IteratorResult<T>> {
+    return this.#lookahead(0);
+  }
+
+  async peekN(n: number): Promise<T[]> {
+    assertPeekCount(n);
+    const items = new Array<T>();
+    for (let i = 0; i < n; i++) {
+      const result = await this.#lookahead(i);
+      if (result.done) break;
+      items.push(result.value);
+    }
+    return items;
+  }
+
+  nextIf<S extends T>(
+    predicate: (value: T) => value is S,
+  ): Promise<IteratorResult<S, undefined>>;
+  nextIf(
+    predicate: (value: T) => boolean | Promise<boolean>,
+  ): Promise<IteratorResult<T, undefined>>;
+  async nextIf(
+    predicate: (value: T) => boolean | Promise<boolean>,
+  ): Promise<IteratorResult<T, undefined>> {
+    const result = await this.peek();
+    if (result.done || !(await predicate(result.value))) {
+      return { done: true, value: undefined };
+    }
+    return this.next();
+  }
+
+  nextIfEq(value: T): Promise<IteratorResult<T, undefined>> {
+    return this.nextIf((item) => sameValueZero(item, value));
+  }
+
+  unshift(...items: T[]): void {
+    for (let i = items.length - 1; i >= 0; i--) {
+      this.#buffer.unshift(Promise.resolve({ done: false, value: items[i] }));
+    }
+    this.#position -= items.length;
+  }
+
+  async return(value?: unknown): Promise<IteratorResult<T>> {
+    await this.#close();
+    return { done: true, value: value as T };
+  }
+
+  async throw(error?: unknown): Promise<IteratorResult<T>> {
+    await this.#close();
+    throw error;
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  /**
+   * Gets the result `index` places ahead, pulling from the source as needed.
+   * Callers await each result and stop at the first `done` one, so none are
+   * buffered after it.
+   */
+  #lookahead(index: number): Promise<IteratorResult<T>> {
+    while (this.#buffer.length <= index) this.#buffer.push(this.#pull());
+    return this.#buffer.at(index) as Promise<IteratorResult<T>>;
+  }
+
+  #pull(): Promise<IteratorResult<T>> {
+    if (this.#done) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+    return this.#internalIterator.next().then(
+      (result) => {
+        if (result.done) this.#done = true;
+        return result;
+      },
+      (error) => {
+        // an iterator which throws is finished, so it mustn't be closed again
+        this.#done = true;
+        throw error;
+      },
+    );
+  }
+
+  async #close(): Promise<void> {
+    this.#buffer.clear();
+    if (this.#done) return;
+    this.#done = true;
+    await this.#internalIterator.return?.();
+  }
+}
+
+function assertPeekCount(n: number): void {
+  if (!(Number.isInteger(n) && n >= 0)) {
+    throw new RangeError(
+      `Expected \`n\` to be an integer from 0 and up, got \`${n}\``,
+    );
+  }
+}
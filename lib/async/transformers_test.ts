@@ -0,0 +1,421 @@
+import { assert, assertEquals, assertThrows } from "../../test_deps.ts";
+import * as transformers from "./transformers.ts";
+import { toArray } from "./reducers.ts";
+import * as create from "../generators.ts";
+
+async function* asyncRange(n: number) {
+  for (let i = 0; i < n; i++) yield i;
+}
+
+Deno.test("async take", async () => {
+  assertEquals(await toArray(transformers.take(create.increments(), 5)), [
+    0,
+    1,
+    2,
+    3,
+    4,
+  ]);
+  assertEquals(await toArray(transformers.take(asyncRange(10), 3)), [0, 1, 2]);
+  assertEquals(await toArray(transformers.take(asyncRange(2), 3)), [0, 1]);
+});
+
+Deno.test("async drop", async () => {
+  assertEquals(await toArray(transformers.drop(asyncRange(5), 3)), [3, 4]);
+});
+
+Deno.test("async map", async () => {
+  const mapped = transformers.map(
+    asyncRange(4),
+    (x, i) => Promise.resolve(x + i),
+  );
+  assertEquals(await toArray(mapped), [0, 2, 4, 6]);
+});
+
+Deno.test("async map is re-iterable", async () => {
+  const mapped = transformers.map([1, 2, 3], (x) => x * 2);
+  assertEquals(await toArray(mapped), [2, 4, 6]);
+  assertEquals(await toArray(mapped), [2, 4, 6]);
+});
+
+Deno.test("async flatMap", async () => {
+  const mapped = transformers.flatMap(
+    [1, 2, 3],
+    (x) => Promise.resolve(x === 2 ? asyncRange(x) : [x, x]),
+  );
+  assertEquals(await toArray(mapped), [1, 1, 0, 1, 3, 3]);
+});
+
+Deno.test("async filter", async () => {
+  const evens = transformers.filter(
+    asyncRange(10),
+    (x) => Promise.resolve(x % 2 === 0),
+  );
+  assertEquals(await toArray(evens), [0, 2, 4, 6, 8]);
+});
+
+Deno.test("async until, takeWhile, dropUntil and dropWhile", async () => {
+  const numbers = create.range(1, 10);
+  assertEquals(
+    await toArray(transformers.until(numbers, (n) => n === 3)),
+    [1, 2, 3],
+  );
+  assertEquals(
+    await toArray(transformers.until(numbers, (n) => n === 3, false)),
+    [1, 2],
+  );
+  assertEquals(
+    await toArray(
+      transformers.takeWhile(numbers, (n) => Promise.resolve(n < 4)),
+    ),
+    [1, 2, 3],
+  );
+  assertEquals(
+    await toArray(transformers.dropUntil(numbers, (n) => n >= 8)),
+    [8, 9, 10],
+  );
+  assertEquals(
+    await toArray(
+      transformers.dropWhile(numbers, (n) => Promise.resolve(n < 8)),
+    ),
+    [8, 9, 10],
+  );
+});
+
+Deno.test("async indexedPairs", async () => {
+  assertEquals(await toArray(transformers.indexedPairs(["a", "b"])), [
+    [0, "a"],
+    [1, "b"],
+  ]);
+});
+
+Deno.test("async chunkify", async () => {
+  assertThrows(() => transformers.chunkify(asyncRange(5), 0));
+  assertEquals(await toArray(transformers.chunkify(asyncRange(5), 2)), [
+    [0, 1],
+    [2, 3],
+    [4],
+  ]);
+});
+
+Deno.test("async remember", async () => {
+  let pulls = 0;
+  const source = transformers.map(create.randomNumbers(), (x) => {
+    pulls++;
+    return x;
+  });
+  const remembered = transformers.remember(source);
+
+  const [a, b] = await Promise.all([
+    toArray(transformers.take(remembered, 5)),
+    toArray(transformers.take(remembered, 5)),
+  ]);
+  assertEquals(a, b);
+  assertEquals(await toArray(transformers.take(remembered, 3)), a.slice(0, 3));
+  assertEquals(pulls, 5);
+});
+
+Deno.test("async remember with maxItems and reset", async () => {
+  const recent = transformers.remember(asyncRange(10), { maxItems: 2 });
+
+  assertEquals(await toArray(transformers.take(recent, 4)), [0, 1, 2, 3]);
+  assertEquals(recent.size, 2);
+  assertEquals(await toArray(transformers.take(recent, 3)), [2, 3, 4]);
+
+  const none = transformers.remember(asyncRange(3), { maxItems: 0 });
+  assertEquals(await toArray(none), [0, 1, 2]);
+
+  let opened = 0;
+  const remembered = transformers.remember({
+    async *[Symbol.asyncIterator]() {
+      opened++;
+      yield* asyncRange(3);
+    },
+  });
+  assertEquals(await toArray(transformers.take(remembered, 2)), [0, 1]);
+  await remembered.reset();
+  assertEquals(remembered.size, 0);
+  assertEquals(await toArray(remembered), [0, 1, 2]);
+  assertEquals(opened, 2);
+});
+
+Deno.test("async remember recovers from a failed read", async () => {
+  let failures = 1;
+  let value = 0;
+  const flaky: AsyncIterable<number> = {
+    [Symbol.asyncIterator]: () => ({
+      next: () =>
+        failures-- > 0
+          ? Promise.reject(new Error("flaky"))
+          : Promise.resolve({ done: value >= 3, value: value++ }),
+    }),
+  };
+  const remembered = transformers.remember(flaky);
+
+  // concurrent readers share the failed pull
+  const results = await Promise.allSettled([
+    toArray(remembered),
+    toArray(remembered),
+  ]);
+  assertEquals(results.map((result) => result.status), [
+    "rejected",
+    "rejected",
+  ]);
+  // the rejection isn't cached, so the next read pulls again
+  assertEquals(await toArray(remembered), [0, 1, 2]);
+
+  // nor does it survive a reset
+  failures = 1;
+  value = 0;
+  await remembered.reset();
+  try {
+    await toArray(remembered);
+    assert(false);
+  } catch (error) {
+    assertEquals((error as Error).message, "flaky");
+  }
+  assertEquals(await toArray(remembered), [0, 1, 2]);
+});
+
+Deno.test("async tee", async () => {
+  let pulls = 0;
+  const source = transformers.map(asyncRange(5), (x) => {
+    pulls++;
+    return x;
+  });
+  const [a, b] = transformers.tee(source);
+
+  assertEquals(await Promise.all([toArray(a), toArray(b)]), [
+    [0, 1, 2, 3, 4],
+    [0, 1, 2, 3, 4],
+  ]);
+  assertEquals(pulls, 5);
+  assertThrows(() => transformers.tee([], 1.5), RangeError);
+});
+
+Deno.test("async tee rejects every reader on source errors", async () => {
+  async function* source() {
+    yield await Promise.resolve(1);
+    throw new Error("broken");
+  }
+  const [a, b, c] = transformers.tee(source(), 3);
+
+  assertEquals((await a.next()).value, 1);
+  const results = await Promise.allSettled([a.next(), toArray(b)]);
+  assertEquals(results.map((result) => result.status), [
+    "rejected",
+    "rejected",
+  ]);
+  assertEquals((await a.next()).done, true);
+  assertEquals((await c.next()).value, 1);
+  try {
+    await c.next();
+    assert(false);
+  } catch (error) {
+    assertEquals((error as Error).message, "broken");
+  }
+  assertEquals((await c.next()).done, true);
+});
+
+Deno.test("async tee maxBuffer", async () => {
+  const [a, b] = transformers.tee(asyncRange(10), 2, { maxBuffer: 2 });
+  await a.next();
+  await a.next();
+
+  let error: unknown;
+  try {
+    await a.next();
+  } catch (e) {
+    error = e;
+  }
+  assert(error instanceof RangeError);
+
+  assertEquals((await b.next()).value, 0);
+  assertEquals((await a.next()).value, 2);
+});
+
+Deno.test("async tee waits on overflow", async () => {
+  const [a, b] = transformers.tee(asyncRange(10), 2, {
+    maxBuffer: 1,
+    onOverflow: "wait",
+  });
+  const order = new Array<string>();
+  const consume = async (
+    reader: AsyncIterableIterator<number>,
+    name: string,
+  ) => {
+    for await (const n of reader) order.push(`${name}${n}`);
+  };
+
+  await Promise.all([consume(a, "a"), consume(b, "b")]);
+  assertEquals(order.length, 20);
+  // `a` is never more than one item ahead of `b`
+  for (let i = 0; i < 10; i++) {
+    assert(order.indexOf(`a${i + 1}`) > order.indexOf(`b${i}`) || i === 9);
+  }
+});
+
+Deno.test("async flat and completeFlat", async () => {
+  const nested = [[1, 2], transformers.fuse([0, 1]), [[3, [4]]]];
+  assertEquals(
+    await toArray(transformers.flat(nested)),
+    [1, 2, 0, 1, [3, [4]]],
+  );
+  assertEquals(
+    await toArray(transformers.completeFlat(nested)),
+    [1, 2, 0, 1, 3, 4],
+  );
+});
+
+Deno.test("async fuse", async () => {
+  const fused = transformers.fuse([1, 2]);
+  assertEquals(await toArray(fused), [1, 2]);
+  assertEquals(await toArray(fused), [1, 2]);
+});
+
+Deno.test("async peekable", async () => {
+  const peekable = transformers.peekable(asyncRange(4));
+  assertEquals((await peekable.next()).value, 0);
+  assertEquals((await peekable.peek()).value, 1);
+  assertEquals((await peekable.peek()).value, 1);
+  assertEquals((await peekable.next()).value, 1);
+  assertEquals((await peekable.next()).value, 2);
+  assertEquals((await peekable.next()).value, 3);
+  assert((await peekable.peek()).done);
+  assert((await peekable.next()).done);
+});
+
+Deno.test("async peekable lookahead and push-back", async () => {
+  const peekable = transformers.peekable(asyncRange(4));
+  assertEquals(await peekable.peekN(2), [0, 1]);
+  assertEquals((await peekable.peek()).value, 0);
+
+  assertEquals((await peekable.nextIf((n) => n > 0)).done, true);
+  assertEquals(
+    await peekable.nextIf((n) => Promise.resolve(n === 0)),
+    { done: false, value: 0 },
+  );
+  assertEquals((await peekable.nextIfEq(2)).done, true);
+  assertEquals((await peekable.nextIfEq(1)).value, 1);
+  assertEquals(peekable.position, 2);
+
+  peekable.unshift(-2, -1);
+  assertEquals(peekable.position, 0);
+  assertEquals(await peekable.peekN(10), [-2, -1, 2, 3]);
+  assertEquals(await toArray(peekable), [-2, -1, 2, 3]);
+  assertEquals(peekable.position, 4);
+  assertEquals(await peekable.peekN(2), []);
+
+  // compared by SameValueZero, and pushing back more than was read is allowed
+  const nans = transformers.peekable([NaN, 0]);
+  assertEquals((await nans.nextIfEq(NaN)).done, false);
+  assertEquals((await nans.nextIfEq(-0)).value, 0);
+  nans.unshift(1, 2, 3);
+  assertEquals(nans.position, -1);
+
+  try {
+    await peekable.peekN(-1);
+    assert(false);
+  } catch (error) {
+    assert(error instanceof RangeError);
+  }
+});
+
+async function* asyncChunks(chunks: string[]) {
+  for (const chunk of chunks) yield chunk;
+}
+
+Deno.test("async splitOn", async () => {
+  assertEquals(
+    await toArray(transformers.splitOn(asyncChunks(["a:", ":b:", ":"]), "::")),
+    ["a", "b", ""],
+  );
+  assertThrows(() => transformers.splitOn([], ""), RangeError);
+});
+
+Deno.test("async lines", async () => {
+  const chunks = ["first\r", "\nsec", "ond\nthird"];
+
+  assertEquals(await toArray(transformers.lines(asyncChunks(chunks))), [
+    "first",
+    "second",
+    "third",
+  ]);
+  assertEquals(
+    await toArray(transformers.lines(chunks, { keepEnds: true })),
+    ["first\r\n", "second\n", "third"],
+  );
+});
+
+async function* failing<T>(items: T[], error: unknown) {
+  yield* items;
+  throw error;
+}
+
+Deno.test("async catchError", async () => {
+  const error = new Error("Upstream");
+  const errors = new Array<unknown>();
+  const caught = transformers.catchError(failing([1, 2], error), (e) => {
+    errors.push(e);
+    return Promise.resolve(asyncRange(2));
+  });
+  assertEquals(await toArray(caught), [1, 2, 0, 1]);
+  assertEquals(errors, [error]);
+
+  const rejected = transformers.map([1, 2], (n) => {
+    if (n > 1) return Promise.reject(error);
+    return n;
+  });
+  assertEquals(await toArray(transformers.catchError(rejected, () => [3])), [
+    1,
+    3,
+  ]);
+});
+
+Deno.test("async onError", async () => {
+  const error = new Error("Upstream");
+  const errors = new Array<unknown>();
+  const logged = transformers.onError(failing([1], error), async (e) => {
+    await Promise.resolve();
+    errors.push(e);
+  });
+  try {
+    await toArray(logged);
+    assert(false);
+  } catch (thrown) {
+    assertEquals(thrown, error);
+  }
+  assertEquals(errors, [error]);
+});
+
+Deno.test("async retry", async () => {
+  let calls = 0;
+  const flaky = () => {
+    calls++;
+    return Promise.resolve(
+      calls < 3 ? failing([calls], new Error(`${calls}`)) : [0, 1],
+    );
+  };
+  assertEquals(await toArray(transformers.retry(flaky)), [1, 2, 0, 1]);
+
+  calls = 0;
+  try {
+    await toArray(transformers.retry(flaky, { attempts: 2 }));
+    assert(false);
+  } catch (error) {
+    assertEquals((error as Error).message, "2");
+  }
+
+  assertThrows(() => transformers.retry(flaky, { attempts: 0 }), RangeError);
+});
+
+Deno.test("async mapSafe", async () => {
+  const error = new Error("Not found");
+  const results = transformers.mapSafe([1, 2], (id) => {
+    if (id === 2) return Promise.reject(error);
+    return id * 10;
+  });
+  assertEquals(await toArray(results), [
+    { ok: true, value: 10 },
+    { ok: false, error, item: 2 },
+  ]);
+});
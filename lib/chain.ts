@@ -0,0 +1,613 @@
+import * as combiners from "./combiners.ts";
+import * as effectors from "./effectors.ts";
+import * as reducers from "./reducers.ts";
+import * as transducers from "./transducers.ts";
+import * as transformers from "./transformers.ts";
+import {
+  MergeSortedByCallback,
+  ZipLongestOptions,
+  ZipWithCallback,
+} from "./combiners.ts";
+import { ForEachCallback } from "./effectors.ts";
+import { isIterable } from "./internal/util.ts";
+import {
+  BigIntOptions,
+  Description,
+  KeySelectorCallback,
+  PrecisionOptions,
+  QuantileSketch,
+  QuantileSketchOptions,
+  ReduceAccumulatorCallback,
+  ReduceStopCallback,
+  VarianceOptions,
+} from "./reducers.ts";
+import {
+  CatchErrorCallback,
+  ChunkByCallback,
+  FlatMapCallback,
+  MapCallback,
+  OnErrorCallback,
+  RememberOptions,
+  RetryOptions,
+  SplitWhenCallback,
+  TeeOptions,
+  WindowsOptions,
+} from "./transformers.ts";
+import { TransduceCallback, Transducer } from "./transducers.ts";
+import {
+  CompareCallback,
+  CompleteFlatItem,
+  FlatItem,
+  IterableCircular,
+  IterablePredicateCallback,
+  IterablesOf,
+  IterableTypeGuardCallback,
+  LinesOptions,
+  Peekable,
+  RandomSource,
+  Remembered,
+  SafeResult,
+} from "./types.ts";
+
+/**
+ * A chainable wrapper around an iterable, exposing the transformers, reducers,
+ * combiners and effectors of the library as methods. Transformers and
+ * combiners return a new `Iter`, whereas reducers and effectors return their
+ * usual result, ending the chain. Like the results of the standalone functions,
+ * an `Iter` can be iterated over more than once (provided the iterable it wraps
+ * can be).
+ *
+ * Instances are usually created with {@link chain | `chain`}.
+ * @typeParam T - The type of items in the iterable.
+ */
+export class Iter<T> implements IterableCircular<T> {
+  #it: Iterable<T>;
+
+  constructor(it: Iterable<T>) {
+    this.#it = it;
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const item of this.#it) yield item;
+  }
+
+  // Transformers
+
+  /** See the standalone {@link transformers.map | `map`}. */
+  map<U = T>(f: MapCallback<T, U>): Iter<U> {
+    return new Iter(transformers.map(this, f));
+  }
+
+  /** See the standalone {@link transformers.flatMap | `flatMap`}. */
+  flatMap<U = T>(f: FlatMapCallback<T, U>): Iter<U> {
+    return new Iter(transformers.flatMap(this, f));
+  }
+
+  /** See the standalone {@link transformers.take | `take`}. */
+  take(n: number): Iter<T> {
+    return new Iter(transformers.take(this, n));
+  }
+
+  /** See the standalone {@link transformers.drop | `drop`}. */
+  drop(n: number): Iter<T> {
+    return new Iter(transformers.drop(this, n));
+  }
+
+  /** See the standalone {@link transformers.until | `until`}. */
+  until(f: IterablePredicateCallback<T>, includeLast = true): Iter<T> {
+    return new Iter(transformers.until(this, f, includeLast));
+  }
+
+  /** See the standalone {@link transformers.dropUntil | `dropUntil`}. */
+  dropUntil(f: IterablePredicateCallback<T>, includeFirst = true): Iter<T> {
+    return new Iter(transformers.dropUntil(this, f, includeFirst));
+  }
+
+  /** See the standalone {@link transformers.takeWhile | `takeWhile`}. */
+  takeWhile(f: IterablePredicateCallback<T>): Iter<T> {
+    return new Iter(transformers.takeWhile(this, f));
+  }
+
+  /** See the standalone {@link transformers.dropWhile | `dropWhile`}. */
+  dropWhile(f: IterablePredicateCallback<T>): Iter<T> {
+    return new Iter(transformers.dropWhile(this, f));
+  }
+
+  /** See the standalone {@link transformers.filter | `filter`}. */
+  filter<S extends T>(predicate: IterableTypeGuardCallback<T, S>): Iter<S>;
+  filter(predicate: IterablePredicateCallback<T>): Iter<T>;
+  filter(predicate: IterablePredicateCallback<T>): Iter<T> {
+    return new Iter(transformers.filter(this, predicate));
+  }
+
+  /** See the standalone {@link transformers.indexedPairs | `indexedPairs`}. */
+  indexedPairs(): Iter<[number, T]> {
+    return new Iter(transformers.indexedPairs(this));
+  }
+
+  /** See the standalone {@link transformers.chunkify | `chunkify`}. */
+  chunkify(chunkSize: number): Iter<T[]> {
+    return new Iter(transformers.chunkify(this, chunkSize));
+  }
+
+  /** See the standalone {@link transformers.windows | `windows`}. */
+  windows(size: number, options?: WindowsOptions): Iter<T[]> {
+    return new Iter(transformers.windows(this, size, options));
+  }
+
+  /** See the standalone {@link transformers.pairwise | `pairwise`}. */
+  pairwise(): Iter<[T, T]> {
+    return new Iter(transformers.pairwise(this));
+  }
+
+  /** See the standalone {@link transformers.chunkBy | `chunkBy`}. */
+  chunkBy<K>(keyFn: ChunkByCallback<T, K>): Iter<T[]> {
+    return new Iter(transformers.chunkBy(this, keyFn));
+  }
+
+  /** See the standalone {@link transformers.splitWhen | `splitWhen`}. */
+  splitWhen(predicate: SplitWhenCallback<T>): Iter<T[]> {
+    return new Iter(transformers.splitWhen(this, predicate));
+  }
+
+  /** See the standalone {@link transformers.splitOn | `splitOn`}. */
+  splitOn(this: Iter<string>, delimiter: string): Iter<string> {
+    return new Iter(transformers.splitOn(this, delimiter));
+  }
+
+  /** See the standalone {@link transformers.lines | `lines`}. */
+  lines(this: Iter<string>, options?: LinesOptions): Iter<string> {
+    return new Iter(transformers.lines(this, options));
+  }
+
+  /** See the standalone {@link transformers.catchError | `catchError`}. */
+  catchError<U = T>(handler: CatchErrorCallback<U>): Iter<T | U> {
+    return new Iter(transformers.catchError(this, handler));
+  }
+
+  /** See the standalone {@link transformers.onError | `onError`}. */
+  onError(f: OnErrorCallback): Iter<T> {
+    return new Iter(transformers.onError(this, f));
+  }
+
+  /**
+   * See the standalone {@link transformers.retry | `retry`}. Each attempt
+   * iterates over the wrapped iterable again.
+   */
+  retry(options?: RetryOptions): Iter<T> {
+    return new Iter(transformers.retry(() => this, options));
+  }
+
+  /** See the standalone {@link transformers.mapSafe | `mapSafe`}. */
+  mapSafe<U>(f: MapCallback<T, U>): Iter<SafeResult<T, U>> {
+    return new Iter(transformers.mapSafe(this, f));
+  }
+
+  /**
+   * See the standalone {@link transformers.remember | `remember`}. The handle
+   * on the cache is kept by returning a {@link RememberedIter}.
+   */
+  remember(options?: RememberOptions): RememberedIter<T> {
+    return new RememberedIter(transformers.remember(this, options));
+  }
+
+  /**
+   * See the standalone {@link transformers.tee | `tee`}. Each reader is wrapped
+   * in an `Iter`, but can still only be iterated over once.
+   */
+  tee(n?: number, options?: TeeOptions): Iter<T>[] {
+    return transformers.tee(this, n, options).map((reader) => new Iter(reader));
+  }
+
+  /** See the standalone {@link transformers.shuffle | `shuffle`}. */
+  shuffle(random?: RandomSource): Iter<T> {
+    return new Iter(transformers.shuffle(this, random));
+  }
+
+  /** See the standalone {@link transformers.flat | `flat`}. */
+  flat<Depth extends number = 1>(depth?: Depth): Iter<FlatItem<T, Depth>> {
+    return new Iter(
+      transformers.flat<unknown, Iterable<unknown>>(this, depth) as Iterable<
+        FlatItem<T, Depth>
+      >,
+    );
+  }
+
+  /** See the standalone {@link transformers.completeFlat | `completeFlat`}. */
+  completeFlat(): Iter<CompleteFlatItem<T>> {
+    return new Iter(
+      transformers.completeFlat<unknown, Iterable<unknown>>(this) as Iterable<
+        CompleteFlatItem<T>
+      >,
+    );
+  }
+
+  /** See the standalone {@link transformers.fuse | `fuse`}. */
+  fuse(): Iter<T> {
+    return new Iter(transformers.fuse(this));
+  }
+
+  /**
+   * See the standalone {@link transformers.peekable | `peekable`}. Ends the
+   * chain.
+   */
+  peekable(): Peekable<T> {
+    return transformers.peekable(this);
+  }
+
+  // Combiners
+
+  /** See the standalone {@link combiners.pair | `pair`}. */
+  pair<U>(other: Iterable<U>): Iter<[T | undefined, U | undefined]> {
+    return new Iter(combiners.pair(this, other));
+  }
+
+  /** See the standalone {@link combiners.zip | `zip`}. */
+  zip<Items extends unknown[]>(
+    ...others: IterablesOf<Items>
+  ): Iter<[T, ...Items]> {
+    return new Iter(combiners.zip<[T, ...Items]>(this, ...others));
+  }
+
+  /** See the standalone {@link combiners.zipLongest | `zipLongest`}. */
+  zipLongest<Items extends unknown[]>(
+    ...others: IterablesOf<Items>
+  ): Iter<[T | undefined, ...{ [K in keyof Items]: Items[K] | undefined }]>;
+  zipLongest<Items extends unknown[], F>(
+    options: ZipLongestOptions<F>,
+    ...others: IterablesOf<Items>
+  ): Iter<[T | F, ...{ [K in keyof Items]: Items[K] | F }]>;
+  zipLongest(
+    ...args: unknown[]
+  ): Iter<unknown[]> {
+    const options = args.length > 0 && !isIterable(args[0])
+      ? [args.shift() as ZipLongestOptions<unknown>]
+      : [];
+    const others = args as Array<Iterable<unknown>>;
+    return new Iter(
+      combiners.zipLongest<unknown[], unknown>(
+        ...options as [ZipLongestOptions<unknown>],
+        this,
+        ...others,
+      ),
+    );
+  }
+
+  /** See the standalone {@link combiners.zipWith | `zipWith`}. */
+  zipWith<Items extends unknown[], R>(
+    f: ZipWithCallback<[T, ...Items], R>,
+    ...others: IterablesOf<Items>
+  ): Iter<R> {
+    return new Iter(combiners.zipWith<[T, ...Items], R>(f, this, ...others));
+  }
+
+  /** See the standalone {@link combiners.mergeSorted | `mergeSorted`}. */
+  mergeSorted(
+    compare: CompareCallback<T>,
+    ...others: Array<Iterable<T>>
+  ): Iter<T> {
+    return new Iter(combiners.mergeSorted(compare, this, ...others));
+  }
+
+  /** See the standalone {@link combiners.mergeSortedBy | `mergeSortedBy`}. */
+  mergeSortedBy<K extends number | string | bigint>(
+    keyFn: MergeSortedByCallback<T, K>,
+    ...others: Array<Iterable<T>>
+  ): Iter<T> {
+    return new Iter(combiners.mergeSortedBy(keyFn, this, ...others));
+  }
+
+  /** See the standalone {@link combiners.union | `union`}. */
+  union(...others: Array<Iterable<T>>): Iter<T>;
+  union(compare: CompareCallback<T>, ...others: Array<Iterable<T>>): Iter<T>;
+  union(...args: Array<CompareCallback<T> | Iterable<T>>): Iter<T> {
+    return setOperation(combiners.union, this, args);
+  }
+
+  /** See the standalone {@link combiners.intersection | `intersection`}. */
+  intersection(...others: Array<Iterable<T>>): Iter<T>;
+  intersection(
+    compare: CompareCallback<T>,
+    ...others: Array<Iterable<T>>
+  ): Iter<T>;
+  intersection(...args: Array<CompareCallback<T> | Iterable<T>>): Iter<T> {
+    return setOperation(combiners.intersection, this, args);
+  }
+
+  /** See the standalone {@link combiners.difference | `difference`}. */
+  difference(...others: Array<Iterable<T>>): Iter<T>;
+  difference(
+    compare: CompareCallback<T>,
+    ...others: Array<Iterable<T>>
+  ): Iter<T>;
+  difference(...args: Array<CompareCallback<T> | Iterable<T>>): Iter<T> {
+    return setOperation(combiners.difference, this, args);
+  }
+
+  /** See the standalone {@link combiners.symmetricDifference | `symmetricDifference`}. */
+  symmetricDifference(...others: Array<Iterable<T>>): Iter<T>;
+  symmetricDifference(
+    compare: CompareCallback<T>,
+    ...others: Array<Iterable<T>>
+  ): Iter<T>;
+  symmetricDifference(
+    ...args: Array<CompareCallback<T> | Iterable<T>>
+  ): Iter<T> {
+    return setOperation(combiners.symmetricDifference, this, args);
+  }
+
+  /** See the standalone {@link combiners.concat | `concat`}. */
+  concat<U = T>(...tails: Array<Iterable<U>>): Iter<T | U> {
+    return new Iter(combiners.concat(this, ...tails));
+  }
+
+  // Reducers
+
+  /** See the standalone {@link reducers.reduce | `reduce`}. */
+  reduce<U>(
+    reducer: ReduceAccumulatorCallback<T, U>,
+    initialValue: U,
+    stop?: ReduceStopCallback<T, U>,
+  ): U {
+    return reducers.reduce(this, reducer, initialValue, stop);
+  }
+
+  /** See the standalone {@link reducers.some | `some`}. */
+  some(predicate: IterablePredicateCallback<T>): boolean {
+    return reducers.some(this, predicate);
+  }
+
+  /** See the standalone {@link reducers.every | `every`}. */
+  every(predicate: IterablePredicateCallback<T>): boolean {
+    return reducers.every(this, predicate);
+  }
+
+  /** See the standalone {@link reducers.includes | `includes`}. */
+  includes(value: T): boolean {
+    return reducers.includes(this, value);
+  }
+
+  /** See the standalone {@link reducers.find | `find`}. */
+  find<S extends T>(predicate: IterableTypeGuardCallback<T, S>): S | undefined;
+  find(predicate: IterablePredicateCallback<T>): T | undefined;
+  find(predicate: IterablePredicateCallback<T>): T | undefined {
+    return reducers.find(this, predicate);
+  }
+
+  /** See the standalone {@link reducers.findIndex | `findIndex`}. */
+  findIndex(predicate: IterablePredicateCallback<T>): number {
+    return reducers.findIndex(this, predicate);
+  }
+
+  /** See the standalone {@link reducers.groupBy | `groupBy`}. */
+  groupBy<K>(keyFn: KeySelectorCallback<T, K>): Map<K, T[]> {
+    return reducers.groupBy(this, keyFn);
+  }
+
+  /** See the standalone {@link reducers.partition | `partition`}. */
+  partition<S extends T>(
+    predicate: IterableTypeGuardCallback<T, S>,
+  ): [S[], Exclude<T, S>[]];
+  partition(predicate: IterablePredicateCallback<T>): [T[], T[]];
+  partition(predicate: IterablePredicateCallback<T>): [T[], T[]] {
+    return reducers.partition(this, predicate);
+  }
+
+  /** See the standalone {@link reducers.countBy | `countBy`}. */
+  countBy<K>(keyFn: KeySelectorCallback<T, K>): Map<K, number> {
+    return reducers.countBy(this, keyFn);
+  }
+
+  /** See the standalone {@link reducers.indexBy | `indexBy`}. */
+  indexBy<K>(keyFn: KeySelectorCallback<T, K>): Map<K, T> {
+    return reducers.indexBy(this, keyFn);
+  }
+
+  /** See the standalone {@link reducers.sum | `sum`}. */
+  sum(this: Iter<number>, options?: PrecisionOptions): number;
+  sum(this: Iter<bigint>, options?: BigIntOptions): bigint;
+  sum(
+    this: Iter<number | bigint>,
+    options?: PrecisionOptions | BigIntOptions,
+  ): number | bigint {
+    return reducers.sum(this as Iter<number>, options as PrecisionOptions);
+  }
+
+  /** See the standalone {@link reducers.average | `average`}. */
+  average(this: Iter<number>, options?: PrecisionOptions): number {
+    return reducers.average(this, options);
+  }
+
+  /** See the standalone {@link reducers.product | `product`}. */
+  product(this: Iter<number>): number;
+  product(this: Iter<bigint>, options?: BigIntOptions): bigint;
+  product(
+    this: Iter<number | bigint>,
+    options?: BigIntOptions,
+  ): number | bigint {
+    return reducers.product(this as Iter<bigint>, options as BigIntOptions);
+  }
+
+  /** See the standalone {@link reducers.norm | `norm`}. */
+  norm(this: Iter<number>, options?: PrecisionOptions): number {
+    return reducers.norm(this, options);
+  }
+
+  /** See the standalone {@link reducers.min | `min`}. */
+  min(this: Iter<number>): number {
+    return reducers.min(this);
+  }
+
+  /** See the standalone {@link reducers.max | `max`}. */
+  max(this: Iter<number>): number {
+    return reducers.max(this);
+  }
+
+  /** See the standalone {@link reducers.minMax | `minMax`}. */
+  minMax(this: Iter<number>): [number, number] {
+    return reducers.minMax(this);
+  }
+
+  /** See the standalone {@link reducers.minBy | `minBy`}. */
+  minBy<K extends number | string | bigint>(
+    keyFn: KeySelectorCallback<T, K>,
+  ): T | undefined {
+    return reducers.minBy(this, keyFn);
+  }
+
+  /** See the standalone {@link reducers.maxBy | `maxBy`}. */
+  maxBy<K extends number | string | bigint>(
+    keyFn: KeySelectorCallback<T, K>,
+  ): T | undefined {
+    return reducers.maxBy(this, keyFn);
+  }
+
+  /** See the standalone {@link reducers.variance | `variance`}. */
+  variance(this: Iter<number>, options?: VarianceOptions): number {
+    return reducers.variance(this, options);
+  }
+
+  /** See the standalone {@link reducers.stddev | `stddev`}. */
+  stddev(this: Iter<number>, options?: VarianceOptions): number {
+    return reducers.stddev(this, options);
+  }
+
+  /** See the standalone {@link reducers.describe | `describe`}. */
+  describe(this: Iter<number>, options?: VarianceOptions): Description {
+    return reducers.describe(this, options);
+  }
+
+  /** See the standalone {@link reducers.quantile | `quantile`}. */
+  quantile(this: Iter<number>, q: number): number;
+  quantile(this: Iter<number>, q: number[]): number[];
+  quantile(this: Iter<number>, q: number | number[]): number | number[] {
+    return reducers.quantile(this, q as number);
+  }
+
+  /** See the standalone {@link reducers.median | `median`}. */
+  median(this: Iter<number>): number {
+    return reducers.median(this);
+  }
+
+  /** See the standalone {@link reducers.quantileSketch | `quantileSketch`}. */
+  quantileSketch(
+    this: Iter<number>,
+    options?: QuantileSketchOptions,
+  ): QuantileSketch {
+    return reducers.quantileSketch(this, options);
+  }
+
+  /** See the standalone {@link reducers.sample | `sample`}. */
+  sample(k: number, random?: RandomSource): T[] {
+    return reducers.sample(this, k, random);
+  }
+
+  /** See the standalone {@link reducers.sampleWeighted | `sampleWeighted`}. */
+  sampleWeighted(
+    k: number,
+    weightFn: KeySelectorCallback<T, number>,
+    random?: RandomSource,
+  ): T[] {
+    return reducers.sampleWeighted(this, k, weightFn, random);
+  }
+
+  // Transducers
+
+  /** See the standalone {@link transducers.sequence | `sequence`}. */
+  sequence<U>(xf: Transducer<T, U>): Iter<U> {
+    return new Iter(transducers.sequence(this, xf));
+  }
+
+  /** See the standalone {@link transducers.transduce | `transduce`}. */
+  transduce<U, A>(
+    xf: Transducer<T, U>,
+    reducer: TransduceCallback<T, U, A>,
+    initialValue: A,
+  ): A {
+    return transducers.transduce(this, xf, reducer, initialValue);
+  }
+
+  // Effectors
+
+  /** See the standalone {@link effectors.forEach | `forEach`}. */
+  forEach(f: ForEachCallback<T>): void {
+    effectors.forEach(this, f);
+  }
+
+  /** See the standalone {@link effectors.lazyObserver | `lazyObserver`}. */
+  lazyObserver(f: ForEachCallback<T>): Iter<T> {
+    return new Iter(effectors.lazyObserver(this, f));
+  }
+}
+
+/**
+ * An {@link Iter} over the result of
+ * {@link transformers.remember | `remember`}, which keeps its handle on the
+ * cache. Returned by {@link Iter.remember}.
+ * @typeParam T - The type of items in the iterable.
+ */
+export class RememberedIter<T> extends Iter<T> implements Remembered<T> {
+  #remembered: Remembered<T>;
+
+  constructor(remembered: Remembered<T>) {
+    super(remembered);
+    this.#remembered = remembered;
+  }
+
+  /** See {@link Remembered.size}. */
+  get size(): number {
+    return this.#remembered.size;
+  }
+
+  /** See {@link Remembered.reset}. */
+  reset(): void {
+    this.#remembered.reset();
+  }
+
+  /** See {@link Remembered.close}. */
+  close(): void {
+    this.#remembered.close();
+  }
+}
+
+/**
+ * Applies a set operation with `it` as the first iterable, after the
+ * comparator if `args` start with one.
+ * @private
+ */
+function setOperation<T>(
+  operation: typeof combiners.union,
+  it: Iterable<T>,
+  args: Array<CompareCallback<T> | Iterable<T>>,
+): Iter<T> {
+  const [first, ...rest] = args;
+  const others = rest as Array<Iterable<T>>;
+  return new Iter(
+    typeof first === "function"
+      ? operation(first, it, ...others)
+      : operation(it, ...args as Array<Iterable<T>>),
+  );
+}
+
+/**
+ * Wraps an iterable in a chainable {@link Iter}, so that operations can be
+ * written left to right rather than nested.
+ * @param it - The iterable to wrap.
+ * @typeParam T - The type of items in `it`.
+ * @returns A chainable wrapper around `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const total = iter.chain(iter.create.increments(1))
+ *   .map((n) => n ** 2)
+ *   .filter((n) => n % 2 === 1)
+ *   .take(3)
+ *   .sum();
+ *
+ * console.log(total); // -> 35
+ * ```
+ */
+export function chain<T>(it: Iterable<T>): Iter<T> {
+  return it instanceof Iter ? it : new Iter(it);
+}
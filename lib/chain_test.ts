@@ -0,0 +1,134 @@
+import { assert, assertEquals } from "../test_deps.ts";
+import { chain, Iter } from "./chain.ts";
+import * as combiners from "./combiners.ts";
+import * as effectors from "./effectors.ts";
+import * as reducers from "./reducers.ts";
+import * as transformers from "./transformers.ts";
+import { compose, tmap, ttake } from "./transducers.ts";
+import * as create from "./generators.ts";
+
+Deno.test("All functions are available as Iter methods", () => {
+  const names = [
+    ...Object.keys(transformers),
+    ...Object.keys(reducers),
+    ...Object.keys(combiners),
+    ...Object.keys(effectors),
+  ];
+  for (const name of names) {
+    assertEquals(
+      typeof Iter.prototype[name as keyof Iter<unknown>],
+      "function",
+      `Iter is missing \`${name}\``,
+    );
+  }
+});
+
+Deno.test("chain", () => {
+  const total = chain(create.increments(1))
+    .map((n) => n ** 2)
+    .filter((n) => n % 2 === 1)
+    .take(3)
+    .sum();
+
+  assertEquals(total, 35);
+});
+
+Deno.test("chain is re-iterable", () => {
+  const chained = chain([1, 2, 3]).map((n) => n * 2);
+
+  assertEquals([...chained], [2, 4, 6]);
+  assertEquals([...chained], [2, 4, 6]);
+  assertEquals(chain(chained), chained);
+});
+
+Deno.test("chain flat inference", () => {
+  const nested = chain([[1, [2]], [[3, [4]]]]);
+  const once: Iter<number | number[] | (number | number[])[]> = nested.flat();
+  const twice: Iter<number | number[]> = nested.flat(2);
+  const complete: Iter<number> = nested.completeFlat();
+
+  assertEquals([...once], [1, [2], [3, [4]]]);
+  assertEquals([...twice], [1, 2, 3, [4]]);
+  assertEquals([...complete], [1, 2, 3, 4]);
+});
+
+Deno.test("chain combiners, reducers and effectors", () => {
+  const letters = chain(["a", "b"]).concat(["c"]);
+  assertEquals([...letters.pair([1, 2, 3])], [["a", 1], ["b", 2], ["c", 3]]);
+  assertEquals(letters.reduce((acc, x) => acc + x, ""), "abc");
+  assert(letters.includes("b"));
+  assertEquals(letters.findIndex((x) => x === "c"), 2);
+
+  const seen: string[] = [];
+  letters.lazyObserver((x) => seen.push(x)).forEach(() => {});
+  assertEquals(seen, ["a", "b", "c"]);
+});
+
+Deno.test("chain zip", () => {
+  const zipped: Iter<[number, string]> = chain([1, 2]).zip(["a", "b", "c"]);
+  assertEquals([...zipped], [[1, "a"], [2, "b"]]);
+
+  const longest: Iter<[number | null, string | null]> = chain([1])
+    .zipLongest({ fillValue: null }, ["a", "b"]);
+  assertEquals([...longest], [[1, "a"], [null, "b"]]);
+  assertEquals([...chain([1]).zipLongest([2, 3])], [[1, 2], [undefined, 3]]);
+
+  const sums = chain([1, 2]).zipWith((a, b) => a + b, [10, 20]);
+  assertEquals([...sums], [11, 22]);
+});
+
+Deno.test("chain set operations", () => {
+  const byNumber = (a: number, b: number) => a - b;
+  assertEquals([...chain([1, 3]).union(byNumber, [2, 3])], [1, 2, 3]);
+  assertEquals([...chain([3, 1]).union([2, 3])], [3, 1, 2]);
+  assertEquals([...chain([1, 2, 3]).intersection(byNumber, [2, 3])], [2, 3]);
+  assertEquals([...chain([1, 2, 3]).difference([2])], [1, 3]);
+  assertEquals([...chain([1, 2]).symmetricDifference([2, 3])], [1, 3]);
+  assertEquals([...chain([1, 4]).mergeSorted(byNumber, [2, 3])], [1, 2, 3, 4]);
+});
+
+Deno.test("chain tee", () => {
+  const [evens, odds] = chain([1, 2, 3, 4]).tee();
+  assertEquals([...evens.filter((n) => n % 2 === 0)], [2, 4]);
+  assertEquals(odds.filter((n) => n % 2 === 1).sum(), 4);
+});
+
+Deno.test("chain remember", () => {
+  let opened = 0;
+  let closed = 0;
+  const source = {
+    *[Symbol.iterator]() {
+      opened++;
+      try {
+        yield* [1, 2, 3];
+      } finally {
+        closed++;
+      }
+    },
+  };
+  const remembered = chain(source).remember();
+
+  assertEquals([...remembered.take(2)], [1, 2]);
+  assertEquals(remembered.size, 2);
+  remembered.close();
+  assertEquals(closed, 1);
+  assertEquals([...remembered], [1, 2]);
+
+  remembered.reset();
+  assertEquals(remembered.size, 0);
+  assertEquals([...remembered.map((n) => n * 2)], [2, 4, 6]);
+  assertEquals(opened, 2);
+});
+
+Deno.test("chain transducers", () => {
+  const xf = compose(tmap((n: number) => n * 2), ttake(2));
+  assertEquals([...chain([1, 2, 3]).sequence(xf)], [2, 4]);
+  assertEquals(chain([1, 2, 3]).transduce(xf, (acc, n) => acc + n, 0), 6);
+});
+
+Deno.test("chain bigint reducers", () => {
+  const total: bigint = chain([1n, 2n, 3n]).sum();
+  assertEquals(total, 6n);
+  assertEquals(chain([1n, 2n, 3n]).product(), 6n);
+  assertEquals(chain(new Array<bigint>()).product({ bigint: true }), 1n);
+});
@@ -1,4 +1,11 @@
-import { IterableCircular } from "./types.ts";
+import { BinaryHeap } from "./internal/binary_heap.ts";
+import {
+  closeIterators,
+  isIterable,
+  nextOrFinish,
+  openIterators,
+} from "./internal/util.ts";
+import { CompareCallback, IterableCircular, IterablesOf } from "./types.ts";
 
 /**
  * Creates a new iterable containing tuples of each element of `it1` and `it2`.
@@ -8,7 +15,10 @@ import { IterableCircular } from "./types.ts";
  * new iterator.
  * @typeParam T - Type of items in `it1`
  * @typeParam U - Type of items in `it2`
- * @returns An iterable containing pairs of items taken from `it1` and `it2`
+ * @returns An iterable containing pairs of items taken from `it1` and `it2`.
+ * Note that this continues until _both_ iterables are done, yielding
+ * `undefined` in place of items from whichever ended first. See
+ * {@link zip | `zip`} for a variant that stops at the shortest iterable.
  * @example
  * ```ts
  * import * as iter from "https://deno.land/x/iter/mod.ts";
@@ -27,23 +37,25 @@ import { IterableCircular } from "./types.ts";
 export function pair<T, U>(
   it1: Iterable<T>,
   it2: Iterable<U>,
-): IterableCircular<[T, U]> {
+): IterableCircular<[T | undefined, U | undefined]> {
   return {
     *[Symbol.iterator]() {
-      const iterator1 = it1[Symbol.iterator]();
-      const iterator2 = it2[Symbol.iterator]();
-      while (true) {
-        const a = iterator1.next();
-        const b = iterator2.next();
-        if (a.done && b.done) break;
-        yield [a.value, b.value];
+      const iterators = openIterators<T | U>([it1, it2]);
+      const done = [false, false];
+      try {
+        while (true) {
+          const a = nextOrFinish(iterators, done, 0);
+          const b = nextOrFinish(iterators, done, 1);
+          if (a.done && b.done) return;
+          yield [a.value, b.value] as [T | undefined, U | undefined];
+        }
+      } finally {
+        closeIterators(iterators.filter((_, i) => !done[i]));
       }
     },
   };
 }
 
-// TODO: Map function
-
 /**
  * Combines two or more iterables.
  * @param head - The first iterable.
@@ -78,9 +90,602 @@ export function concat<T, U = T>(
 ): IterableCircular<T | U> {
   return {
     *[Symbol.iterator]() {
-      yield* head;
+      for (const item of head) yield item;
       for (const it of tails) {
-        yield* it;
+        for (const item of it) yield item;
+      }
+    },
+  };
+}
+
+/**
+ * Options for {@link zipLongest | `zipLongest`}.
+ * @typeParam F - The type of the fill value.
+ */
+export interface ZipLongestOptions<F> {
+  /** The value used in place of items from iterables which have ended. */
+  fillValue: F;
+}
+
+/**
+ * Creates a new iterable containing tuples of the items of each iterable, in
+ * order. Stops as soon as the shortest iterable is done, closing the others.
+ * Similar to Python's
+ * [`zip()`](https://docs.python.org/3/library/functions.html#zip).
+ * @param iterables - (blob) The iterables to zip together.
+ * @typeParam Items - The item types of `iterables`, as a tuple.
+ * @returns An iterable of tuples with an item from each of `iterables`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const zipped = iter.zip([1, 2, 3], ["a", "b"], [true, false, true]);
+ *
+ * for (const tuple of zipped) {
+ *   console.log(tuple);
+ * }
+ *
+ * // -> [1, "a", true]
+ * // -> [2, "b", false]
+ * ```
+ */
+export function zip<Items extends unknown[]>(
+  ...iterables: IterablesOf<Items>
+): IterableCircular<Items> {
+  return {
+    *[Symbol.iterator]() {
+      if (iterables.length === 0) return;
+      const iterators = openIterators(iterables);
+      const done = iterators.map(() => false);
+      try {
+        while (true) {
+          const items = [];
+          for (let i = 0; i < iterators.length; i++) {
+            const next = nextOrFinish(iterators, done, i);
+            if (next.done) return;
+            items.push(next.value);
+          }
+          yield items as Items;
+        }
+      } finally {
+        closeIterators(iterators.filter((_, i) => !done[i]));
+      }
+    },
+  };
+}
+
+/**
+ * Creates a new iterable containing tuples of the items of each iterable, in
+ * order, until _all_ of the iterables are done. Items from iterables which have
+ * ended are replaced with `undefined`, or `options.fillValue` if given. Similar
+ * to Python's
+ * [`itertools.zip_longest()`](https://docs.python.org/3/library/itertools.html#itertools.zip_longest).
+ * @param options - An optional {@link ZipLongestOptions} object, which must
+ * come before the iterables.
+ * @param iterables - (blob) The iterables to zip together.
+ * @typeParam Items - The item types of `iterables`, as a tuple.
+ * @typeParam F - The type of the fill value.
+ * @returns An iterable of tuples with an item (or the fill value) from each of
+ * `iterables`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(...iter.zipLongest([1, 2], ["a"]));
+ * // -> [1, "a"] [2, undefined]
+ *
+ * console.log(...iter.zipLongest({ fillValue: 0 }, [1, 2], [3]));
+ * // -> [1, 3] [2, 0]
+ * ```
+ */
+export function zipLongest<Items extends unknown[]>(
+  ...iterables: IterablesOf<Items>
+): IterableCircular<{ [K in keyof Items]: Items[K] | undefined }>;
+export function zipLongest<Items extends unknown[], F>(
+  options: ZipLongestOptions<F>,
+  ...iterables: IterablesOf<Items>
+): IterableCircular<{ [K in keyof Items]: Items[K] | F }>;
+export function zipLongest(
+  ...args: unknown[]
+): IterableCircular<unknown[]> {
+  const { fillValue } = args.length > 0 && !isIterable(args[0])
+    ? args.shift() as ZipLongestOptions<unknown>
+    : { fillValue: undefined };
+  const iterables = args as Array<Iterable<unknown>>;
+
+  return {
+    *[Symbol.iterator]() {
+      const iterators = openIterators(iterables);
+      const done = iterators.map(() => false);
+      try {
+        while (true) {
+          const items = [];
+          for (let i = 0; i < iterators.length; i++) {
+            const next = done[i] ? undefined : nextOrFinish(iterators, done, i);
+            if (next === undefined || next.done) {
+              items.push(fillValue);
+            } else {
+              items.push(next.value);
+            }
+          }
+          if (done.every((d) => d)) return;
+          yield items;
+        }
+      } finally {
+        closeIterators(iterators.filter((_, i) => !done[i]));
+      }
+    },
+  };
+}
+
+/**
+ * {@link zipWith | `zipWith`} callback.
+ * @typeParam Items - See {@link zipWith}
+ * @typeParam R - See {@link zipWith}
+ */
+export interface ZipWithCallback<Items extends unknown[], R> {
+  /**
+   * {@link zipWith | `zipWith`} callback.
+   * @callback ZipWithCallback
+   * @param items - (blob) An item from each iterable.
+   * @returns The combined value.
+   */
+  (...items: Items): R;
+}
+
+/**
+ * Combines the items of each iterable with a function, in order. Like
+ * {@link zip | `zip`}, this stops as soon as the shortest iterable is done.
+ * @param {ZipWithCallback} f - A function called with an item from each
+ * iterable.
+ * @param iterables - (blob) The iterables to zip together.
+ * @typeParam Items - The item types of `iterables`, as a tuple.
+ * @typeParam R - The return type of `f`.
+ * @returns An iterable of the results of `f`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const sums = iter.zipWith((a, b) => a + b, [1, 2, 3], [10, 20, 30]);
+ *
+ * console.log(...sums); // -> 11 22 33
+ * ```
+ */
+export function zipWith<Items extends unknown[], R>(
+  f: ZipWithCallback<Items, R>,
+  ...iterables: IterablesOf<Items>
+): IterableCircular<R> {
+  return {
+    *[Symbol.iterator]() {
+      for (const items of zip<Items>(...iterables)) yield f(...items);
+    },
+  };
+}
+
+/**
+ * Lazily merges iterables which are each sorted by `compare` into a single
+ * sorted iterable, like the merge step of merge sort. Items which compare
+ * equal keep the order of `iterables`, so the merge is stable. Only the next
+ * item of each iterable is held at a time, in a binary heap, so each item
+ * takes O(log k) work for k iterables.
+ *
+ * Each iterable must already be sorted by `compare`; the result is unspecified
+ * otherwise.
+ * @param {CompareCallback} compare - Returns a negative number if `a` comes
+ * before `b`, a positive number if after, and `0` if they are equal.
+ * @param iterables - (blob) The sorted iterables to merge.
+ * @typeParam T - The type of items in `iterables`.
+ * @returns A sorted iterable of the items of all `iterables`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const merged = iter.mergeSorted((a, b) => a - b, [1, 4, 7], [2, 5], [3, 6]);
+ *
+ * console.log(...merged); // -> 1 2 3 4 5 6 7
+ * ```
+ */
+export function mergeSorted<T>(
+  compare: CompareCallback<T>,
+  ...iterables: Array<Iterable<T>>
+): IterableCircular<T> {
+  return {
+    *[Symbol.iterator]() {
+      const iterators = openIterators(iterables);
+      const done = iterators.map(() => false);
+      // ties are broken by source, so that the merge is stable
+      const heap = new BinaryHeap<{ item: T; source: number }>((a, b) =>
+        compare(a.item, b.item) || a.source - b.source
+      );
+      try {
+        for (let i = 0; i < iterators.length; i++) {
+          const next = nextOrFinish(iterators, done, i);
+          if (!next.done) heap.push({ item: next.value, source: i });
+        }
+        while (heap.size > 0) {
+          const { item, source } = heap.peek() as { item: T; source: number };
+          yield item;
+          // only pull the next item of the source once it is needed
+          const next = nextOrFinish(iterators, done, source);
+          if (next.done) {
+            heap.pop();
+          } else {
+            heap.replace({ item: next.value, source });
+          }
+        }
+      } finally {
+        closeIterators(iterators.filter((_, i) => !done[i]));
+      }
+    },
+  };
+}
+
+/**
+ * {@link mergeSortedBy | `mergeSortedBy`} callback.
+ * @typeParam T - See {@link mergeSortedBy}
+ * @typeParam K - See {@link mergeSortedBy}
+ */
+export interface MergeSortedByCallback<T, K> {
+  /**
+   * {@link mergeSortedBy | `mergeSortedBy`} callback.
+   * @callback MergeSortedByCallback
+   * @param item - The item to get the sort key of.
+   * @returns The sort key.
+   */
+  (item: T): K;
+}
+
+/**
+ * Lazily merges iterables which are each sorted by the key returned by
+ * `keyFn` into a single sorted iterable. Keys are compared with `<` and `>`,
+ * and computed once per item. Otherwise the same as
+ * {@link mergeSorted | `mergeSorted`}.
+ * @param {MergeSortedByCallback} keyFn - Gets the sort key of an item.
+ * @param iterables - (blob) The sorted iterables to merge.
+ * @typeParam T - The type of items in `iterables`.
+ * @typeParam K - The type of the keys.
+ * @returns A sorted iterable of the items of all `iterables`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const shard1 = [{ time: 1, msg: "a" }, { time: 5, msg: "c" }];
+ * const shard2 = [{ time: 3, msg: "b" }];
+ * const logs = iter.mergeSortedBy((entry) => entry.time, shard1, shard2);
+ *
+ * console.log(...iter.map(logs, (entry) => entry.msg)); // -> a b c
+ * ```
+ */
+export function mergeSortedBy<T, K extends number | string | bigint>(
+  keyFn: MergeSortedByCallback<T, K>,
+  ...iterables: Array<Iterable<T>>
+): IterableCircular<T> {
+  return {
+    *[Symbol.iterator]() {
+      const merged = mergeSorted<[K, T]>(
+        ([a], [b]) => (a < b ? -1 : a > b ? 1 : 0),
+        ...iterables.map((it) => keyed(it, keyFn)),
+      );
+      for (const [, item] of merged) yield item;
+    },
+  };
+}
+
+function* keyed<T, K>(
+  it: Iterable<T>,
+  keyFn: MergeSortedByCallback<T, K>,
+): Generator<[K, T]> {
+  for (const item of it) yield [keyFn(item), item];
+}
+
+/**
+ * A run of items which compare equal, found by {@link sortedRuns}.
+ * @private
+ */
+interface SortedRun<T> {
+  /** The first item of the run, from the earliest iterable it occurs in. */
+  item: T;
+  /** The indices of the iterables the run occurs in. */
+  inputs: Set<number>;
+}
+
+/**
+ * Walks iterables which are each sorted by `compare` at once, yielding each
+ * run of equal items along with the iterables it occurs in. `finished[i]` is
+ * set once iterable `i` is done, which by the time a run is yielded means it
+ * has no items after that run.
+ * @private
+ */
+function* sortedRuns<T>(
+  compare: CompareCallback<T>,
+  iterables: Array<Iterable<T>>,
+  finished: boolean[],
+): Generator<SortedRun<T>> {
+  const merged = mergeSorted<[T, number]>(
+    ([a], [b]) => compare(a, b),
+    ...iterables.map((it, input) => tagged(it, input, finished)),
+  );
+  let run: SortedRun<T> | undefined;
+  for (const [item, input] of merged) {
+    if (run !== undefined && compare(run.item, item) === 0) {
+      run.inputs.add(input);
+    } else {
+      if (run !== undefined) yield run;
+      run = { item, inputs: new Set([input]) };
+    }
+  }
+  if (run !== undefined) yield run;
+}
+
+function* tagged<T>(
+  it: Iterable<T>,
+  input: number,
+  finished: boolean[],
+): Generator<[T, number]> {
+  for (const item of it) yield [item, input];
+  finished[input] = true;
+}
+
+/**
+ * Splits the arguments of a set operation into the comparator, if any, and
+ * the iterables.
+ * @private
+ */
+function setOperands<T>(
+  args: Array<CompareCallback<T> | Iterable<T>>,
+): [CompareCallback<T> | undefined, Array<Iterable<T>>] {
+  return typeof args[0] === "function"
+    ? [args[0], args.slice(1) as Array<Iterable<T>>]
+    : [undefined, args as Array<Iterable<T>>];
+}
+
+/**
+ * Lazily yields every distinct item of the iterables, in order of first
+ * occurrence.
+ *
+ * Given a comparator, the iterables must each be sorted by it. They are then
+ * walked at once, like {@link mergeSorted | `mergeSorted`}, so the result is
+ * sorted too, items are equal if `compare` returns `0`, and the iterables may
+ * be endless. Otherwise items are equal by
+ * [SameValueZero](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Equality_comparisons_and_sameness#same-value-zero_equality),
+ * as in a `Set`, and each distinct item is remembered.
+ * @param compare - An optional {@link CompareCallback} the iterables are
+ * sorted by, which must come before them.
+ * @param iterables - (blob) The iterables to combine.
+ * @typeParam T - The type of items in `iterables`.
+ * @returns An iterable of the items in any of `iterables`, once each.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const byNumber = (a: number, b: number) => a - b;
+ * console.log(...iter.union(byNumber, [1, 3, 5], [1, 2, 3])); // -> 1 2 3 5
+ * console.log(...iter.union(["b", "a"], ["c", "a"])); // -> b a c
+ * ```
+ */
+export function union<T>(...iterables: Array<Iterable<T>>): IterableCircular<T>;
+export function union<T>(
+  compare: CompareCallback<T>,
+  ...iterables: Array<Iterable<T>>
+): IterableCircular<T>;
+export function union<T>(
+  ...args: Array<CompareCallback<T> | Iterable<T>>
+): IterableCircular<T> {
+  const [compare, iterables] = setOperands(args);
+
+  if (compare !== undefined) {
+    return {
+      *[Symbol.iterator]() {
+        const finished = iterables.map(() => false);
+        for (const run of sortedRuns(compare, iterables, finished)) {
+          yield run.item;
+        }
+      },
+    };
+  }
+
+  return {
+    *[Symbol.iterator]() {
+      const seen = new Set<T>();
+      for (const it of iterables) {
+        for (const item of it) {
+          if (seen.has(item)) continue;
+          seen.add(item);
+          yield item;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Lazily yields the distinct items which occur in every one of the iterables,
+ * in the order of the first.
+ *
+ * Given a comparator, the iterables must each be sorted by it, and are walked
+ * at once (see {@link union | `union`}), stopping as soon as any of them is
+ * done. Otherwise all but the first iterable are collected into `Set`s when
+ * iteration starts, so they must be finite.
+ * @param compare - An optional {@link CompareCallback} the iterables are
+ * sorted by, which must come before them.
+ * @param iterables - (blob) The iterables to intersect.
+ * @typeParam T - The type of items in `iterables`.
+ * @returns An iterable of the items in all of `iterables`, once each.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const evens = iter.create.increments(0, 2);
+ * const squares = iter.map(iter.create.increments(0), (n) => n * n);
+ * const both = iter.intersection((a, b) => a - b, evens, squares);
+ *
+ * console.log(...iter.take(both, 4)); // -> 0 4 16 36
+ * console.log(...iter.intersection([3, 1, 2], [2, 3])); // -> 3 2
+ * ```
+ */
+export function intersection<T>(
+  ...iterables: Array<Iterable<T>>
+): IterableCircular<T>;
+export function intersection<T>(
+  compare: CompareCallback<T>,
+  ...iterables: Array<Iterable<T>>
+): IterableCircular<T>;
+export function intersection<T>(
+  ...args: Array<CompareCallback<T> | Iterable<T>>
+): IterableCircular<T> {
+  const [compare, iterables] = setOperands(args);
+
+  if (compare !== undefined) {
+    return {
+      *[Symbol.iterator]() {
+        const finished = iterables.map(() => false);
+        for (const run of sortedRuns(compare, iterables, finished)) {
+          if (run.inputs.size === iterables.length) yield run.item;
+          // no later item can be in an iterable which is done
+          if (finished.includes(true)) return;
+        }
+      },
+    };
+  }
+
+  return {
+    *[Symbol.iterator]() {
+      if (iterables.length === 0) return;
+      const [first, ...others] = iterables;
+      const sets = others.map((it) => new Set(it));
+      const seen = new Set<T>();
+      for (const item of first) {
+        if (seen.has(item) || !sets.every((set) => set.has(item))) continue;
+        seen.add(item);
+        yield item;
+      }
+    },
+  };
+}
+
+/**
+ * Lazily yields the distinct items of the first iterable which occur in none
+ * of the others.
+ *
+ * Given a comparator, the iterables must each be sorted by it, and are walked
+ * at once (see {@link union | `union`}), stopping as soon as the first is
+ * done. Otherwise the other iterables are collected into a `Set` when
+ * iteration starts, so they must be finite.
+ * @param compare - An optional {@link CompareCallback} the iterables are
+ * sorted by, which must come before them.
+ * @param iterables - (blob) The iterable to take items from, followed by the
+ * iterables of items to leave out.
+ * @typeParam T - The type of items in `iterables`.
+ * @returns An iterable of the items only in the first of `iterables`, once
+ * each.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const byNumber = (a: number, b: number) => a - b;
+ * console.log(...iter.difference(byNumber, [1, 2, 3, 4], [2], [4, 5])); // -> 1 3
+ * console.log(...iter.difference(["b", "a", "c"], ["a"])); // -> b c
+ * ```
+ */
+export function difference<T>(
+  ...iterables: Array<Iterable<T>>
+): IterableCircular<T>;
+export function difference<T>(
+  compare: CompareCallback<T>,
+  ...iterables: Array<Iterable<T>>
+): IterableCircular<T>;
+export function difference<T>(
+  ...args: Array<CompareCallback<T> | Iterable<T>>
+): IterableCircular<T> {
+  const [compare, iterables] = setOperands(args);
+
+  if (compare !== undefined) {
+    return {
+      *[Symbol.iterator]() {
+        const finished = iterables.map(() => false);
+        for (const run of sortedRuns(compare, iterables, finished)) {
+          if (run.inputs.size === 1 && run.inputs.has(0)) yield run.item;
+          if (finished[0]) return;
+        }
+      },
+    };
+  }
+
+  return {
+    *[Symbol.iterator]() {
+      if (iterables.length === 0) return;
+      const [first, ...others] = iterables;
+      const excluded = new Set<T>();
+      for (const it of others) {
+        for (const item of it) excluded.add(item);
+      }
+      for (const item of first) {
+        if (excluded.has(item)) continue;
+        // excluding yielded items removes duplicates
+        excluded.add(item);
+        yield item;
+      }
+    },
+  };
+}
+
+/**
+ * Yields the distinct items which occur in an odd number of the iterables,
+ * which for two iterables means in exactly one of them.
+ *
+ * Given a comparator, the iterables must each be sorted by it, and are lazily
+ * walked at once (see {@link union | `union`}). Otherwise every iterable is
+ * collected when iteration starts, so they must be finite, and items are
+ * yielded in order of first occurrence.
+ * @param compare - An optional {@link CompareCallback} the iterables are
+ * sorted by, which must come before them.
+ * @param iterables - (blob) The iterables to combine.
+ * @typeParam T - The type of items in `iterables`.
+ * @returns An iterable of the items in an odd number of `iterables`, once
+ * each.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const byNumber = (a: number, b: number) => a - b;
+ * console.log(...iter.symmetricDifference(byNumber, [1, 2, 3], [2, 3, 4])); // -> 1 4
+ * console.log(...iter.symmetricDifference(["a", "b"], ["b", "c"])); // -> a c
+ * ```
+ */
+export function symmetricDifference<T>(
+  ...iterables: Array<Iterable<T>>
+): IterableCircular<T>;
+export function symmetricDifference<T>(
+  compare: CompareCallback<T>,
+  ...iterables: Array<Iterable<T>>
+): IterableCircular<T>;
+export function symmetricDifference<T>(
+  ...args: Array<CompareCallback<T> | Iterable<T>>
+): IterableCircular<T> {
+  const [compare, iterables] = setOperands(args);
+
+  if (compare !== undefined) {
+    return {
+      *[Symbol.iterator]() {
+        const finished = iterables.map(() => false);
+        for (const run of sortedRuns(compare, iterables, finished)) {
+          if (run.inputs.size % 2 === 1) yield run.item;
+        }
+      },
+    };
+  }
+
+  return {
+    *[Symbol.iterator]() {
+      // the number of iterables each item occurs in, in order of occurrence
+      const counts = new Map<T, number>();
+      for (const it of iterables) {
+        for (const item of new Set(it)) {
+          counts.set(item, (counts.get(item) ?? 0) + 1);
+        }
+      }
+      for (const [item, count] of counts) {
+        if (count % 2 === 1) yield item;
       }
     },
   };
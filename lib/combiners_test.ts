@@ -1,5 +1,19 @@
 import { assertEquals } from "../test_deps.ts";
 import * as combiners from "./combiners.ts";
+import * as create from "./generators.ts";
+import { randomInteger, seededRandom } from "./random.ts";
+
+function closeCounting<T>(items: T[], closed: { count: number }) {
+  return {
+    *[Symbol.iterator]() {
+      try {
+        yield* items;
+      } finally {
+        closed.count++;
+      }
+    },
+  };
+}
 
 // TODO: Test for mutability and state
 
@@ -10,8 +24,14 @@ Deno.test("pair", () => {
   const pairs = combiners.pair(testArr, revArr);
 
   for (const [a, b] of pairs) {
-    assertEquals(a + b, 9);
+    assertEquals((a ?? NaN) + (b ?? NaN), 9);
   }
+
+  // runs until both are done, filling in for the shorter one
+  const uneven: Iterable<[number | undefined, string | undefined]> = combiners
+    .pair([1, 2, 3], ["a"]);
+  assertEquals([...uneven], [[1, "a"], [2, undefined], [3, undefined]]);
+  assertEquals([...combiners.pair([], ["a"])], [[undefined, "a"]]);
 });
 
 Deno.test("concat", () => {
@@ -29,3 +49,256 @@ Deno.test("concat", () => {
   const arr3c = [1, 1, 0, 1, true, false, true, true, true, false];
   assertEquals([...combiners.concat(arr2a, arr2b, arr3a)], arr3c);
 });
+
+Deno.test("zip", () => {
+  const zipped: Iterable<[number, string, boolean]> = combiners.zip(
+    [1, 2, 3],
+    ["a", "b"],
+    [true, false, true],
+  );
+  assertEquals([...zipped], [[1, "a", true], [2, "b", false]]);
+  assertEquals([...combiners.zip()], []);
+  assertEquals([...combiners.zip([1, 2])], [[1], [2]]);
+});
+
+Deno.test("zip closes unfinished iterators", () => {
+  const closed = { count: 0 };
+  const zipped = combiners.zip(
+    closeCounting([1, 2, 3], closed),
+    [1],
+    closeCounting([1, 2, 3], closed),
+  );
+  assertEquals([...zipped], [[1, 1, 1]]);
+  assertEquals(closed.count, 2);
+
+  closed.count = 0;
+  const partial = combiners.zip(
+    closeCounting([1, 2, 3], closed),
+    closeCounting([4, 5, 6], closed),
+  );
+  for (const tuple of partial) {
+    assertEquals(tuple, [1, 4]);
+    break;
+  }
+  assertEquals(closed.count, 2);
+});
+
+Deno.test("zipLongest", () => {
+  const zipped: Iterable<[number | undefined, string | undefined]> = combiners
+    .zipLongest([1, 2, 3], ["a"]);
+  assertEquals([...zipped], [[1, "a"], [2, undefined], [3, undefined]]);
+
+  const filled: Iterable<[number | null, string | null]> = combiners
+    .zipLongest({ fillValue: null }, [1], ["a", "b"]);
+  assertEquals([...filled], [[1, "a"], [null, "b"]]);
+
+  assertEquals([...combiners.zipLongest()], []);
+});
+
+Deno.test("zipLongest closes unfinished iterators", () => {
+  const closed = { count: 0 };
+  const zipped = combiners.zipLongest(
+    closeCounting([1, 2, 3], closed),
+    closeCounting([1], closed),
+  );
+  const iterator = zipped[Symbol.iterator]();
+  assertEquals(iterator.next().value, [1, 1]);
+  assertEquals(iterator.next().value, [2, undefined]);
+  iterator.return?.();
+  assertEquals(closed.count, 2);
+});
+
+Deno.test("zipWith", () => {
+  const sums = combiners.zipWith(
+    (a, b, c) => a + b + c.length,
+    [1, 2, 3],
+    [10, 20],
+    ["x", "yy", "zzz"],
+  );
+  assertEquals([...sums], [12, 24]);
+});
+
+Deno.test("mergeSorted", () => {
+  const byNumber = (a: number, b: number) => a - b;
+  assertEquals(
+    [...combiners.mergeSorted(byNumber, [1, 4, 7], [2, 5], [], [0, 3, 6, 8])],
+    [0, 1, 2, 3, 4, 5, 6, 7, 8],
+  );
+  assertEquals([...combiners.mergeSorted(byNumber)], []);
+
+  // many sources, each sorted
+  const random = seededRandom(3);
+  const sources = Array.from(
+    { length: 50 },
+    () =>
+      Array.from(
+        { length: randomInteger(0, 20, random) },
+        () => randomInteger(0, 100, random),
+      ).sort(byNumber),
+  );
+  assertEquals(
+    [...combiners.mergeSorted(byNumber, ...sources)],
+    sources.flat().sort(byNumber),
+  );
+});
+
+Deno.test("mergeSorted is stable across inputs", () => {
+  const a = [{ key: 1, id: "a1" }, { key: 1, id: "a2" }, { key: 2, id: "a3" }];
+  const b = [{ key: 1, id: "b1" }, { key: 2, id: "b2" }];
+  const merged = combiners.mergeSorted((x, y) => x.key - y.key, b, a);
+  assertEquals([...merged].map((item) => item.id), [
+    "b1",
+    "a1",
+    "a2",
+    "b2",
+    "a3",
+  ]);
+});
+
+Deno.test("mergeSorted is lazy and closes its sources", () => {
+  let pulled = 0;
+  function* counting(items: number[]) {
+    for (const item of items) {
+      pulled++;
+      yield item;
+    }
+  }
+  const closed = { count: 0 };
+  const merged = combiners.mergeSorted(
+    (a: number, b: number) => a - b,
+    counting([1, 3, 5]),
+    closeCounting([2, 4], closed),
+  );
+  const iterator = merged[Symbol.iterator]();
+  assertEquals(iterator.next().value, 1);
+  assertEquals(pulled, 1);
+  assertEquals(iterator.next().value, 2);
+  assertEquals(pulled, 2);
+  iterator.return?.();
+  assertEquals(closed.count, 1);
+});
+
+Deno.test("mergeSortedBy", () => {
+  let calls = 0;
+  const byLength = (s: string) => {
+    calls++;
+    return s.length;
+  };
+  const merged = combiners.mergeSortedBy(byLength, ["a", "ccc"], ["bb", "dd"]);
+  assertEquals([...merged], ["a", "bb", "dd", "ccc"]);
+  assertEquals(calls, 4);
+
+  const dates = combiners.mergeSortedBy(
+    (date: string) => date,
+    ["2024-01-01", "2024-03-01"],
+    ["2024-02-01"],
+  );
+  assertEquals([...dates], ["2024-01-01", "2024-02-01", "2024-03-01"]);
+});
+
+const byNumber = (a: number, b: number) => a - b;
+
+Deno.test("union", () => {
+  assertEquals(
+    [...combiners.union(byNumber, [1, 1, 3, 5], [1, 2, 3], [6])],
+    [1, 2, 3, 5, 6],
+  );
+  assertEquals([...combiners.union(["b", "a"], ["c", "a", "b"])], [
+    "b",
+    "a",
+    "c",
+  ]);
+  assertEquals([...combiners.union([NaN, 0], [NaN, -0])], [NaN, 0]);
+  assertEquals([...combiners.union()], []);
+  assertEquals([...combiners.union(byNumber)], []);
+});
+
+Deno.test("union keeps the first of equal items", () => {
+  const byKey = (a: { key: number }, b: { key: number }) => a.key - b.key;
+  const merged = combiners.union(
+    byKey,
+    [{ key: 1, id: "a" }],
+    [{ key: 1, id: "b" }, { key: 2, id: "c" }],
+  );
+  assertEquals([...merged].map((item) => item.id), ["a", "c"]);
+});
+
+Deno.test("intersection", () => {
+  assertEquals(
+    [...combiners.intersection(byNumber, [1, 2, 2, 3, 5], [2, 3, 4, 5], [
+      0,
+      2,
+      5,
+    ])],
+    [2, 5],
+  );
+  assertEquals([...combiners.intersection([3, 1, 2, 3], [2, 3])], [3, 2]);
+  assertEquals([...combiners.intersection([1, 2])], [1, 2]);
+  assertEquals([...combiners.intersection()], []);
+
+  // stops once any sorted iterable is done, so others may be endless
+  const closed = { count: 0 };
+  const evens = combiners.intersection(
+    byNumber,
+    create.increments(0, 2),
+    closeCounting([1, 2, 4, 5], closed),
+  );
+  assertEquals([...evens], [2, 4]);
+  assertEquals(closed.count, 1);
+});
+
+Deno.test("difference", () => {
+  assertEquals(
+    [...combiners.difference(byNumber, [1, 1, 2, 3, 4, 6], [2], [4, 5])],
+    [1, 3, 6],
+  );
+  assertEquals([...combiners.difference(["b", "a", "c", "b"], ["a"])], [
+    "b",
+    "c",
+  ]);
+  assertEquals([...combiners.difference(byNumber, [], [1])], []);
+  assertEquals([...combiners.difference()], []);
+
+  // stops once the first sorted iterable is done
+  const rest = combiners.difference(byNumber, [1, 2, 3], create.increments(2));
+  assertEquals([...rest], [1]);
+});
+
+Deno.test("symmetricDifference", () => {
+  assertEquals(
+    [...combiners.symmetricDifference(byNumber, [1, 2, 2, 3], [2, 3, 4])],
+    [1, 4],
+  );
+  assertEquals(
+    [...combiners.symmetricDifference(byNumber, [1, 2], [2, 3], [2, 4])],
+    [1, 2, 3, 4],
+  );
+  assertEquals(
+    [...combiners.symmetricDifference(["a", "b", "a"], ["c", "b"])],
+    ["a", "c"],
+  );
+});
+
+Deno.test("sorted and hashed set operations agree", () => {
+  const random = seededRandom(5);
+  const sets = Array.from(
+    { length: 3 },
+    () =>
+      Array.from({ length: 30 }, () => randomInteger(0, 40, random)).sort(
+        byNumber,
+      ),
+  );
+  for (
+    const operation of [
+      combiners.union,
+      combiners.intersection,
+      combiners.difference,
+      combiners.symmetricDifference,
+    ]
+  ) {
+    assertEquals(
+      [...operation(byNumber, ...sets)],
+      [...operation(...sets)].sort(byNumber),
+    );
+  }
+});
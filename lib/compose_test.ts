@@ -0,0 +1,54 @@
+import { assertEquals } from "../test_deps.ts";
+import { flow, pipe } from "./compose.ts";
+
+const inc = (x: number) => x + 1;
+
+Deno.test("pipe", () => {
+  assertEquals(pipe(1), 1);
+  assertEquals(pipe(1, inc), 2);
+  assertEquals(pipe(1, inc, String, (s) => s + "!"), "2!");
+
+  const twelve: number = pipe(
+    0,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+  );
+  assertEquals(twelve, 12);
+});
+
+Deno.test("flow", () => {
+  const add = (x: number, y: number) => x + y;
+  const addThenShow = flow(add, inc, (x) => `${x}`);
+  const result: string = addThenShow(1, 2);
+  assertEquals(result, "4");
+
+  const sixteen: (x: number) => number = flow(
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+    inc,
+  );
+  assertEquals(sixteen(0), 16);
+});
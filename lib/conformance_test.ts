@@ -0,0 +1,282 @@
+import { assert, assertEquals } from "../test_deps.ts";
+import * as transformers from "./transformers.ts";
+import * as combiners from "./combiners.ts";
+import { compose, sequence, tfilter, tmap } from "./transducers.ts";
+
+/**
+ * Hands out sources which record how their iterators are opened and closed.
+ * An iterator counts as closed once it has finished or `return()` has been
+ * called on it.
+ */
+class Sources {
+  opened = 0;
+  closed = 0;
+  closedAgain = 0;
+
+  /** @param failAt - Opening this many iterators throws on the last one. */
+  constructor(readonly failAt = Infinity) {}
+
+  source = <T>(items: Iterable<T>): Iterable<T> => {
+    // deno-lint-ignore no-this-alias
+    const sources = this;
+    return {
+      [Symbol.iterator]() {
+        if (sources.opened + 1 === sources.failAt) throw new Error("Open");
+        const iterator = items[Symbol.iterator]();
+        let closed = false;
+        const close = () => {
+          if (closed) {
+            sources.closedAgain++;
+          } else {
+            closed = true;
+            sources.closed++;
+          }
+        };
+        sources.opened++;
+        return {
+          next() {
+            if (closed) return { done: true, value: undefined };
+            const next = iterator.next();
+            if (next.done) close();
+            return next;
+          },
+          return(value?: unknown) {
+            close();
+            return { done: true, value };
+          },
+        } as Iterator<T>;
+      },
+    };
+  };
+
+  assertAllClosedOnce(name: string) {
+    assert(this.opened > 0, `\`${name}\` never opened a source`);
+    assertEquals(this.closed, this.opened, `\`${name}\` left a source open`);
+    assertEquals(this.closedAgain, 0, `\`${name}\` closed a source twice`);
+  }
+}
+
+type Source = Sources["source"];
+
+const digits = () => [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+const byNumber = (a: number, b: number) => a - b;
+
+/**
+ * Builds a pipeline from each transformer, fed by `source`, with arguments
+ * that make it yield at least two items.
+ */
+const transformerCases: Record<
+  keyof typeof transformers,
+  (source: Source) => Iterable<unknown>
+> = {
+  catchError: (source) =>
+    transformers.catchError(
+      transformers.map(source([0, 1]), (n) => {
+        if (n > 0) throw new Error("Upstream");
+        return n;
+      }),
+      () => source([1, 2]),
+    ),
+  chunkBy: (source) => transformers.chunkBy(source(digits()), (n) => n),
+  chunkify: (source) => transformers.chunkify(source(digits()), 2),
+  completeFlat: (source) =>
+    transformers.completeFlat(source([source([0, source([1])]), source([2])])),
+  drop: (source) => transformers.drop(source(digits()), 2),
+  dropUntil: (source) => transformers.dropUntil(source(digits()), (n) => n > 2),
+  dropWhile: (source) => transformers.dropWhile(source(digits()), (n) => n < 2),
+  filter: (source) => transformers.filter(source(digits()), (n) => n % 2 === 0),
+  flat: (source) => transformers.flat(source([source([0, 1]), source([2])])),
+  flatMap: (source) =>
+    transformers.flatMap(source(digits()), (n) => source([n, n])),
+  fuse: (source) => transformers.fuse(source(digits())),
+  indexedPairs: (source) => transformers.indexedPairs(source(digits())),
+  lines: (source) => transformers.lines(source(["a\nb", "\nc\n"])),
+  map: (source) => transformers.map(source(digits()), (n) => n * 2),
+  mapSafe: (source) =>
+    transformers.mapSafe(source(digits()), (n) => {
+      if (n % 2 === 1) throw new Error("Odd");
+      return n;
+    }),
+  onError: (source) => transformers.onError(source(digits()), () => {}),
+  pairwise: (source) => transformers.pairwise(source(digits())),
+  peekable: (source) => transformers.peekable(source(digits())),
+  remember: (source) => {
+    const remembered = transformers.remember(source(digits()));
+    // an iteration leaves the source open for the others, so it is closed
+    // explicitly once the pipeline stops
+    return {
+      *[Symbol.iterator]() {
+        try {
+          yield* remembered;
+        } finally {
+          remembered.close();
+        }
+      },
+    };
+  },
+  retry: (source) => {
+    let failures = 0;
+    return transformers.retry(() =>
+      transformers.map(source(digits()), (n) => {
+        if (n === 1 && failures++ === 0) throw new Error("Flaky");
+        return n;
+      })
+    );
+  },
+  shuffle: (source) => transformers.shuffle(source(digits())),
+  splitOn: (source) => transformers.splitOn(source(["a,b", ",c"]), ","),
+  splitWhen: (source) =>
+    transformers.splitWhen(source(digits()), (a, b) => b < a || b % 3 === 0),
+  take: (source) => transformers.take(source(digits()), 5),
+  takeWhile: (source) => transformers.takeWhile(source(digits()), (n) => n < 5),
+  tee: (source) => transformers.tee(source(digits()), 1)[0],
+  until: (source) => transformers.until(source(digits()), (n) => n > 5),
+  windows: (source) => transformers.windows(source(digits()), 3),
+};
+
+const combinerCases: Record<
+  keyof typeof combiners,
+  (source: Source) => Iterable<unknown>
+> = {
+  concat: (source) => combiners.concat(source([0, 1]), source([2, 3])),
+  difference: (source) =>
+    combiners.difference(
+      byNumber,
+      source(digits()),
+      source([1, 3]),
+      source([5]),
+    ),
+  intersection: (source) =>
+    combiners.intersection(byNumber, source(digits()), source([1, 3, 5])),
+  mergeSorted: (source) =>
+    combiners.mergeSorted(
+      (a: number, b: number) => a - b,
+      source([0, 2, 4]),
+      source([1, 3]),
+    ),
+  mergeSortedBy: (source) =>
+    combiners.mergeSortedBy(
+      (n: number) => -n,
+      source([4, 2, 0]),
+      source([3, 1]),
+    ),
+  pair: (source) => combiners.pair(source(digits()), source([0, 1, 2])),
+  symmetricDifference: (source) =>
+    combiners.symmetricDifference(byNumber, source([0, 1, 2]), source([1, 3])),
+  union: (source) =>
+    combiners.union(byNumber, source([0, 2, 4]), source([0, 1, 2])),
+  zip: (source) => combiners.zip(source(digits()), source(digits())),
+  zipLongest: (source) =>
+    combiners.zipLongest(source(digits()), source([0, 1, 2])),
+  zipWith: (source) =>
+    combiners.zipWith(
+      (a: number, b: number) => a + b,
+      source(digits()),
+      source(digits()),
+    ),
+};
+
+const cases = { ...transformerCases, ...combinerCases };
+
+Deno.test("conformance cases cover every transformer and combiner", () => {
+  for (
+    const name of [...Object.keys(transformers), ...Object.keys(combiners)]
+  ) {
+    assert(name in cases, `No conformance case for \`${name}\``);
+  }
+});
+
+Deno.test("breaking out of a pipeline closes its sources once", () => {
+  for (const [name, build] of Object.entries(cases)) {
+    for (const taken of [1, 2]) {
+      const sources = new Sources();
+      let count = 0;
+      for (const _ of build(sources.source)) {
+        if (++count === taken) break;
+      }
+      assertEquals(count, taken, `\`${name}\` yielded too few items`);
+      sources.assertAllClosedOnce(name);
+    }
+  }
+});
+
+Deno.test("throwing into a pipeline closes its sources once", () => {
+  for (const [name, build] of Object.entries(cases)) {
+    const sources = new Sources();
+    const iterator = build(sources.source)[Symbol.iterator]();
+    const error = new Error(name);
+
+    iterator.next();
+    assert(iterator.throw !== undefined, `\`${name}\` has no \`throw()\``);
+    try {
+      iterator.throw(error);
+      assert(false, `\`${name}\` swallowed the error`);
+    } catch (thrown) {
+      assertEquals(thrown, error);
+    }
+    sources.assertAllClosedOnce(name);
+    assertEquals(iterator.next().done, true, `\`${name}\` continued`);
+  }
+});
+
+Deno.test("exhausting a pipeline closes its sources once", () => {
+  for (const [name, build] of Object.entries(cases)) {
+    const sources = new Sources();
+    for (const _ of build(sources.source));
+    sources.assertAllClosedOnce(name);
+  }
+});
+
+Deno.test("failing to open a source closes those already opened", () => {
+  const names = [
+    "mergeSorted",
+    "mergeSortedBy",
+    "pair",
+    "zip",
+    "zipLongest",
+    "zipWith",
+  ] as const;
+  for (const name of names) {
+    const sources = new Sources(2);
+    try {
+      for (const _ of combinerCases[name](sources.source));
+      assert(false, `\`${name}\` swallowed the error`);
+    } catch (error) {
+      assertEquals((error as Error).message, "Open");
+    }
+    sources.assertAllClosedOnce(name);
+  }
+});
+
+Deno.test("finally blocks in generator sources run once", () => {
+  let cleanups = 0;
+  function* source() {
+    try {
+      for (let i = 0;; i++) yield i;
+    } finally {
+      cleanups++;
+    }
+  }
+
+  const pipelines: Array<Iterable<unknown>> = [
+    transformers.take(transformers.map(source(), (n) => n * 2), 3),
+    combiners.zip(
+      transformers.filter(source(), (n) => n % 2 === 0),
+      transformers.drop(source(), 1),
+    ),
+    transformers.chunkify(transformers.peekable(source()), 2),
+    sequence(
+      source(),
+      compose(tmap((n: number) => n + 1), tfilter((n) => n > 0)),
+    ),
+  ];
+
+  for (const pipeline of pipelines) {
+    cleanups = 0;
+    let count = 0;
+    for (const _ of pipeline) {
+      if (++count === 3) break;
+    }
+    assertEquals(cleanups, pipeline === pipelines[1] ? 2 : 1);
+  }
+});
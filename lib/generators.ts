@@ -1,5 +1,7 @@
-import { IterableCircular } from "./types.ts";
+import { IterableCircular, IterablesOf, RandomSource } from "./types.ts";
 import { kComb } from "./internal/util.ts";
+import { binomial, poisson } from "./internal/distributions.ts";
+import { randomBoolean, randomInteger, randomPick } from "./random.ts";
 
 /**
  * {@link from | `from`} generator callback.
@@ -134,28 +136,21 @@ export function fromResults<T>(
   results: Iterable<IteratorResult<T>>,
 ): IterableCircular<T> {
   return {
-    [Symbol.iterator]() {
-      const iterator = results[Symbol.iterator]();
-
-      return {
-        next(): IteratorResult<T> {
-          const next = iterator.next();
-          if (next.value == null) {
-            return { value: undefined, done: true };
-          } else {
-            return next.value;
-          }
-        },
-        [Symbol.iterator]() {
-          return this;
-        },
-      };
+    *[Symbol.iterator]() {
+      for (const result of results) {
+        if (result == null) return;
+        if (result.done) return result.value;
+        yield result.value;
+      }
     },
   };
 }
 
 /**
- * Creates an endless iterable of pseudorandom numbers.
+ * Creates an endless iterable of pseudorandom numbers from 0 (inclusive) to 1
+ * (exclusive).
+ * @param random - The source of randomness. Defaults to `Math.random`; pass a
+ * generator from `seededRandom` for reproducible numbers.
  * @returns An iterable containing lazily calculated pseudorandom numbers.
  * @example
  * ```ts
@@ -172,8 +167,313 @@ export function fromResults<T>(
  * console.log(iterator.next().value); // ~> 0.5199689620612802
  * ```
  */
-export function randomNumbers(): IterableCircular<number> {
-  return endlessFrom(Math.random);
+export function randomNumbers(
+  random: RandomSource = Math.random,
+): IterableCircular<number> {
+  return endlessFrom(() => random());
+}
+
+/**
+ * Creates an endless iterable of random integers from `min` to `max`, both
+ * inclusive. See {@link randomInteger | `randomInteger`}.
+ * @param min - The smallest possible integer.
+ * @param max - The largest possible integer.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @returns An endless iterable of random integers.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const dice = iter.create.randomIntegers(1, 6, iter.seededRandom(7));
+ * console.log(...iter.take(dice, 5)); // -> 6 2 3 2 2
+ * ```
+ */
+export function randomIntegers(
+  min: number,
+  max: number,
+  random: RandomSource = Math.random,
+): IterableCircular<number> {
+  // validate eagerly
+  randomInteger(min, max, kComb(0));
+  return endlessFrom(() => randomInteger(min, max, random));
+}
+
+/**
+ * Creates an endless iterable of random booleans. See
+ * {@link randomBoolean | `randomBoolean`}.
+ * @param probability - The probability of each being `true`, from 0 to 1.
+ * Defaults to `0.5`.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @returns An endless iterable of random booleans.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const flips = iter.create.randomBooleans(0.5, iter.seededRandom(7));
+ * console.log(...iter.take(flips, 3)); // -> false true true
+ * ```
+ */
+export function randomBooleans(
+  probability = 0.5,
+  random: RandomSource = Math.random,
+): IterableCircular<boolean> {
+  randomBoolean(probability, kComb(0));
+  return endlessFrom(() => randomBoolean(probability, random));
+}
+
+/**
+ * Creates an endless iterable of items picked at random (with replacement)
+ * from an array. See {@link randomPick | `randomPick`}.
+ * @param items - The array to pick from. Must not be empty.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @typeParam T - The type of items in `items`.
+ * @returns An endless iterable of random items of `items`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const moves = ["rock", "paper", "scissors"];
+ * const picks = iter.create.randomPicks(moves, iter.seededRandom(7));
+ * console.log(...iter.take(picks, 3)); // -> scissors rock paper
+ * ```
+ */
+export function randomPicks<T>(
+  items: ArrayLike<T>,
+  random: RandomSource = Math.random,
+): IterableCircular<T> {
+  if (items.length === 0) {
+    throw new RangeError("Expected `items` not to be empty");
+  }
+  return endlessFrom(() => randomPick(items, random) as T);
+}
+
+/**
+ * Creates an endless iterable of items picked at random (with replacement)
+ * from an array, each with a probability proportional to its weight.
+ * @param items - The array to pick from.
+ * @param weights - The weight of each item of `items`, at the same index.
+ * Weights must be finite and non-negative, and at least one must be positive.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @typeParam T - The type of items in `items`.
+ * @returns An endless iterable of random items of `items`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const coins = iter.create.randomWeightedPicks(["heads", "tails"], [9, 1]);
+ * console.log(...iter.take(coins, 3)); // ~> heads heads tails
+ * ```
+ */
+export function randomWeightedPicks<T>(
+  items: ArrayLike<T>,
+  weights: ArrayLike<number>,
+  random: RandomSource = Math.random,
+): IterableCircular<T> {
+  if (items.length !== weights.length) {
+    throw new RangeError(
+      `Expected \`weights\` to have the same length as \`items\` (\`${items.length}\`), got \`${weights.length}\``,
+    );
+  }
+  const cumulative = new Float64Array(weights.length);
+  let total = 0;
+  for (let i = 0; i < weights.length; i++) {
+    const weight = weights[i];
+    if (!(weight >= 0 && weight < Infinity)) {
+      throw new RangeError(
+        `Expected \`weights\` to be finite and non-negative, got \`${weight}\``,
+      );
+    }
+    cumulative[i] = total += weight;
+  }
+  if (!(total > 0 && total < Infinity)) {
+    throw new RangeError(
+      `Expected \`weights\` to have a finite, positive total, got \`${total}\``,
+    );
+  }
+
+  return endlessFrom(() => {
+    const target = random() * total;
+    // find the first item whose cumulative weight exceeds the target
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (cumulative[middle] > target) high = middle;
+      else low = middle + 1;
+    }
+    return items[low];
+  });
+}
+
+/**
+ * Creates an endless iterable of normally distributed random numbers, using
+ * the [Box–Muller transform](https://en.wikipedia.org/wiki/Box%E2%80%93Muller_transform).
+ * @param mean - The mean of the distribution. Defaults to `0`.
+ * @param stddev - The standard deviation of the distribution. Defaults to `1`.
+ * @param random - The uniform source of randomness. Defaults to
+ * `Math.random`.
+ * @returns An endless iterable of normally distributed numbers.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const heights = iter.create.randomNormals(170, 10);
+ * console.log(...iter.take(heights, 3)); // ~> 164.2 181.7 171.3
+ * ```
+ */
+export function randomNormals(
+  mean = 0,
+  stddev = 1,
+  random: RandomSource = Math.random,
+): IterableCircular<number> {
+  if (!Number.isFinite(mean)) {
+    throw new RangeError(`Expected \`mean\` to be finite, got \`${mean}\``);
+  }
+  if (!(stddev >= 0 && stddev < Infinity)) {
+    throw new RangeError(
+      `Expected \`stddev\` to be finite and non-negative, got \`${stddev}\``,
+    );
+  }
+
+  return {
+    *[Symbol.iterator]() {
+      while (true) {
+        // 1 - random() is in (0, 1], so the logarithm is finite
+        const radius = Math.sqrt(-2 * Math.log(1 - random()));
+        const angle = 2 * Math.PI * random();
+        // each pair of uniforms gives two independent normals
+        yield mean + stddev * radius * Math.cos(angle);
+        yield mean + stddev * radius * Math.sin(angle);
+      }
+    },
+  };
+}
+
+/**
+ * Creates an endless iterable of exponentially distributed random numbers,
+ * such as the waiting times between events which happen at a constant average
+ * rate.
+ * @param rate - The rate parameter (the inverse of the mean). Defaults to
+ * `1`.
+ * @param random - The uniform source of randomness. Defaults to
+ * `Math.random`.
+ * @returns An endless iterable of exponentially distributed numbers.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * // on average, 2 arrivals per minute
+ * const minutesBetween = iter.create.randomExponentials(2);
+ * console.log(...iter.take(minutesBetween, 3)); // ~> 0.31 0.07 1.22
+ * ```
+ */
+export function randomExponentials(
+  rate = 1,
+  random: RandomSource = Math.random,
+): IterableCircular<number> {
+  if (!(rate > 0 && rate < Infinity)) {
+    throw new RangeError(
+      `Expected \`rate\` to be finite and positive, got \`${rate}\``,
+    );
+  }
+  return endlessFrom(() => -Math.log(1 - random()) / rate);
+}
+
+/**
+ * Creates an endless iterable of Poisson distributed random integers, such as
+ * the number of events in an interval when they happen at a constant average
+ * rate. Each takes constant time on average, however large `mean` is.
+ * @param mean - The mean number of events.
+ * @param random - The uniform source of randomness. Defaults to
+ * `Math.random`.
+ * @returns An endless iterable of Poisson distributed integers.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const arrivalsPerHour = iter.create.randomPoissons(4);
+ * console.log(...iter.take(arrivalsPerHour, 5)); // ~> 3 6 4 2 4
+ * ```
+ */
+export function randomPoissons(
+  mean: number,
+  random: RandomSource = Math.random,
+): IterableCircular<number> {
+  if (!(mean >= 0 && mean < Infinity)) {
+    throw new RangeError(
+      `Expected \`mean\` to be finite and non-negative, got \`${mean}\``,
+    );
+  }
+  return endlessFrom(() => poisson(mean, random));
+}
+
+/**
+ * Creates an endless iterable of binomially distributed random integers: the
+ * number of successes in `trials` independent trials which each succeed with
+ * probability `probability`. Each takes constant time on average, however
+ * large `trials` is.
+ * @param trials - The number of trials.
+ * @param probability - The probability of each trial succeeding, from 0 to 1.
+ * @param random - The uniform source of randomness. Defaults to
+ * `Math.random`.
+ * @returns An endless iterable of binomially distributed integers.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const headsIn10Flips = iter.create.randomBinomials(10, 0.5);
+ * console.log(...iter.take(headsIn10Flips, 5)); // ~> 5 4 7 5 3
+ * ```
+ */
+export function randomBinomials(
+  trials: number,
+  probability: number,
+  random: RandomSource = Math.random,
+): IterableCircular<number> {
+  if (!(Number.isSafeInteger(trials) && trials >= 0)) {
+    throw new RangeError(
+      `Expected \`trials\` to be an integer from 0 and up, got \`${trials}\``,
+    );
+  }
+  if (!(probability >= 0 && probability <= 1)) {
+    throw new RangeError(
+      `Expected \`probability\` to be a number from 0 to 1, got \`${probability}\``,
+    );
+  }
+  return endlessFrom(() => binomial(trials, probability, random));
+}
+
+/**
+ * Creates an endless iterable of geometrically distributed random integers:
+ * the number of independent trials, each succeeding with probability
+ * `probability`, up to and including the first success.
+ * @param probability - The probability of each trial succeeding, from 0
+ * (exclusive) to 1.
+ * @param random - The uniform source of randomness. Defaults to
+ * `Math.random`.
+ * @returns An endless iterable of geometrically distributed integers, from 1
+ * and up.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const rollsUntilSix = iter.create.randomGeometrics(1 / 6);
+ * console.log(...iter.take(rollsUntilSix, 5)); // ~> 4 1 12 6 2
+ * ```
+ */
+export function randomGeometrics(
+  probability: number,
+  random: RandomSource = Math.random,
+): IterableCircular<number> {
+  if (!(probability > 0 && probability <= 1)) {
+    throw new RangeError(
+      `Expected \`probability\` to be a number from 0 (exclusive) to 1, got \`${probability}\``,
+    );
+  }
+  if (probability === 1) return constant(1);
+  const logFailure = Math.log1p(-probability);
+  // sampled by inversion, so each takes constant time
+  return endlessFrom(() => 1 + Math.floor(Math.log(1 - random()) / logFailure));
 }
 
 /**
@@ -200,7 +500,8 @@ export function constant<T>(value: T): IterableCircular<T> {
 }
 
 /**
- * Creates an endless iterable of incrementing numbers.
+ * Creates an endless iterable of incrementing numbers. If `initial` is a
+ * `bigint`, so is `step`, and the iterable yields `bigint`s.
  * @param initial - The initial value.
  * @param step - The increment amount.
  * @returns An endless iterable of incrementing numbers.
@@ -229,12 +530,29 @@ export function constant<T>(value: T): IterableCircular<T> {
  * console.log(oddsIterator.next().value); // -> 11
  * ```
  */
-export function increments(initial = 0, step = 1): IterableCircular<number> {
-  return endlessFrom((index) => initial + index * step);
+export function increments(
+  initial?: number,
+  step?: number,
+): IterableCircular<number>;
+export function increments(
+  initial: bigint,
+  step?: bigint,
+): IterableCircular<bigint>;
+export function increments(
+  initial: number | bigint = 0,
+  step?: number | bigint,
+): IterableCircular<number | bigint> {
+  if (typeof initial === "bigint") {
+    const increment = (step ?? 1n) as bigint;
+    return endlessFrom((index) => initial + BigInt(index) * increment);
+  }
+  const increment = (step ?? 1) as number;
+  return endlessFrom((index) => initial + index * increment);
 }
 
 /**
- * Creates an iterable over an inclusive range of numbers.
+ * Creates an iterable over an inclusive range of numbers. If the arguments are
+ * `bigint`s, the iterable yields `bigint`s.
  * @param endOrStart - If no other arguments are provided, the range will go
  * from 0 until `endOrRangeStart`. Otherwise, this acts as the start of the
  * range. To stress, this is _inclusive_, in contrast to Python's
@@ -258,27 +576,59 @@ export function increments(initial = 0, step = 1): IterableCircular<number> {
  *
  * const range4 = iter.create.range(12, 2, 2);
  * console.log(...range4); // -> 12 10 8 6 4 2
+ *
+ * const range5 = iter.create.range(0n, 10n ** 30n, 10n ** 29n);
+ * console.log(iter.sum(range5)); // -> 5500000000000000000000000000000n
  * ```
  */
 export function range(
   endOrStart: number,
   end?: number,
-  step = 1,
-): IterableCircular<number> {
-  const start = end ? endOrStart : 0;
-  const newEnd = end ? end : endOrStart;
-
-  step = Math.abs(step);
-  const upwards = newEnd > start;
-  if (!upwards) {
-    step *= -1;
+  step?: number,
+): IterableCircular<number>;
+export function range(
+  endOrStart: bigint,
+  end?: bigint,
+  step?: bigint,
+): IterableCircular<bigint>;
+export function range(
+  endOrStart: number | bigint,
+  end?: number | bigint,
+  step?: number | bigint,
+): IterableCircular<number | bigint> {
+  if (typeof endOrStart === "bigint") {
+    const start = end === undefined ? 0n : endOrStart;
+    const newEnd = (end === undefined ? endOrStart : end) as bigint;
+    const increment = (step ?? 1n) as bigint;
+    const magnitude = increment < 0n ? -increment : increment;
+    return inclusiveRange(start, newEnd, magnitude, (a, b) => a + b);
   }
 
-  const shouldStop = (i: number) => upwards ? i <= newEnd : i >= newEnd;
+  const start = end === undefined ? 0 : endOrStart;
+  const newEnd = (end === undefined ? endOrStart : end) as number;
+  const increment = (step ?? 1) as number;
+  return inclusiveRange(start, newEnd, Math.abs(increment), (a, b) => a + b);
+}
+
+/**
+ * Creates an iterable from `start` to `end` inclusive, going up or down by
+ * `magnitude`.
+ * @private
+ */
+function inclusiveRange<N extends number | bigint>(
+  start: N,
+  end: N,
+  magnitude: N,
+  add: (a: N, b: N) => N,
+): IterableCircular<N> {
+  const upwards = end > start;
+  const step = (upwards ? magnitude : -magnitude) as N;
+
+  const shouldStop = (i: N) => upwards ? i <= end : i >= end;
 
   return {
     *[Symbol.iterator]() {
-      for (let i = start; shouldStop(i); i += step) {
+      for (let i = start; shouldStop(i); i = add(i, step)) {
         yield i;
       }
     },
@@ -292,7 +642,8 @@ export function range(
  * this does not treat astral codepoints as single characters,
  * but rather as the constituent surrogate pair.
  * Each char code is therefore between `0x0000` and `0xffff = 2¹⁶ - 1`.
- * See the example below.
+ * See the example below, and {@link fromCodePoints | `fromCodePoints`} for
+ * whole code points.
  * @param str - A string to extract char codes from.
  * @returns An iterable over the char codes.
  * @example
@@ -339,7 +690,8 @@ export function fromCharCodes(str: string): IterableCircular<number> {
  * this does not treat astral codepoints as single characters,
  * but rather as the constituent surrogate pair.
  * Each char code is therefore between `0x0000` and `0xffff = 2¹⁶ - 1`.
- * See the example below.
+ * See the example below. Use {@link fromGraphemes | `fromGraphemes`} to split
+ * text into user-perceived characters instead.
  * @param str - A string to extract char codes from.
  * @returns An iterable over the char codes.
  * @example
@@ -363,16 +715,385 @@ export function fromChars(str: string): IterableCircular<string> {
     *[Symbol.iterator]() {
       let i = 0;
 
+      while (i < str.length) {
+        yield str.charAt(i);
+        i++;
+      }
+    },
+  };
+}
+
+/**
+ * Creates an iterable over a string's code points. Unlike
+ * {@link fromCharCodes | `fromCharCodes`}, astral characters (such as most
+ * emoji) give a single code point rather than a surrogate pair. Lone
+ * surrogates give their own code unit.
+ * @param str - A string to extract code points from.
+ * @returns An iterable over the code points.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const codePoints = [...iter.create.fromCodePoints("a🦀")];
+ *
+ * console.log(codePoints.map((c) => c.toString(16))); // -> ["61", "1f980"]
+ * console.log(String.fromCodePoint(...codePoints)); // -> a🦀
+ * ```
+ */
+export function fromCodePoints(str: string): IterableCircular<number> {
+  return {
+    *[Symbol.iterator]() {
+      let i = 0;
+      while (i < str.length) {
+        const c = str.codePointAt(i) as number;
+        yield c;
+        i += c > 0xffff ? 2 : 1;
+      }
+    },
+  };
+}
+
+/** Options for the text segmentation generators. */
+export interface SegmentOptions {
+  /**
+   * The locale(s) whose segmentation rules to use, as accepted by
+   * [`Intl.Segmenter`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/Segmenter/Segmenter).
+   * Defaults to the runtime's default locale.
+   */
+  locales?: string | string[];
+}
+
+/** Options for {@link fromWords | `fromWords`}. */
+export interface WordSegmentOptions extends SegmentOptions {
+  /**
+   * Whether to skip the segments between words, such as whitespace and
+   * punctuation. Defaults to `true`.
+   */
+  wordLikeOnly?: boolean;
+}
+
+function segments(
+  str: string,
+  granularity: "grapheme" | "word" | "sentence",
+  locales: string | string[] | undefined,
+): Iterable<Intl.SegmentData> {
+  return new Intl.Segmenter(locales, { granularity }).segment(str);
+}
+
+/**
+ * Lazily splits a string into grapheme clusters (user-perceived characters)
+ * with [`Intl.Segmenter`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/Segmenter).
+ * Unlike iterating over code points, this keeps combining marks with their
+ * base character, and emoji sequences (such as flags, skin tones and families)
+ * together.
+ * @param str - The string to split.
+ * @param options - See {@link SegmentOptions}.
+ * @returns An iterable over the grapheme clusters of `str`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const graphemes = [...iter.create.fromGraphemes("e\u0301👍🏽🇳🇴")];
+ *
+ * console.log(graphemes); // -> ["é", "👍🏽", "🇳🇴"]
+ * ```
+ */
+export function fromGraphemes(
+  str: string,
+  { locales }: SegmentOptions = {},
+): IterableCircular<string> {
+  return {
+    *[Symbol.iterator]() {
+      for (const { segment } of segments(str, "grapheme", locales)) {
+        yield segment;
+      }
+    },
+  };
+}
+
+/**
+ * Lazily splits a string into words with
+ * [`Intl.Segmenter`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/Segmenter),
+ * following the locale's rules (so it also works for languages which aren't
+ * written with spaces).
+ * @param str - The string to split.
+ * @param options - See {@link WordSegmentOptions}.
+ * @returns An iterable over the words of `str`, and, if `wordLikeOnly` is
+ * `false`, the segments between them.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log([...iter.create.fromWords("Hi, 世界!")]); // -> ["Hi", "世界"]
+ * console.log([...iter.create.fromWords("Hi, you", { wordLikeOnly: false })]);
+ * // -> ["Hi", ",", " ", "you"]
+ * ```
+ */
+export function fromWords(
+  str: string,
+  { locales, wordLikeOnly = true }: WordSegmentOptions = {},
+): IterableCircular<string> {
+  return {
+    *[Symbol.iterator]() {
+      for (const { segment, isWordLike } of segments(str, "word", locales)) {
+        if (isWordLike || !wordLikeOnly) yield segment;
+      }
+    },
+  };
+}
+
+/**
+ * Lazily splits a string into sentences with
+ * [`Intl.Segmenter`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/Segmenter).
+ * Each sentence keeps its trailing punctuation and whitespace.
+ * @param str - The string to split.
+ * @param options - See {@link SegmentOptions}.
+ * @returns An iterable over the sentences of `str`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log([...iter.create.fromSentences("Hi! How are you? 👋")]);
+ * // -> ["Hi! ", "How are you? ", "👋"]
+ * ```
+ */
+export function fromSentences(
+  str: string,
+  { locales }: SegmentOptions = {},
+): IterableCircular<string> {
+  return {
+    *[Symbol.iterator]() {
+      for (const { segment } of segments(str, "sentence", locales)) {
+        yield segment;
+      }
+    },
+  };
+}
+
+/**
+ * Throws if `k` is not a valid selection size.
+ * @param k - The selection size.
+ */
+function assertSelectionSize(k: number): void {
+  if (!(Number.isSafeInteger(k) && k >= 0)) {
+    throw new RangeError(
+      `Expected \`k\` to be an integer from 0 and up, got \`${k}\``,
+    );
+  }
+}
+
+/**
+ * Creates a lazy iterable over the cartesian product of the input iterables,
+ * like nested for loops. Tuples are yielded in lexicographic order by input
+ * position, so the last iterable advances fastest. Each input is read into an
+ * array once per iteration, but the product itself is never materialised.
+ * Similar to Python's
+ * [`itertools.product()`](https://docs.python.org/3/library/itertools.html#itertools.product).
+ * @param iterables - (blob) The (finite) iterables to take the product of.
+ * @typeParam Items - The item types of `iterables`, as a tuple.
+ * @returns An iterable over tuples containing an item from each iterable.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const matrix = iter.create.product(["linux", "mac"], [18, 20]);
+ *
+ * console.log(...matrix);
+ * // -> ["linux", 18] ["linux", 20] ["mac", 18] ["mac", 20]
+ * ```
+ */
+export function product<Items extends unknown[]>(
+  ...iterables: IterablesOf<Items>
+): IterableCircular<Items> {
+  return {
+    *[Symbol.iterator]() {
+      const pools: unknown[][] = iterables.map((it) => [...it]);
+      if (pools.some((pool) => pool.length === 0)) return;
+      const indices = pools.map(() => 0);
+
       while (true) {
-        const c = str.charAt(i);
+        yield indices.map((index, i) => pools[i][index]) as Items;
 
-        if (c !== c) {
-          return;
-        } else {
-          yield c;
+        let i = pools.length - 1;
+        for (; i >= 0; i--) {
+          if (++indices[i] < pools[i].length) break;
+          indices[i] = 0;
         }
+        if (i < 0) return;
+      }
+    },
+  };
+}
 
-        i++;
+/**
+ * Creates a lazy iterable over the `k`-permutations of the items of `it`.
+ * Permutations are yielded in lexicographic order by input position. Items are
+ * treated as unique based on their position, not their value. Similar to
+ * Python's
+ * [`itertools.permutations()`](https://docs.python.org/3/library/itertools.html#itertools.permutations).
+ * @param it - The (finite) iterable to permute.
+ * @param k - The length of each permutation. Defaults to the length of `it`.
+ * @typeParam T - The type of items in `it`.
+ * @returns An iterable over arrays of length `k`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(...iter.create.permutations([1, 2, 3], 2));
+ * // -> [1, 2] [1, 3] [2, 1] [2, 3] [3, 1] [3, 2]
+ * ```
+ */
+export function permutations<T>(
+  it: Iterable<T>,
+  k?: number,
+): IterableCircular<T[]> {
+  if (k !== undefined) assertSelectionSize(k);
+
+  return {
+    *[Symbol.iterator]() {
+      const pool = [...it];
+      const n = pool.length;
+      const r = k ?? n;
+      if (r > n) return;
+
+      const indices = pool.map((_, i) => i);
+      const cycles = indices.slice(0, r).map((i) => n - i);
+      const select = () => indices.slice(0, r).map((i) => pool[i]);
+
+      yield select();
+      while (true) {
+        let i = r - 1;
+        for (; i >= 0; i--) {
+          cycles[i]--;
+          if (cycles[i] === 0) {
+            indices.push(...indices.splice(i, 1));
+            cycles[i] = n - i;
+          } else {
+            const j = n - cycles[i];
+            [indices[i], indices[j]] = [indices[j], indices[i]];
+            yield select();
+            break;
+          }
+        }
+        if (i < 0) return;
+      }
+    },
+  };
+}
+
+/**
+ * Creates a lazy iterable over the `k`-combinations of the items of `it`.
+ * Combinations are yielded in lexicographic order by input position, and the
+ * items within each keep their input order. Items are treated as unique based
+ * on their position, not their value. Similar to Python's
+ * [`itertools.combinations()`](https://docs.python.org/3/library/itertools.html#itertools.combinations).
+ * @param it - The (finite) iterable to choose from.
+ * @param k - The length of each combination.
+ * @typeParam T - The type of items in `it`.
+ * @returns An iterable over arrays of length `k`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(...iter.create.combinations(["a", "b", "c"], 2));
+ * // -> ["a", "b"] ["a", "c"] ["b", "c"]
+ * ```
+ */
+export function combinations<T>(
+  it: Iterable<T>,
+  k: number,
+): IterableCircular<T[]> {
+  assertSelectionSize(k);
+
+  return {
+    *[Symbol.iterator]() {
+      const pool = [...it];
+      const n = pool.length;
+      if (k > n) return;
+
+      const indices = Array.from({ length: k }, (_, i) => i);
+      const select = () => indices.map((i) => pool[i]);
+
+      yield select();
+      while (true) {
+        let i = k - 1;
+        while (i >= 0 && indices[i] === i + n - k) i--;
+        if (i < 0) return;
+
+        indices[i]++;
+        for (let j = i + 1; j < k; j++) indices[j] = indices[j - 1] + 1;
+        yield select();
+      }
+    },
+  };
+}
+
+/**
+ * Creates a lazy iterable over the `k`-combinations of the items of `it`,
+ * allowing each item to be chosen more than once. Combinations are yielded in
+ * lexicographic order by input position. Similar to Python's
+ * [`itertools.combinations_with_replacement()`](https://docs.python.org/3/library/itertools.html#itertools.combinations_with_replacement).
+ * @param it - The (finite) iterable to choose from.
+ * @param k - The length of each combination.
+ * @typeParam T - The type of items in `it`.
+ * @returns An iterable over arrays of length `k`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(...iter.create.combinationsWithReplacement(["a", "b"], 2));
+ * // -> ["a", "a"] ["a", "b"] ["b", "b"]
+ * ```
+ */
+export function combinationsWithReplacement<T>(
+  it: Iterable<T>,
+  k: number,
+): IterableCircular<T[]> {
+  assertSelectionSize(k);
+
+  return {
+    *[Symbol.iterator]() {
+      const pool = [...it];
+      const n = pool.length;
+      if (n === 0 && k > 0) return;
+
+      const indices = new Array<number>(k).fill(0);
+      const select = () => indices.map((i) => pool[i]);
+
+      yield select();
+      while (true) {
+        let i = k - 1;
+        while (i >= 0 && indices[i] === n - 1) i--;
+        if (i < 0) return;
+
+        indices.fill(indices[i] + 1, i);
+        yield select();
+      }
+    },
+  };
+}
+
+/**
+ * Creates a lazy iterable over every subset of the items of `it`. Subsets are
+ * yielded in order of size, and subsets of the same size are in lexicographic
+ * order by input position (as with {@link combinations | `combinations`}).
+ * @param it - The (finite) iterable to take subsets of.
+ * @typeParam T - The type of items in `it`.
+ * @returns An iterable over all `2ⁿ` subsets of `it`, as arrays.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(...iter.create.powerset([1, 2, 3]));
+ * // -> [] [1] [2] [3] [1, 2] [1, 3] [2, 3] [1, 2, 3]
+ * ```
+ */
+export function powerset<T>(it: Iterable<T>): IterableCircular<T[]> {
+  return {
+    *[Symbol.iterator]() {
+      const pool = [...it];
+      for (let k = 0; k <= pool.length; k++) {
+        yield* combinations(pool, k);
       }
     },
   };
@@ -1,6 +1,8 @@
-import { assert, assertEquals } from "../test_deps.ts";
+import { assert, assertEquals, assertThrows } from "../test_deps.ts";
 import * as generators from "./generators.ts";
 import { sum } from "./reducers.ts";
+import { take } from "./transformers.ts";
+import { seededRandom } from "./random.ts";
 
 Deno.test("randomNumbers", () => {
   const randomNumbers = generators.randomNumbers()[Symbol.iterator]();
@@ -11,6 +13,124 @@ Deno.test("randomNumbers", () => {
   assert(typeof randomNumbers.next().value === "number");
 });
 
+Deno.test("seeded random generators", () => {
+  assertEquals(
+    [...take(generators.randomNumbers(seededRandom(1)), 3)],
+    [...take(generators.randomNumbers(seededRandom(1)), 3)],
+  );
+
+  const dice = [...take(generators.randomIntegers(1, 6, seededRandom(7)), 100)];
+  assert(dice.every((n) => Number.isInteger(n) && n >= 1 && n <= 6));
+  assertEquals(new Set(dice).size, 6);
+
+  const flips = [...take(generators.randomBooleans(1, seededRandom(7)), 10)];
+  assert(flips.every((b) => b === true));
+
+  const picks = [...take(generators.randomPicks("ab", seededRandom(7)), 50)];
+  assertEquals(new Set(picks), new Set(["a", "b"]));
+
+  assertThrows(() => generators.randomIntegers(2, 1), RangeError);
+  assertThrows(() => generators.randomBooleans(2), RangeError);
+  assertThrows(() => generators.randomPicks([]), RangeError);
+});
+
+function moments(it: Iterable<number>, n: number): [number, number] {
+  const items = [...take(it, n)];
+  const mean = items.reduce((a, b) => a + b, 0) / n;
+  const variance = items.reduce((a, b) => a + (b - mean) ** 2, 0) / (n - 1);
+  return [mean, variance];
+}
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+  assert(
+    Math.abs(actual - expected) <= tolerance,
+    `Expected ${actual} to be within ${tolerance} of ${expected}`,
+  );
+}
+
+Deno.test("random distributions have the expected moments", () => {
+  const n = 20000;
+  const cases: Array<[Iterable<number>, number, number]> = [
+    [generators.randomNormals(5, 2, seededRandom(1)), 5, 4],
+    [generators.randomExponentials(2, seededRandom(1)), 0.5, 0.25],
+    [generators.randomPoissons(3, seededRandom(1)), 3, 3],
+    [generators.randomPoissons(400, seededRandom(1)), 400, 400],
+    [generators.randomBinomials(20, 0.25, seededRandom(1)), 5, 3.75],
+    [generators.randomBinomials(1000, 0.7, seededRandom(1)), 700, 210],
+    [generators.randomGeometrics(0.25, seededRandom(1)), 4, 12],
+  ];
+
+  for (const [it, mean, variance] of cases) {
+    const [actualMean, actualVariance] = moments(it, n);
+    assertClose(actualMean, mean, 5 * Math.sqrt(variance / n));
+    assertClose(actualVariance, variance, 0.05 * variance);
+  }
+});
+
+Deno.test("random distributions take integer values", () => {
+  const integers = [
+    ...take(generators.randomPoissons(50, seededRandom(2)), 100),
+    ...take(generators.randomBinomials(30, 0.9, seededRandom(2)), 100),
+    ...take(generators.randomGeometrics(0.5, seededRandom(2)), 100),
+  ];
+
+  assert(integers.every((n) => Number.isInteger(n) && n >= 0));
+  assert(
+    [...take(generators.randomBinomials(30, 0.9, seededRandom(2)), 100)]
+      .every((n) => n <= 30),
+  );
+  assertEquals([...take(generators.randomPoissons(0), 3)], [0, 0, 0]);
+  assertEquals([...take(generators.randomBinomials(5, 1), 3)], [5, 5, 5]);
+  assertEquals([...take(generators.randomGeometrics(1), 3)], [1, 1, 1]);
+  assertEquals([...take(generators.randomNormals(3, 0), 3)], [3, 3, 3]);
+});
+
+Deno.test("random distributions are reproducible", () => {
+  const normals = generators.randomNormals(0, 1, seededRandom(3));
+  // each iteration continues from the random source's current state
+  assert([...take(normals, 3)].join() !== [...take(normals, 3)].join());
+  assertEquals(
+    [...take(generators.randomNormals(0, 1, seededRandom(3)), 3)],
+    [...take(generators.randomNormals(0, 1, seededRandom(3)), 3)],
+  );
+});
+
+Deno.test("randomWeightedPicks", () => {
+  const picks = [
+    ...take(
+      generators.randomWeightedPicks(
+        ["a", "b", "c"],
+        [1, 0, 3],
+        seededRandom(4),
+      ),
+      4000,
+    ),
+  ];
+  const aCount = picks.filter((pick) => pick === "a").length;
+
+  assert(!picks.includes("b"));
+  assertClose(aCount, 1000, 100);
+  assertEquals(
+    [...take(generators.randomWeightedPicks([1, 2], [1, 1], () => 0.5), 2)],
+    [2, 2],
+  );
+  assertThrows(() => generators.randomWeightedPicks([1], [1, 2]), RangeError);
+  assertThrows(() => generators.randomWeightedPicks([1], [-1]), RangeError);
+  assertThrows(() => generators.randomWeightedPicks([1], [0]), RangeError);
+  assertThrows(() => generators.randomWeightedPicks([], []), RangeError);
+});
+
+Deno.test("random distributions validate their parameters", () => {
+  assertThrows(() => generators.randomNormals(0, -1), RangeError);
+  assertThrows(() => generators.randomNormals(NaN), RangeError);
+  assertThrows(() => generators.randomExponentials(0), RangeError);
+  assertThrows(() => generators.randomPoissons(-1), RangeError);
+  assertThrows(() => generators.randomPoissons(Infinity), RangeError);
+  assertThrows(() => generators.randomBinomials(1.5, 0.5), RangeError);
+  assertThrows(() => generators.randomBinomials(10, 1.5), RangeError);
+  assertThrows(() => generators.randomGeometrics(0), RangeError);
+});
+
 Deno.test("endlessFrom", () => {
   const id: (x: number) => number = (x) => x;
   const counting = generators.endlessFrom(id)[Symbol.iterator]();
@@ -61,6 +181,27 @@ Deno.test("range", () => {
   assertEquals(sum(generators.range(5)), 15);
   assertEquals(sum(generators.range(5, 9)), 35);
   assertEquals(sum(generators.range(5, 10, 2)), 21);
+  assertEquals([...generators.range(3, 0)], [3, 2, 1, 0]);
+});
+
+Deno.test("bigint increments and range", () => {
+  const big = generators.increments(10n ** 20n, 3n)[Symbol.iterator]();
+  assertEquals(big.next().value, 10n ** 20n);
+  assertEquals(big.next().value, 10n ** 20n + 3n);
+
+  assertEquals([...generators.range(3n)], [0n, 1n, 2n, 3n]);
+  assertEquals([...generators.range(12n, 2n, -4n)], [12n, 8n, 4n]);
+  assertEquals([...generators.range(2n, 2n)], [2n]);
+  assertEquals([...generators.range(3n, 0n)], [3n, 2n, 1n, 0n]);
+
+  const huge = generators.range(0n, 10n ** 30n, 7n * 10n ** 28n);
+  let count = 0;
+  for (const n of huge) {
+    assertEquals(typeof n, "bigint");
+    count++;
+  }
+  assertEquals(count, 15);
+  assertEquals(sum(huge), 7n * 10n ** 28n * 105n);
 });
 
 Deno.test("fromResults", () => {
@@ -111,3 +252,147 @@ Deno.test("fromChars", () => {
   assertEquals(chars.next().value, "\ud83e");
   assertEquals(chars.next().value, "\udd71");
 });
+
+Deno.test("fromChars ends with the string", () => {
+  assertEquals([...generators.fromChars("ab")], ["a", "b"]);
+  assertEquals([...generators.fromChars("")], []);
+});
+
+Deno.test("fromCodePoints", () => {
+  assertEquals([...generators.fromCodePoints("wot \ud83e\udee5?")], [
+    0x77,
+    0x6f,
+    0x74,
+    0x20,
+    0x1fae5,
+    0x3f,
+  ]);
+  // lone surrogates are kept as they are
+  assertEquals([...generators.fromCodePoints("\udc00\ud800a\ud800")], [
+    0xdc00,
+    0xd800,
+    0x61,
+    0xd800,
+  ]);
+  assertEquals([...generators.fromCodePoints("")], []);
+});
+
+Deno.test("fromGraphemes", () => {
+  const graphemes = generators.fromGraphemes(
+    "e\u0301👍🏽🇳🇴👨‍👩‍👧!",
+  );
+
+  assertEquals([...graphemes], ["e\u0301", "👍🏽", "🇳🇴", "👨‍👩‍👧", "!"]);
+  assertEquals([...graphemes].join(""), "e\u0301👍🏽🇳🇴👨‍👩‍👧!");
+  assertEquals([...generators.fromGraphemes("")], []);
+});
+
+Deno.test("fromWords", () => {
+  assertEquals([...generators.fromWords("Hello, 🌍 world!")], [
+    "Hello",
+    "world",
+  ]);
+  assertEquals(
+    [...generators.fromWords("Hi, you", { wordLikeOnly: false })],
+    ["Hi", ",", " ", "you"],
+  );
+  assertEquals(
+    [...generators.fromWords("これはテストです", { locales: "ja" })].join("|"),
+    "これ|は|テスト|です",
+  );
+});
+
+Deno.test("fromSentences", () => {
+  assertEquals([...generators.fromSentences("Hi! How are you? 👋")], [
+    "Hi! ",
+    "How are you? ",
+    "👋",
+  ]);
+});
+
+Deno.test("product", () => {
+  const matrix: Iterable<[string, number]> = generators.product(
+    ["a", "b"],
+    [1, 2, 3],
+  );
+  assertEquals([...matrix], [
+    ["a", 1],
+    ["a", 2],
+    ["a", 3],
+    ["b", 1],
+    ["b", 2],
+    ["b", 3],
+  ]);
+  assertEquals([...matrix].length, 6);
+  assertEquals([...generators.product()], [[]]);
+  assertEquals([...generators.product([1], [])], []);
+});
+
+Deno.test("permutations", () => {
+  assertEquals([...generators.permutations([1, 2, 3])], [
+    [1, 2, 3],
+    [1, 3, 2],
+    [2, 1, 3],
+    [2, 3, 1],
+    [3, 1, 2],
+    [3, 2, 1],
+  ]);
+  assertEquals([...generators.permutations("abc", 2)].map((p) => p.join("")), [
+    "ab",
+    "ac",
+    "ba",
+    "bc",
+    "ca",
+    "cb",
+  ]);
+  assertEquals([...generators.permutations([1, 2], 0)], [[]]);
+  assertEquals([...generators.permutations([1, 2], 3)], []);
+  assertEquals(
+    [...generators.permutations(generators.range(1, 5))].length,
+    120,
+  );
+  assertThrows(() => generators.permutations([1], -1));
+});
+
+Deno.test("combinations", () => {
+  assertEquals([...generators.combinations("abcd", 2)].map((c) => c.join("")), [
+    "ab",
+    "ac",
+    "ad",
+    "bc",
+    "bd",
+    "cd",
+  ]);
+  assertEquals([...generators.combinations([1, 2], 0)], [[]]);
+  assertEquals([...generators.combinations([1, 2], 3)], []);
+  assertEquals(
+    [...generators.combinations(generators.range(1, 10), 3)].length,
+    120,
+  );
+  assertThrows(() => generators.combinations([1], 1.5));
+});
+
+Deno.test("combinationsWithReplacement", () => {
+  assertEquals(
+    [...generators.combinationsWithReplacement("abc", 2)].map((c) =>
+      c.join("")
+    ),
+    ["aa", "ab", "ac", "bb", "bc", "cc"],
+  );
+  assertEquals([...generators.combinationsWithReplacement([], 0)], [[]]);
+  assertEquals([...generators.combinationsWithReplacement([], 2)], []);
+});
+
+Deno.test("powerset", () => {
+  assertEquals([...generators.powerset([1, 2, 3])], [
+    [],
+    [1],
+    [2],
+    [3],
+    [1, 2],
+    [1, 3],
+    [2, 3],
+    [1, 2, 3],
+  ]);
+  assertEquals([...generators.powerset(generators.range(1, 10))].length, 1024);
+});
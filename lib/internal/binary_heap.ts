@@ -0,0 +1,103 @@
+/**
+ * A binary min-heap, ordered by a comparator. Items which compare equal are
+ * popped in the order they were pushed, so the heap is stable.
+ * @typeParam T - The type of items in the heap.
+ * @internal
+ */
+export class BinaryHeap<T> {
+  #items = new Array<{ item: T; order: number }>();
+  #pushed = 0;
+  #compare: (a: T, b: T) => number;
+
+  /**
+   * @param compare - Returns a negative number if `a` should be popped before
+   * `b`, a positive number if after, and `0` if they are equal.
+   */
+  constructor(compare: (a: T, b: T) => number) {
+    this.#compare = compare;
+  }
+
+  /** The number of items in the heap. */
+  get size(): number {
+    return this.#items.length;
+  }
+
+  /** Gets the smallest item without removing it. */
+  peek(): T | undefined {
+    return this.#items[0]?.item;
+  }
+
+  push(item: T): void {
+    this.#items.push({ item, order: this.#pushed++ });
+    this.#siftUp(this.#items.length - 1);
+  }
+
+  /** Removes and returns the smallest item. */
+  pop(): T | undefined {
+    const items = this.#items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      this.#siftDown(0);
+    }
+    return top?.item;
+  }
+
+  /**
+   * Removes the smallest item and adds `item`, in a single pass. Cheaper than
+   * a `pop` followed by a `push`.
+   */
+  replace(item: T): T | undefined {
+    const top = this.#items[0];
+    if (top === undefined) {
+      this.push(item);
+      return undefined;
+    }
+    this.#items[0] = { item, order: this.#pushed++ };
+    this.#siftDown(0);
+    return top.item;
+  }
+
+  /** Removes and returns every item, smallest first. */
+  drain(): T[] {
+    const drained = new Array<T>();
+    while (this.#items.length > 0) drained.push(this.pop() as T);
+    return drained;
+  }
+
+  #before(i: number, j: number): boolean {
+    const a = this.#items[i];
+    const b = this.#items[j];
+    const order = this.#compare(a.item, b.item);
+    return order < 0 || (order === 0 && a.order < b.order);
+  }
+
+  #swap(i: number, j: number): void {
+    const items = this.#items;
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+
+  #siftUp(i: number): void {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.#before(i, parent)) return;
+      this.#swap(i, parent);
+      i = parent;
+    }
+  }
+
+  #siftDown(i: number): void {
+    const length = this.#items.length;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < length && this.#before(left, smallest)) smallest = left;
+      if (right < length && this.#before(right, smallest)) smallest = right;
+      if (smallest === i) return;
+      this.#swap(i, smallest);
+      i = smallest;
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { assertEquals } from "../../test_deps.ts";
+import { BinaryHeap } from "./binary_heap.ts";
+
+Deno.test("BinaryHeap", () => {
+  const heap = new BinaryHeap<number>((a, b) => a - b);
+  assertEquals(heap.pop(), undefined);
+  assertEquals(heap.peek(), undefined);
+
+  for (const n of [5, 3, 8, 1, 9, 2, 7]) heap.push(n);
+  assertEquals(heap.size, 7);
+  assertEquals(heap.peek(), 1);
+  assertEquals(heap.pop(), 1);
+  assertEquals(heap.replace(6), 2);
+  assertEquals(heap.drain(), [3, 5, 6, 7, 8, 9]);
+  assertEquals(heap.size, 0);
+});
+
+Deno.test("BinaryHeap is stable", () => {
+  const heap = new BinaryHeap<[number, string]>(([a], [b]) => a - b);
+  const items: Array<[number, string]> = [
+    [1, "a"],
+    [0, "b"],
+    [1, "c"],
+    [0, "d"],
+    [1, "e"],
+    [0, "f"],
+  ];
+  for (const item of items) heap.push(item);
+
+  assertEquals(heap.drain().map(([, s]) => s).join(""), "bdface");
+});
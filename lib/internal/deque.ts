@@ -0,0 +1,67 @@
+/**
+ * A double-ended queue backed by a circular array, which grows as needed, so
+ * that adding and removing items at either end takes constant amortised time.
+ * @typeParam T - The type of items in the deque.
+ * @internal
+ */
+export class Deque<T> {
+  #items = new Array<T | undefined>(4);
+  #start = 0;
+  #length = 0;
+
+  /** The number of items in the deque. */
+  get length(): number {
+    return this.#length;
+  }
+
+  /** Adds an item to the back of the deque. */
+  push(item: T): void {
+    this.#grow();
+    this.#items[(this.#start + this.#length) % this.#items.length] = item;
+    this.#length++;
+  }
+
+  /** Adds an item to the front of the deque. */
+  unshift(item: T): void {
+    this.#grow();
+    this.#start = (this.#start - 1 + this.#items.length) % this.#items.length;
+    this.#items[this.#start] = item;
+    this.#length++;
+  }
+
+  /** Removes and returns the item at the front of the deque. */
+  shift(): T | undefined {
+    if (this.#length === 0) return undefined;
+    const item = this.#items[this.#start];
+    // release the reference so the item can be garbage collected
+    this.#items[this.#start] = undefined;
+    this.#start = (this.#start + 1) % this.#items.length;
+    this.#length--;
+    return item;
+  }
+
+  /** Gets the item at `index`, counting from the front. */
+  at(index: number): T | undefined {
+    if (index < 0 || index >= this.#length) return undefined;
+    return this.#items[(this.#start + index) % this.#items.length];
+  }
+
+  /** Removes all items from the deque. */
+  clear(): void {
+    this.#items = new Array<T | undefined>(4);
+    this.#start = 0;
+    this.#length = 0;
+  }
+
+  /** Doubles the capacity if the deque is full, unwrapping its items. */
+  #grow(): void {
+    const capacity = this.#items.length;
+    if (this.#length < capacity) return;
+    const items = new Array<T | undefined>(capacity * 2);
+    for (let i = 0; i < this.#length; i++) {
+      items[i] = this.#items[(this.#start + i) % capacity];
+    }
+    this.#items = items;
+    this.#start = 0;
+  }
+}
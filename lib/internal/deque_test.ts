@@ -0,0 +1,38 @@
+import { assertEquals } from "../../test_deps.ts";
+import { Deque } from "./deque.ts";
+
+function toArray<T>(deque: Deque<T>): T[] {
+  return Array.from({ length: deque.length }, (_, i) => deque.at(i) as T);
+}
+
+Deno.test("Deque", () => {
+  const deque = new Deque<number>();
+  assertEquals(deque.length, 0);
+  assertEquals(deque.shift(), undefined);
+
+  deque.push(2);
+  deque.push(3);
+  deque.unshift(1);
+  deque.unshift(0);
+  assertEquals(toArray(deque), [0, 1, 2, 3]);
+  assertEquals(deque.at(4), undefined);
+  assertEquals(deque.at(-1), undefined);
+
+  // grows while wrapped around
+  deque.unshift(-1);
+  deque.push(4);
+  assertEquals(toArray(deque), [-1, 0, 1, 2, 3, 4]);
+
+  assertEquals(deque.shift(), -1);
+  assertEquals(deque.shift(), 0);
+  assertEquals(deque.length, 4);
+  for (let i = 5; i < 20; i++) deque.push(i);
+  for (let i = 1; i < 20; i++) assertEquals(deque.shift(), i);
+  assertEquals(deque.length, 0);
+
+  deque.push(1);
+  deque.clear();
+  assertEquals(deque.length, 0);
+  deque.unshift(2);
+  assertEquals(toArray(deque), [2]);
+});
@@ -0,0 +1,111 @@
+import { RandomSource } from "../types.ts";
+
+/** `ln(k!)`, exact for small `k` and from Stirling's series otherwise. */
+function logFactorial(k: number): number {
+  if (k < 10) {
+    let result = 0;
+    for (let i = 2; i <= k; i++) result += Math.log(i);
+    return result;
+  }
+  const k2 = k * k;
+  return k * Math.log(k) - k + Math.log(2 * Math.PI * k) / 2 +
+    (1 / 12 - (1 / 360 - 1 / (1260 * k2)) / k2) / k;
+}
+
+/**
+ * Draws from a Poisson distribution, by multiplying uniforms for small means,
+ * and by transformed rejection with squeeze
+ * ([PTRS](https://doi.org/10.1016/0167-6687(93)90997-4)) for larger ones, so
+ * that it takes constant time on average.
+ * @internal
+ */
+export function poisson(mean: number, random: RandomSource): number {
+  if (mean < 10) {
+    const limit = Math.exp(-mean);
+    let k = 0;
+    let product = random();
+    while (product >= limit) {
+      k++;
+      product *= random();
+    }
+    return k;
+  }
+
+  const logMean = Math.log(mean);
+  const b = 0.931 + 2.53 * Math.sqrt(mean);
+  const a = -0.059 + 0.02483 * b;
+  const logAlpha = Math.log(1.1239 + 1.1328 / (b - 3.4));
+  const vr = 0.9277 - 3.6224 / (b - 2);
+  while (true) {
+    const u = random() - 0.5;
+    const v = random();
+    const us = 0.5 - Math.abs(u);
+    const k = Math.floor((2 * a / us + b) * u + mean + 0.43);
+    if (us >= 0.07 && v <= vr) return k;
+    if (k < 0 || (us < 0.013 && v > us)) continue;
+    if (
+      Math.log(v) + logAlpha - Math.log(a / (us * us) + b) <=
+        -mean + k * logMean - logFactorial(k)
+    ) {
+      return k;
+    }
+  }
+}
+
+/**
+ * Draws from a binomial distribution, by inversion when few successes are
+ * expected, and by transformed rejection
+ * ([BTRS](https://epub.wu.ac.at/1242/)) otherwise, so that it takes constant
+ * time on average.
+ * @internal
+ */
+export function binomial(
+  trials: number,
+  probability: number,
+  random: RandomSource,
+): number {
+  // sample the rarer outcome, so the algorithms only need to handle p <= 0.5
+  if (probability > 0.5) {
+    return trials - binomial(trials, 1 - probability, random);
+  }
+  const p = probability;
+  const q = 1 - p;
+
+  if (trials * p < 10) {
+    const s = p / q;
+    const a = (trials + 1) * s;
+    let r = q ** trials;
+    let u = random();
+    let k = 0;
+    while (u > r && k < trials) {
+      u -= r;
+      k++;
+      r *= a / k - s;
+    }
+    return k;
+  }
+
+  const spq = Math.sqrt(trials * p * q);
+  const b = 1.15 + 2.53 * spq;
+  const a = -0.0873 + 0.0248 * b + 0.01 * p;
+  const c = trials * p + 0.5;
+  const vr = 0.92 - 4.2 / b;
+  const alpha = (2.83 + 5.1 / b) * spq;
+  const logOdds = Math.log(p / q);
+  const mode = Math.floor((trials + 1) * p);
+  const h = logFactorial(mode) + logFactorial(trials - mode);
+  while (true) {
+    const u = random() - 0.5;
+    const v = random();
+    const us = 0.5 - Math.abs(u);
+    const k = Math.floor((2 * a / us + b) * u + c);
+    if (k < 0 || k > trials) continue;
+    if (us >= 0.07 && v <= vr) return k;
+    if (
+      Math.log(v * alpha / (a / (us * us) + b)) <=
+        h - logFactorial(k) - logFactorial(trials - k) + (k - mode) * logOdds
+    ) {
+      return k;
+    }
+  }
+}
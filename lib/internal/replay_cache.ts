@@ -0,0 +1,68 @@
+/**
+ * The cache behind `remember`. Items are addressed by their absolute position
+ * in the source, so that iterators keep their place as old items are evicted.
+ * @typeParam T - The type of items in the cache.
+ * @internal
+ */
+export class ReplayCache<T> {
+  #items = new Array<T | undefined>();
+  #head = 0;
+  #start = 0;
+  #maxItems: number;
+
+  constructor(maxItems: number) {
+    this.#maxItems = maxItems;
+  }
+
+  /** The absolute position of the oldest cached item. */
+  get start(): number {
+    return this.#start;
+  }
+
+  /** The absolute position just past the newest cached item. */
+  get end(): number {
+    return this.#start + this.size;
+  }
+
+  /** The number of items currently cached. */
+  get size(): number {
+    return this.#items.length - this.#head;
+  }
+
+  /**
+   * Adds an item to the end of the cache, evicting the oldest items past
+   * `maxItems`.
+   */
+  push(item: T): void {
+    this.#items.push(item);
+    while (this.size > this.#maxItems) {
+      // release references so evicted items can be garbage collected
+      this.#items[this.#head++] = undefined;
+      this.#start++;
+    }
+
+    // compact once the evicted items make up most of the array
+    if (this.#head > 16 && this.#head * 2 > this.#items.length) {
+      this.#items = this.#items.slice(this.#head);
+      this.#head = 0;
+    }
+  }
+
+  /**
+   * Gets the item at an absolute `position`. Only call this for positions from
+   * {@link start} up to {@link end}.
+   */
+  at(position: number): T {
+    return this.#items[this.#head + position - this.#start] as T;
+  }
+
+  /**
+   * Drops every cached item. Positions keep counting up from where they were,
+   * so existing iterators skip to the next item pushed.
+   */
+  clear(): void {
+    this.#start = this.end;
+    this.#items = [];
+    this.#head = 0;
+  }
+}
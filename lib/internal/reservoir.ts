@@ -0,0 +1,111 @@
+import { RandomSource } from "../types.ts";
+import { BinaryHeap } from "./binary_heap.ts";
+
+/** A uniform random number from 0 (exclusive) to 1 (inclusive). */
+function positive(random: RandomSource): number {
+  return 1 - random();
+}
+
+/**
+ * Shuffles `items` in place with the
+ * [Fisher–Yates shuffle](https://en.wikipedia.org/wiki/Fisher%E2%80%93Yates_shuffle).
+ * @internal
+ */
+export function shuffleInPlace<T>(items: T[], random: RandomSource): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * A uniform random sample of up to `k` items from a stream, using
+ * [Algorithm L](https://dl.acm.org/doi/10.1145/198429.198435), which skips
+ * over the items which won't be kept, so that it draws only `O(k log(n/k))`
+ * random numbers for `n` items.
+ * @internal
+ */
+export class Reservoir<T> {
+  #k: number;
+  #random: RandomSource;
+  #items = new Array<T>();
+  #w = 0;
+  #skip = 0;
+
+  constructor(k: number, random: RandomSource) {
+    this.#k = k;
+    this.#random = random;
+  }
+
+  add(item: T): void {
+    const k = this.#k;
+    if (this.#items.length < k) {
+      this.#items.push(item);
+      if (this.#items.length === k) {
+        this.#w = Math.exp(Math.log(positive(this.#random)) / k);
+        this.#drawSkip();
+      }
+    } else if (this.#skip > 0) {
+      this.#skip--;
+    } else if (k > 0) {
+      this.#items[Math.floor(this.#random() * k)] = item;
+      this.#w *= Math.exp(Math.log(positive(this.#random)) / k);
+      this.#drawSkip();
+    }
+  }
+
+  /** Gets the sampled items, in random order. */
+  items(): T[] {
+    return shuffleInPlace(this.#items.slice(), this.#random);
+  }
+
+  #drawSkip(): void {
+    this.#skip = Math.floor(
+      Math.log(positive(this.#random)) / Math.log1p(-this.#w),
+    );
+  }
+}
+
+/**
+ * A weighted random sample of up to `k` items from a stream, without
+ * replacement, using
+ * [Algorithm A-Res](https://doi.org/10.1016/j.ipl.2005.11.003): each item gets
+ * a random key which grows with its weight, and the `k` items with the largest
+ * keys are kept in a heap.
+ * @internal
+ */
+export class WeightedReservoir<T> {
+  #k: number;
+  #random: RandomSource;
+  #heap = new BinaryHeap<{ item: T; key: number }>((a, b) => a.key - b.key);
+
+  constructor(k: number, random: RandomSource) {
+    this.#k = k;
+    this.#random = random;
+  }
+
+  add(item: T, weight: number): void {
+    if (!(weight >= 0 && weight < Infinity)) {
+      throw new RangeError(
+        `Expected weights to be finite and non-negative, got \`${weight}\``,
+      );
+    }
+    if (weight === 0 || this.#k === 0) return;
+    // log(u^(1 / weight)), which can't underflow for small weights
+    const key = Math.log(positive(this.#random)) / weight;
+    if (this.#heap.size < this.#k) {
+      this.#heap.push({ item, key });
+    } else if (key > (this.#heap.peek()?.key ?? -Infinity)) {
+      this.#heap.replace({ item, key });
+    }
+  }
+
+  /**
+   * Takes the sampled items, in the order they would have been drawn one at a
+   * time. This empties the reservoir.
+   */
+  items(): T[] {
+    return this.#heap.drain().reverse().map(({ item }) => item);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * A fixed-capacity first-in-first-out buffer backed by a circular array, so
+ * that pushing and dropping items never reallocates. Pushing to a full buffer
+ * evicts the oldest item.
+ * @typeParam T - The type of items in the buffer.
+ * @internal
+ */
+export class RingBuffer<T> {
+  #items: Array<T | undefined>;
+  #start = 0;
+  #length = 0;
+
+  constructor(capacity: number) {
+    this.#items = new Array<T | undefined>(capacity);
+  }
+
+  /** The maximum number of items the buffer holds. */
+  get capacity(): number {
+    return this.#items.length;
+  }
+
+  /** The number of items currently in the buffer. */
+  get length(): number {
+    return this.#length;
+  }
+
+  /**
+   * Adds an item to the end of the buffer, evicting the oldest item if the
+   * buffer is full.
+   */
+  push(item: T): void {
+    const capacity = this.#items.length;
+    if (capacity === 0) return;
+    this.#items[(this.#start + this.#length) % capacity] = item;
+    if (this.#length < capacity) {
+      this.#length++;
+    } else {
+      this.#start = (this.#start + 1) % capacity;
+    }
+  }
+
+  /** Removes up to `n` of the oldest items from the buffer. */
+  drop(n: number): void {
+    const count = Math.min(n, this.#length);
+    for (let i = 0; i < count; i++) {
+      // release references so dropped items can be garbage collected
+      this.#items[(this.#start + i) % this.#items.length] = undefined;
+    }
+    this.#start = (this.#start + count) % (this.#items.length || 1);
+    this.#length -= count;
+  }
+
+  /** Removes all items from the buffer. */
+  clear(): void {
+    this.drop(this.#length);
+    this.#start = 0;
+  }
+
+  /** Gets the item at `index`, counting from the oldest item. */
+  at(index: number): T | undefined {
+    if (index < 0 || index >= this.#length) return undefined;
+    return this.#items[(this.#start + index) % this.#items.length];
+  }
+
+  /** Copies the items in the buffer into a new array, oldest first. */
+  toArray(): T[] {
+    const array = new Array<T>(this.#length);
+    for (let i = 0; i < this.#length; i++) {
+      array[i] = this.#items[(this.#start + i) % this.#items.length] as T;
+    }
+    return array;
+  }
+}
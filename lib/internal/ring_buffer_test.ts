@@ -0,0 +1,33 @@
+import { assertEquals } from "../../test_deps.ts";
+import { RingBuffer } from "./ring_buffer.ts";
+
+Deno.test("RingBuffer", () => {
+  const buffer = new RingBuffer<number>(3);
+  assertEquals(buffer.capacity, 3);
+  assertEquals(buffer.toArray(), []);
+
+  buffer.push(1);
+  buffer.push(2);
+  assertEquals(buffer.toArray(), [1, 2]);
+
+  buffer.push(3);
+  buffer.push(4);
+  assertEquals(buffer.length, 3);
+  assertEquals(buffer.toArray(), [2, 3, 4]);
+  assertEquals(buffer.at(0), 2);
+  assertEquals(buffer.at(3), undefined);
+
+  buffer.drop(2);
+  assertEquals(buffer.toArray(), [4]);
+  buffer.push(5);
+  buffer.push(6);
+  assertEquals(buffer.toArray(), [4, 5, 6]);
+
+  buffer.drop(10);
+  assertEquals(buffer.length, 0);
+  buffer.push(7);
+  assertEquals(buffer.toArray(), [7]);
+
+  buffer.clear();
+  assertEquals(buffer.toArray(), []);
+});
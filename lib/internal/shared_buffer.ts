@@ -0,0 +1,85 @@
+/**
+ * A first-in-first-out buffer read by a fixed number of readers, each at its
+ * own position. An item is kept only until every attached reader has read it,
+ * so the buffer holds exactly the items the slowest reader has yet to consume.
+ * @typeParam T - The type of items in the buffer.
+ * @internal
+ */
+export class SharedBuffer<T> {
+  #items = new Array<T | undefined>();
+  #head = 0;
+  /** The absolute position of the item at `#head`. */
+  #offset = 0;
+  /** The absolute position of each reader, or `undefined` once detached. */
+  #positions: Array<number | undefined>;
+
+  constructor(readers: number) {
+    this.#positions = new Array<number | undefined>(readers).fill(0);
+  }
+
+  /** The number of items not yet read by the slowest attached reader. */
+  get length(): number {
+    return this.#items.length - this.#head;
+  }
+
+  /** The number of readers which haven't been detached. */
+  get attached(): number {
+    return this.#positions.filter((position) => position !== undefined).length;
+  }
+
+  /** Whether `reader` has been detached. */
+  isDetached(reader: number): boolean {
+    return this.#positions[reader] === undefined;
+  }
+
+  /** Whether there is an item buffered for `reader` to read. */
+  has(reader: number): boolean {
+    const position = this.#positions[reader];
+    return position !== undefined && position < this.#offset + this.length;
+  }
+
+  /** Adds an item to the end of the buffer. */
+  push(item: T): void {
+    // nobody is left to read it
+    if (this.attached === 0) return;
+    this.#items.push(item);
+  }
+
+  /**
+   * Reads the next item for `reader` and advances its position. Only call this
+   * after checking {@link has}.
+   */
+  take(reader: number): T {
+    const position = this.#positions[reader] as number;
+    const item = this.#items[this.#head + position - this.#offset] as T;
+    this.#positions[reader] = position + 1;
+    this.#trim();
+    return item;
+  }
+
+  /** Stops tracking `reader`, so the buffer no longer waits for it. */
+  detach(reader: number): void {
+    this.#positions[reader] = undefined;
+    this.#trim();
+  }
+
+  #trim(): void {
+    let slowest = Infinity;
+    for (const position of this.#positions) {
+      if (position !== undefined && position < slowest) slowest = position;
+    }
+    if (slowest === Infinity) slowest = this.#offset + this.length;
+
+    while (this.#offset < slowest) {
+      // release references so read items can be garbage collected
+      this.#items[this.#head++] = undefined;
+      this.#offset++;
+    }
+
+    // compact once the read items make up most of the array
+    if (this.#head > 16 && this.#head * 2 > this.#items.length) {
+      this.#items = this.#items.slice(this.#head);
+      this.#head = 0;
+    }
+  }
+}
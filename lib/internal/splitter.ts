@@ -0,0 +1,62 @@
+/**
+ * Splits text arriving in chunks on a delimiter, including delimiters which
+ * span chunk boundaries. Text after the last delimiter is held back until
+ * more arrives.
+ * @internal
+ */
+export class Splitter {
+  #delimiter: string;
+  #keepEnds: boolean;
+  #buffer = "";
+  // where to resume searching, so each chunk is only scanned once
+  #searchFrom = 0;
+
+  /**
+   * @param delimiter - The non-empty delimiter to split on.
+   * @param keepEnds - Whether to keep the delimiter at the end of each piece.
+   */
+  constructor(delimiter: string, keepEnds: boolean) {
+    this.#delimiter = delimiter;
+    this.#keepEnds = keepEnds;
+  }
+
+  /** Adds a chunk of text, and returns the pieces it completes. */
+  push(chunk: string): string[] {
+    const delimiter = this.#delimiter;
+    const buffer = this.#buffer + chunk;
+    const pieces = new Array<string>();
+    let start = 0;
+    let end = buffer.indexOf(delimiter, this.#searchFrom);
+    while (end !== -1) {
+      const next = end + delimiter.length;
+      pieces.push(buffer.slice(start, this.#keepEnds ? next : end));
+      start = next;
+      end = buffer.indexOf(delimiter, start);
+    }
+
+    this.#buffer = buffer.slice(start);
+    // a delimiter may yet start in the last `delimiter.length - 1` characters
+    this.#searchFrom = Math.max(
+      0,
+      this.#buffer.length - delimiter.length + 1,
+    );
+    return pieces;
+  }
+
+  /** Takes the text after the last delimiter. */
+  end(): string {
+    const rest = this.#buffer;
+    this.#buffer = "";
+    this.#searchFrom = 0;
+    return rest;
+  }
+}
+
+/**
+ * Removes a line's ending, or, if `crlf` is `false`, only the `"\n"`.
+ * @internal
+ */
+export function trimLineEnd(line: string, crlf: boolean): string {
+  if (!line.endsWith("\n")) return line;
+  return line.slice(0, crlf && line.endsWith("\r\n") ? -2 : -1);
+}
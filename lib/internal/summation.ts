@@ -0,0 +1,35 @@
+/**
+ * A running sum using Neumaier's improvement on
+ * [Kahan summation](https://en.wikipedia.org/wiki/Kahan_summation_algorithm#Further_enhancements),
+ * which keeps track of the low-order bits lost by each addition, so the error
+ * doesn't grow with the number of terms.
+ * @internal
+ */
+export class CompensatedSum {
+  #sum = 0;
+  #compensation = 0;
+
+  /** The sum of the terms added so far. */
+  get value(): number {
+    // the compensation is meaningless once the sum has overflowed
+    return Number.isFinite(this.#sum)
+      ? this.#sum + this.#compensation
+      : this.#sum;
+  }
+
+  add(term: number): void {
+    const sum = this.#sum + term;
+    if (Math.abs(this.#sum) >= Math.abs(term)) {
+      this.#compensation += this.#sum - sum + term;
+    } else {
+      this.#compensation += term - sum + this.#sum;
+    }
+    this.#sum = sum;
+  }
+
+  /** Multiplies the sum so far by `factor`. */
+  scale(factor: number): void {
+    this.#sum *= factor;
+    this.#compensation *= factor;
+  }
+}
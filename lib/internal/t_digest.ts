@@ -0,0 +1,142 @@
+/**
+ * A cluster of nearby values in a {@link TDigest}.
+ * @internal
+ */
+export interface Centroid {
+  mean: number;
+  weight: number;
+}
+
+/**
+ * A merging [t-digest](https://arxiv.org/abs/1902.04023), which summarises a
+ * distribution as a bounded number of weighted centroids. Centroids are kept
+ * small near the tails (using the arcsine scale function), so extreme
+ * quantiles stay accurate. Incoming values are buffered, and merged into the
+ * centroids in sorted batches.
+ * @internal
+ */
+export class TDigest {
+  #compression: number;
+  #centroids = new Array<Centroid>();
+  #buffer = new Array<Centroid>();
+  #count = 0;
+  #min = Infinity;
+  #max = -Infinity;
+
+  constructor(compression: number) {
+    this.#compression = compression;
+  }
+
+  /** The total weight of the values added. */
+  get count(): number {
+    return this.#count;
+  }
+
+  /** The smallest value added. */
+  get min(): number {
+    return this.#min;
+  }
+
+  /** The largest value added. */
+  get max(): number {
+    return this.#max;
+  }
+
+  add(value: number, weight: number): void {
+    this.#buffer.push({ mean: value, weight });
+    this.#count += weight;
+    this.#min = Math.min(this.#min, value);
+    this.#max = Math.max(this.#max, value);
+    if (this.#buffer.length >= this.#compression * 5) this.#flush();
+  }
+
+  /** Adds the centroids of another digest, with its extremes. */
+  merge(centroids: Centroid[], min: number, max: number): void {
+    for (const { mean, weight } of centroids) {
+      this.#buffer.push({ mean, weight });
+      this.#count += weight;
+    }
+    this.#min = Math.min(this.#min, min);
+    this.#max = Math.max(this.#max, max);
+    if (this.#buffer.length >= this.#compression * 5) this.#flush();
+  }
+
+  /** Gets the centroids, sorted by mean. */
+  centroids(): Centroid[] {
+    this.#flush();
+    return this.#centroids.map((centroid) => ({ ...centroid }));
+  }
+
+  quantile(q: number): number {
+    this.#flush();
+    const centroids = this.#centroids;
+    if (centroids.length === 0) return NaN;
+    if (q <= 0) return this.#min;
+    if (q >= 1) return this.#max;
+
+    const target = q * this.#count;
+    // each centroid is taken to be centred on the middle of its weight
+    let cumulative = centroids[0].weight / 2;
+    if (target < cumulative) {
+      return interpolate(this.#min, centroids[0].mean, target / cumulative);
+    }
+    for (let i = 1; i < centroids.length; i++) {
+      const gap = (centroids[i - 1].weight + centroids[i].weight) / 2;
+      if (target < cumulative + gap) {
+        return interpolate(
+          centroids[i - 1].mean,
+          centroids[i].mean,
+          (target - cumulative) / gap,
+        );
+      }
+      cumulative += gap;
+    }
+    const last = centroids[centroids.length - 1];
+    return interpolate(
+      last.mean,
+      this.#max,
+      (target - cumulative) / (last.weight / 2),
+    );
+  }
+
+  #flush(): void {
+    if (this.#buffer.length === 0) return;
+    const sorted = this.#centroids.concat(this.#buffer)
+      .sort((a, b) => a.mean - b.mean);
+    this.#buffer = [];
+
+    const merged = new Array<Centroid>();
+    let current = { ...sorted[0] };
+    let before = 0;
+    let limit = this.#limit(0);
+    for (let i = 1; i < sorted.length; i++) {
+      const next = sorted[i];
+      if ((before + current.weight + next.weight) / this.#count <= limit) {
+        current.weight += next.weight;
+        current.mean += (next.mean - current.mean) * next.weight /
+          current.weight;
+      } else {
+        merged.push(current);
+        before += current.weight;
+        limit = this.#limit(before / this.#count);
+        current = { ...next };
+      }
+    }
+    merged.push(current);
+    this.#centroids = merged;
+  }
+
+  /**
+   * The largest quantile a centroid starting at quantile `q` may reach, i.e.
+   * one unit further along the scale function `k(q) = δ / 2π · asin(2q - 1)`.
+   */
+  #limit(q: number): number {
+    const scale = this.#compression / (2 * Math.PI);
+    const k = scale * Math.asin(2 * q - 1) + 1;
+    return k >= this.#compression / 4 ? 1 : (Math.sin(k / scale) + 1) / 2;
+  }
+}
+
+function interpolate(a: number, b: number, t: number): number {
+  return a + (b - a) * Math.min(Math.max(t, 0), 1);
+}
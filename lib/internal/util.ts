@@ -1,4 +1,4 @@
-import { CurriedIterFunction, IterFunction } from "../types.ts";
+import { AnyIterable, CurriedIterFunction, IterFunction } from "../types.ts";
 
 /**
  * Creates a function which always returns the same value.
@@ -60,3 +60,169 @@ export function curryIterFunction<T, U, Args extends unknown[]>(
 export function isIterable(x: any): x is Iterable<any> {
   return typeof x[Symbol.iterator] === "function";
 }
+
+/**
+ * Compares two values with the
+ * [SameValueZero](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Equality_comparisons_and_sameness#same-value-zero_equality)
+ * algorithm, as used by `Map` and `Set`.
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns Whether `a` and `b` are the same.
+ * @internal
+ */
+export function sameValueZero(a: unknown, b: unknown): boolean {
+  return a === b || (a !== a && b !== b);
+}
+
+/**
+ * Closes iterators by calling their `return()` method, if they have one.
+ * @param iterators - The iterators to close.
+ * @internal
+ */
+export function closeIterators(iterators: Iterable<Iterator<unknown>>): void {
+  for (const iterator of iterators) iterator.return?.();
+}
+
+/**
+ * Opens an iterator over each of `iterables`. If opening one throws, the
+ * iterators already opened are closed before the error is rethrown.
+ * @param iterables - The iterables to open.
+ * @typeParam T - The iterables' item type.
+ * @returns An iterator over each iterable, in order.
+ * @internal
+ */
+export function openIterators<T>(
+  iterables: ReadonlyArray<Iterable<T>>,
+): Iterator<T>[] {
+  const iterators = new Array<Iterator<T>>();
+  try {
+    for (const it of iterables) iterators.push(it[Symbol.iterator]());
+  } catch (error) {
+    closeIterators(iterators);
+    throw error;
+  }
+  return iterators;
+}
+
+/**
+ * Gets the next result of `iterators[i]`, recording in `done[i]` whether it
+ * has finished. An iterator whose `next()` throws counts as finished, so that
+ * it isn't closed afterwards.
+ * @param iterators - The iterators being advanced.
+ * @param done - Whether each iterator has finished.
+ * @param i - The index of the iterator to advance.
+ * @returns The iterator result.
+ * @internal
+ */
+export function nextOrFinish<T>(
+  iterators: Iterator<T>[],
+  done: boolean[],
+  i: number,
+): IteratorResult<T> {
+  done[i] = true;
+  const next = iterators[i].next();
+  done[i] = next.done === true;
+  return next;
+}
+
+/**
+ * Yields the items of the iterator opened by `open` until it finishes or
+ * throws. An error thrown while opening or advancing the iterator is returned
+ * rather than thrown, whereas one thrown into the generator by its consumer
+ * propagates as usual, closing the iterator.
+ * @param open - Opens the iterator.
+ * @typeParam T - The iterator's item type.
+ * @returns The error thrown by the iterator, if any.
+ * @internal
+ */
+export function* untilError<T>(
+  open: () => Iterator<T>,
+): Generator<T, { error: unknown } | undefined, undefined> {
+  let iterator: Iterator<T>;
+  try {
+    iterator = open();
+  } catch (error) {
+    return { error };
+  }
+  let done = false;
+  try {
+    while (true) {
+      let next: IteratorResult<T>;
+      try {
+        next = iterator.next();
+      } catch (error) {
+        // an iterator which throws is finished, so it mustn't be closed
+        done = true;
+        return { error };
+      }
+      if (next.done) {
+        done = true;
+        return undefined;
+      }
+      yield next.value;
+    }
+  } finally {
+    if (!done) iterator.return?.();
+  }
+}
+
+/**
+ * The async counterpart of {@link untilError}. `open` may return a promise.
+ * @param open - Opens the iterator.
+ * @typeParam T - The iterator's item type.
+ * @returns The error thrown by the iterator, if any.
+ * @internal
+ */
+export async function* untilErrorAsync<T>(
+  open: () => AsyncIterator<T> | Promise<AsyncIterator<T>>,
+): AsyncGenerator<T, { error: unknown } | undefined, undefined> {
+  let iterator: AsyncIterator<T>;
+  try {
+    iterator = await open();
+  } catch (error) {
+    return { error };
+  }
+  let done = false;
+  try {
+    while (true) {
+      let next: IteratorResult<T>;
+      try {
+        next = await iterator.next();
+      } catch (error) {
+        done = true;
+        return { error };
+      }
+      if (next.done) {
+        done = true;
+        return undefined;
+      }
+      yield next.value;
+    }
+  } finally {
+    if (!done) await iterator.return?.();
+  }
+}
+
+/**
+ * Check if a value is an async iterable.
+ * @param x - The value to be checked
+ * @returns Whether the value implements `AsyncIterable`
+ */
+// deno-lint-ignore no-explicit-any
+export function isAsyncIterable(x: any): x is AsyncIterable<any> {
+  return x != null && typeof x[Symbol.asyncIterator] === "function";
+}
+
+/**
+ * Gets an async iterator from either an async or a sync iterable.
+ * @param it - The iterable.
+ * @typeParam T - The iterable's item type.
+ * @returns An async iterator over the items of `it`.
+ * @internal
+ */
+export function getAsyncIterator<T>(it: AnyIterable<T>): AsyncIterator<T> {
+  if (isAsyncIterable(it)) return it[Symbol.asyncIterator]();
+  return (async function* () {
+    yield* it;
+  })();
+}
@@ -0,0 +1,309 @@
+import { RandomSource } from "./types.ts";
+
+/**
+ * The pseudorandom number generation algorithms available to
+ * {@link seededRandom | `seededRandom`}.
+ * - [`"xoshiro128**"`](https://prng.di.unimi.it/) is fast, with 128 bits of
+ *   state and excellent statistical quality.
+ * - [`"pcg32"`](https://www.pcg-random.org/) (XSH RR) has 128 bits of state
+ *   and excellent statistical quality, but is slower as it needs 64-bit
+ *   arithmetic.
+ * - [`"mulberry32"`](https://gist.github.com/tommyettinger/46a874533244883189143505d203312c)
+ *   is the fastest, but has only 32 bits of state, so it repeats after 2³²
+ *   numbers.
+ */
+export type PrngAlgorithm = "xoshiro128**" | "pcg32" | "mulberry32";
+
+/**
+ * A snapshot of the state of a {@link SeededRandom}, which can be serialised
+ * (e.g. with `JSON.stringify`) and passed to
+ * {@link seededRandom | `seededRandom`} to resume where it left off.
+ */
+export interface RandomState {
+  /** The algorithm the state is for. */
+  algorithm: PrngAlgorithm;
+  /** The internal state, as unsigned 32-bit integers. */
+  state: number[];
+}
+
+/**
+ * A seeded pseudorandom number generator, created by
+ * {@link seededRandom | `seededRandom`}. Calling it returns the next number from
+ * 0 (inclusive) to 1 (exclusive), so it can be used anywhere a
+ * {@link RandomSource} (like `Math.random`) is accepted.
+ */
+export interface SeededRandom extends RandomSource {
+  /** Gets the next unsigned 32-bit integer. */
+  uint32(): number;
+  /** Gets a serialisable snapshot of the current state. */
+  state(): RandomState;
+}
+
+interface Prng {
+  next(): number;
+  state(): number[];
+}
+
+const stateLengths: Record<PrngAlgorithm, number> = {
+  "xoshiro128**": 4,
+  "pcg32": 4,
+  "mulberry32": 1,
+};
+
+function isAlgorithm(x: unknown): x is PrngAlgorithm {
+  return typeof x === "string" && Object.keys(stateLengths).includes(x);
+}
+
+function mulberry32([seed]: number[]): Prng {
+  let a = seed;
+  return {
+    next() {
+      a = (a + 0x6d2b79f5) | 0;
+      let t = Math.imul(a ^ (a >>> 15), a | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return (t ^ (t >>> 14)) >>> 0;
+    },
+    state: () => [a >>> 0],
+  };
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+function xoshiro128ss(state: number[]): Prng {
+  let [s0, s1, s2, s3] = state;
+  return {
+    next() {
+      const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+      const t = s1 << 9;
+      s2 ^= s0;
+      s3 ^= s1;
+      s1 ^= s2;
+      s0 ^= s3;
+      s2 ^= t;
+      s3 = rotl(s3, 11);
+      return result;
+    },
+    state: () => [s0, s1, s2, s3].map((word) => word >>> 0),
+  };
+}
+
+const pcgMultiplier = 6364136223846793005n;
+
+function pcgStep(state: bigint, increment: bigint): bigint {
+  return BigInt.asUintN(64, state * pcgMultiplier + increment);
+}
+
+function toWords(x: bigint): number[] {
+  return [Number(BigInt.asUintN(32, x >> 32n)), Number(BigInt.asUintN(32, x))];
+}
+
+function fromWords(high: number, low: number): bigint {
+  return (BigInt(high) << 32n) | BigInt(low);
+}
+
+function pcg32([stateHigh, stateLow, incHigh, incLow]: number[]): Prng {
+  let state = fromWords(stateHigh, stateLow);
+  const increment = fromWords(incHigh, incLow);
+  return {
+    next() {
+      const old = state;
+      state = pcgStep(old, increment);
+      const xorShifted = Number(
+        BigInt.asUintN(32, ((old >> 18n) ^ old) >> 27n),
+      );
+      const rotation = Number(old >> 59n);
+      return ((xorShifted >>> rotation) | (xorShifted << (-rotation & 31))) >>>
+        0;
+    },
+    state: () => [...toWords(state), ...toWords(increment)],
+  };
+}
+
+const algorithms: Record<PrngAlgorithm, (state: number[]) => Prng> = {
+  "xoshiro128**": xoshiro128ss,
+  "pcg32": pcg32,
+  "mulberry32": mulberry32,
+};
+
+/** Derives the initial state of `algorithm` from a numeric seed. */
+function seedState(algorithm: PrngAlgorithm, seed: number): number[] {
+  const low = seed >>> 0;
+  const high = Math.floor(seed / 2 ** 32) >>> 0;
+  // a 32-bit seed which takes both halves of `seed` into account
+  const mixed = (low ^ Math.imul(high, 0x9e3779b9)) >>> 0;
+
+  switch (algorithm) {
+    case "mulberry32":
+      return [mixed];
+    case "xoshiro128**": {
+      // expand the seed, so that similar seeds give unrelated states
+      const expander = mulberry32([mixed]);
+      return [
+        expander.next(),
+        expander.next(),
+        expander.next(),
+        expander.next(),
+      ];
+    }
+    case "pcg32": {
+      // seeded like `pcg32_srandom_r`, on the stream used by the reference
+      // implementation's demo, so that outputs match its published values
+      const increment = (54n << 1n) | 1n;
+      const state = pcgStep(
+        pcgStep(0n, increment) + BigInt.asUintN(64, BigInt(seed)),
+        increment,
+      );
+      return [...toWords(state), ...toWords(increment)];
+    }
+  }
+}
+
+/**
+ * Creates a seeded pseudorandom number generator, which produces the same
+ * sequence of numbers every time it is given the same seed. Pass it to
+ * {@link create.randomNumbers | `create.randomNumbers`} (or any function which
+ * takes a {@link RandomSource}) for reproducible results.
+ *
+ * Its state can be saved with `state()` and restored by passing the snapshot
+ * back to `seededRandom`.
+ * @param seed - An integer seed, or a {@link RandomState} snapshot to resume
+ * from.
+ * @param algorithm - The algorithm to use when seeding with an integer (see
+ * {@link PrngAlgorithm}). Defaults to `"xoshiro128**"`.
+ * @returns A seeded generator.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const random = iter.seededRandom(42);
+ * console.log(random()); // -> 0.15361988870427012
+ *
+ * const saved = JSON.stringify(random.state());
+ * const a = random();
+ * const resumed = iter.seededRandom(JSON.parse(saved));
+ * console.log(resumed() === a); // -> true
+ *
+ * const dice = iter.create.randomIntegers(1, 6, iter.seededRandom(7));
+ * console.log(...iter.take(dice, 5)); // -> 6 2 3 2 2
+ * ```
+ */
+export function seededRandom(
+  seed: number | RandomState,
+  algorithm: PrngAlgorithm = "xoshiro128**",
+): SeededRandom {
+  let state: number[];
+  if (typeof seed === "number") {
+    if (!Number.isSafeInteger(seed)) {
+      throw new RangeError(
+        `Expected \`seed\` to be a safe integer, got \`${seed}\``,
+      );
+    }
+    if (!isAlgorithm(algorithm)) {
+      throw new RangeError(
+        `Expected \`algorithm\` to be one of ${
+          Object.keys(stateLengths).map((name) => `\`${name}\``).join(", ")
+        }, got \`${algorithm}\``,
+      );
+    }
+    state = seedState(algorithm, seed);
+  } else {
+    algorithm = seed.algorithm;
+    state = seed.state;
+    if (
+      !isAlgorithm(algorithm) ||
+      !Array.isArray(state) ||
+      state.length !== stateLengths[algorithm] ||
+      !state.every((word) => word === word >>> 0) ||
+      // xoshiro's all-zero state is a fixed point
+      (algorithm === "xoshiro128**" && state.every((word) => word === 0))
+    ) {
+      throw new RangeError(
+        `Expected \`seed\` to be a valid random state, got \`${
+          JSON.stringify(seed)
+        }\``,
+      );
+    }
+  }
+
+  const prng = algorithms[algorithm](state);
+  const random = () => prng.next() / 2 ** 32;
+  return Object.assign(random, {
+    uint32: () => prng.next(),
+    state: (): RandomState => ({ algorithm, state: prng.state() }),
+  });
+}
+
+/**
+ * Picks a random integer from `min` to `max`, both inclusive.
+ * @param min - The smallest possible result.
+ * @param max - The largest possible result.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @returns An integer from `min` to `max`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.randomInteger(1, 6)); // ~> 4
+ * ```
+ */
+export function randomInteger(
+  min: number,
+  max: number,
+  random: RandomSource = Math.random,
+): number {
+  if (!(Number.isSafeInteger(min) && Number.isSafeInteger(max) && min <= max)) {
+    throw new RangeError(
+      `Expected \`min\` and \`max\` to be integers with \`min <= max\`, got \`${min}\` and \`${max}\``,
+    );
+  }
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Randomly picks `true` or `false`.
+ * @param probability - The probability of `true`, from 0 to 1. Defaults to
+ * `0.5`.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @returns `true` with probability `probability`, otherwise `false`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.randomBoolean(0.9)); // ~> true
+ * ```
+ */
+export function randomBoolean(
+  probability = 0.5,
+  random: RandomSource = Math.random,
+): boolean {
+  if (!(probability >= 0 && probability <= 1)) {
+    throw new RangeError(
+      `Expected \`probability\` to be a number from 0 to 1, got \`${probability}\``,
+    );
+  }
+  return random() < probability;
+}
+
+/**
+ * Picks a random item from an array, each with equal probability.
+ * @param items - The array to pick from.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @typeParam T - The type of items in `items`.
+ * @returns A random item of `items`, or `undefined` if it is empty.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.randomPick(["rock", "paper", "scissors"])); // ~> "paper"
+ * ```
+ */
+export function randomPick<T>(
+  items: ArrayLike<T>,
+  random: RandomSource = Math.random,
+): T | undefined {
+  return items.length === 0
+    ? undefined
+    : items[Math.floor(random() * items.length)];
+}
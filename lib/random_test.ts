@@ -0,0 +1,113 @@
+import { assert, assertEquals, assertThrows } from "../test_deps.ts";
+import * as random from "./random.ts";
+
+function uint32s(generator: random.SeededRandom, n: number): number[] {
+  return Array.from({ length: n }, () => generator.uint32());
+}
+
+Deno.test("seededRandom matches reference outputs", () => {
+  assertEquals(
+    uint32s(
+      random.seededRandom({ algorithm: "xoshiro128**", state: [1, 2, 3, 4] }),
+      6,
+    ),
+    [11520, 0, 5927040, 70819200, 2031721883, 1637235492],
+  );
+  // `pcg32_srandom_r(&rng, 42, 54)` from the reference implementation
+  assertEquals(
+    uint32s(random.seededRandom(42, "pcg32"), 6),
+    [
+      0xa15c02b7,
+      0x7b47f409,
+      0xba1d3330,
+      0x83d2f293,
+      0xbfa4784b,
+      0xcbed606e,
+    ],
+  );
+  assertEquals(
+    uint32s(random.seededRandom(0, "mulberry32"), 3),
+    [1144304738, 1416247, 958946056],
+  );
+});
+
+Deno.test("seededRandom is deterministic", () => {
+  for (const algorithm of ["xoshiro128**", "pcg32", "mulberry32"] as const) {
+    const a = random.seededRandom(123, algorithm);
+    const b = random.seededRandom(123, algorithm);
+    const c = random.seededRandom(124, algorithm);
+    const numbers = Array.from({ length: 100 }, () => a());
+
+    assertEquals(numbers, Array.from({ length: 100 }, () => b()));
+    assert(numbers.some((n) => n !== c()));
+    assert(numbers.every((n) => n >= 0 && n < 1));
+  }
+});
+
+Deno.test("seededRandom state can be serialised and resumed", () => {
+  for (const algorithm of ["xoshiro128**", "pcg32", "mulberry32"] as const) {
+    const original = random.seededRandom(2 ** 40 + 5, algorithm);
+    uint32s(original, 10);
+
+    const saved = JSON.stringify(original.state());
+    const resumed = random.seededRandom(JSON.parse(saved));
+
+    assertEquals(resumed.state(), original.state());
+    assertEquals(uint32s(resumed, 10), uint32s(original, 10));
+  }
+});
+
+Deno.test("seededRandom validates its arguments", () => {
+  assertThrows(() => random.seededRandom(1.5), RangeError);
+  assertThrows(() => random.seededRandom(2 ** 53), RangeError);
+  assertThrows(
+    () => random.seededRandom(1, "nope" as random.PrngAlgorithm),
+    RangeError,
+  );
+  assertThrows(
+    () => random.seededRandom({ algorithm: "pcg32", state: [1, 2] }),
+    RangeError,
+  );
+  assertThrows(
+    () => random.seededRandom({ algorithm: "mulberry32", state: [-1] }),
+    RangeError,
+  );
+  assertThrows(
+    () =>
+      random.seededRandom({ algorithm: "xoshiro128**", state: [0, 0, 0, 0] }),
+    RangeError,
+  );
+});
+
+Deno.test("randomInteger", () => {
+  const generator = random.seededRandom(5);
+  const seen = new Set<number>();
+  for (let i = 0; i < 200; i++) {
+    const n = random.randomInteger(-2, 2, generator);
+    assert(Number.isInteger(n) && n >= -2 && n <= 2);
+    seen.add(n);
+  }
+
+  assertEquals(seen.size, 5);
+  assertEquals(random.randomInteger(3, 3), 3);
+  assertEquals(random.randomInteger(0, 9, () => 0.9999999), 9);
+  assertThrows(() => random.randomInteger(1, 0), RangeError);
+  assertThrows(() => random.randomInteger(0, 1.5), RangeError);
+});
+
+Deno.test("randomBoolean", () => {
+  assertEquals(random.randomBoolean(0), false);
+  assertEquals(random.randomBoolean(1), true);
+  assertEquals(random.randomBoolean(0.5, () => 0.49), true);
+  assertEquals(random.randomBoolean(0.5, () => 0.5), false);
+  assertThrows(() => random.randomBoolean(-0.1), RangeError);
+  assertThrows(() => random.randomBoolean(NaN), RangeError);
+});
+
+Deno.test("randomPick", () => {
+  const items = ["a", "b", "c"];
+
+  assertEquals(random.randomPick(items, () => 0), "a");
+  assertEquals(random.randomPick(items, () => 0.9999), "c");
+  assertEquals(random.randomPick([]), undefined);
+});
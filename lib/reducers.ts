@@ -1,5 +1,12 @@
 import { kComb } from "./internal/util.ts";
-import { IterablePredicateCallback } from "./types.ts";
+import { CompensatedSum } from "./internal/summation.ts";
+import { TDigest } from "./internal/t_digest.ts";
+import { Reservoir, WeightedReservoir } from "./internal/reservoir.ts";
+import {
+  IterablePredicateCallback,
+  IterableTypeGuardCallback,
+  RandomSource,
+} from "./types.ts";
 import { map } from "./transformers.ts";
 
 /**
@@ -227,6 +234,14 @@ export function includes<T>(it: Iterable<T>, value: T): boolean {
  * // Find a solution to n³ = 3n, n ∈ ℕ
  * // const solution2 = iter.find(naturals, (n) => n ** 3 === 3 * n);
  */
+export function find<T, S extends T>(
+  it: Iterable<T>,
+  predicate: IterableTypeGuardCallback<T, S>,
+): S | undefined;
+export function find<T>(
+  it: Iterable<T>,
+  predicate: IterablePredicateCallback<T>,
+): T | undefined;
 export function find<T>(
   it: Iterable<T>,
   predicate: IterablePredicateCallback<T>,
@@ -284,10 +299,42 @@ export function findIndex<T>(
 }
 
 /**
- * Finds the sum of all items in `it`.
+ * Options for {@link sum | `sum`}, {@link average | `average`} and
+ * {@link norm | `norm`}.
+ */
+export interface PrecisionOptions {
+  /**
+   * Whether to use compensated (Kahan–Babuška–Neumaier) summation, which keeps
+   * the rounding error from growing with the number of items, at the cost of a
+   * few more operations per item. For {@link norm | `norm`}, this also scales
+   * the items like `Math.hypot`, so that squaring them can't overflow or
+   * underflow. Defaults to `false`.
+   */
+  precise?: boolean;
+}
+
+/**
+ * Options for {@link sum | `sum`} and {@link product | `product`} on `bigint`s.
+ */
+export interface BigIntOptions {
+  /**
+   * Marks the items as `bigint`s, so that an empty iterable gives `0n` or `1n`
+   * rather than the `number` `0` or `1`, as there is no item to tell which type
+   * it holds.
+   */
+  bigint: true;
+}
+
+/**
+ * Finds the sum of all items in `it`, which may be `number`s or `bigint`s. The
+ * result is of the same type as the items, except that an empty iterable sums
+ * to the `number` `0` unless `{ bigint: true }` is passed, as there is no item
+ * to tell which type it holds.
  *
  * :warning: When ran on an endless iterable, this never returns.
  * @param it - The iterable to sum.
+ * @param options - See {@link PrecisionOptions} for `number`s, and
+ * {@link BigIntOptions} for `bigint`s.
  * @returns The sum of all items in `it`.
  * @example
  * ```ts
@@ -295,10 +342,59 @@ export function findIndex<T>(
  *
  * const myRange = iter.create.range(1, 100);
  * console.log(iter.sum(myRange)); // -> 5050
+ *
+ * const tenths = iter.map(iter.create.range(9), () => 0.1);
+ * console.log(iter.sum(tenths)); // -> 0.9999999999999999
+ * console.log(iter.sum(tenths, { precise: true })); // -> 1
+ *
+ * console.log(iter.sum([2n ** 64n, 1n])); // -> 18446744073709551617n
+ * console.log(iter.sum([], { bigint: true })); // -> 0n
  * ```
  */
-export function sum(it: Iterable<number>): number {
-  return reduce(it, (acc, n) => acc + n, 0, (acc) => isNaN(acc));
+export function sum(it: Iterable<number>, options?: PrecisionOptions): number;
+export function sum(it: Iterable<bigint>, options?: BigIntOptions): bigint;
+export function sum(
+  it: Iterable<number> | Iterable<bigint>,
+  { precise = false, bigint = false }: PrecisionOptions & {
+    bigint?: boolean;
+  } = {},
+): number | bigint {
+  if (precise) return compensatedSum(it as Iterable<number>).sum;
+  return reduceNumeric(it, 0, bigint, (acc, n) => acc + n, Number.isNaN);
+}
+
+/**
+ * Reduces an iterable of either `number`s or `bigint`s, starting from the
+ * `number` or `bigint` version of `identity` to match the items. An empty
+ * iterable gives the `bigint` version only if `bigint` is set.
+ * @private
+ */
+function reduceNumeric(
+  it: Iterable<number> | Iterable<bigint>,
+  identity: number,
+  bigint: boolean,
+  f: (acc: number, n: number) => number,
+  stop: (acc: number | bigint) => boolean,
+): number | bigint {
+  let accumulator: number | bigint | undefined;
+  for (const n of it) {
+    accumulator ??= typeof n === "bigint" ? BigInt(identity) : identity;
+    // the operators work the same for both types, as long as they aren't mixed
+    accumulator = f(accumulator as number, n as number);
+    if (stop(accumulator)) break;
+  }
+  return accumulator ?? (bigint ? BigInt(identity) : identity);
+}
+
+function compensatedSum(it: Iterable<number>): { sum: number; count: number } {
+  const total = new CompensatedSum();
+  let count = 0;
+  for (const n of it) {
+    total.add(n);
+    if (isNaN(n)) break;
+    count++;
+  }
+  return { sum: total.value, count };
 }
 
 /**
@@ -306,6 +402,7 @@ export function sum(it: Iterable<number>): number {
  *
  * :warning: When ran on an endless iterable, this never returns.
  * @param it - The iterable to calculate the average of.
+ * @param options - See {@link PrecisionOptions}.
  * @returns The average of all items in `it`.
  * @example
  * ```ts
@@ -314,7 +411,14 @@ export function sum(it: Iterable<number>): number {
  * const myRange = iter.create.range(1, 100);
  * console.log(iter.average(myRange)); // -> 50.5
  */
-export function average(it: Iterable<number>): number {
+export function average(
+  it: Iterable<number>,
+  { precise = false }: PrecisionOptions = {},
+): number {
+  if (precise) {
+    const { sum, count } = compensatedSum(it);
+    return sum / count;
+  }
   let count = 0;
   let accumulator = 0;
   for (const item of it) {
@@ -326,11 +430,15 @@ export function average(it: Iterable<number>): number {
 }
 
 /**
- * Finds the product of all items in `it`.
+ * Finds the product of all items in `it`, which may be `number`s or `bigint`s.
+ * The result is of the same type as the items, except that an empty iterable
+ * gives the `number` `1` unless `{ bigint: true }` is passed, as there is no
+ * item to tell which type it holds.
  *
  * :warning: When ran on an endless iterable without any zeros, this never
  * returns.
  * @param it - The iterable to sum.
+ * @param options - See {@link BigIntOptions}. Only applies to `bigint`s.
  * @returns The product of all items in `it`.
  * @example
  * ```ts
@@ -339,6 +447,10 @@ export function average(it: Iterable<number>): number {
  * const myRange = iter.create.range(1, 10);
  * console.log(iter.product(myRange)); // -> 3628800
  *
+ * // `bigint`s don't overflow
+ * console.log(iter.product(iter.create.range(1n, 25n)));
+ * // -> 15511210043330985984000000n
+ *
  * // Demonstrating laziness
  * const rangeWithZero = iter.create.range(-1, 10);
  * const observerdIter = iter.lazyObserver(
@@ -350,8 +462,19 @@ export function average(it: Iterable<number>): number {
  * console.log(iter.product(observerdIter)); // -> -0
  * ```
  */
-export function product(it: Iterable<number>): number {
-  return reduce(it, (acc, n) => acc * n, 1, (acc) => acc === 0 || isNaN(acc));
+export function product(it: Iterable<number>): number;
+export function product(it: Iterable<bigint>, options?: BigIntOptions): bigint;
+export function product(
+  it: Iterable<number> | Iterable<bigint>,
+  { bigint = false }: { bigint?: boolean } = {},
+): number | bigint {
+  return reduceNumeric(
+    it,
+    1,
+    bigint,
+    (acc, n) => acc * n,
+    (acc) => acc === 0 || acc === 0n || Number.isNaN(acc),
+  );
 }
 
 /**
@@ -359,6 +482,7 @@ export function product(it: Iterable<number>): number {
  *
  * :warning: When ran on an endless iterable, this never returns.
  * @param it - The iterable to sum.
+ * @param options - See {@link PrecisionOptions}.
  * @returns The norm of `it`.
  * @example
  * ```ts
@@ -366,10 +490,775 @@ export function product(it: Iterable<number>): number {
  *
  * const pythagoreadQuad = [12, 16, 21];
  * console.log(iter.norm(pythagoreadQuad)); // -> 29
+ *
+ * console.log(iter.norm([3e200, 4e200])); // -> Infinity
+ * console.log(iter.norm([3e200, 4e200], { precise: true })); // ~> 5e+200
  * ```
  */
-export function norm(it: Iterable<number>): number {
+export function norm(
+  it: Iterable<number>,
+  { precise = false }: PrecisionOptions = {},
+): number {
+  if (precise) return scaledNorm(it);
   return Math.sqrt(
     reduce(it, (acc, n) => acc + n ** 2, 0, (acc) => isNaN(acc)),
   );
 }
+
+// Sums the squares in units of a power of two at least as large as every
+// magnitude seen so far, rescaling whenever a larger one comes along, so nothing
+// is squared out of range. Scaling by powers of two is exact.
+function scaledNorm(it: Iterable<number>): number {
+  const squares = new CompensatedSum();
+  let scale = 0;
+  for (const n of it) {
+    const magnitude = Math.abs(n);
+    // like the other precise modes, stop at the first `NaN` (or infinite item)
+    // rather than scanning the rest for an infinite item like `Math.hypot`
+    if (magnitude === Infinity) return Infinity;
+    if (isNaN(magnitude)) return NaN;
+    if (magnitude === 0) continue;
+    if (magnitude > scale) {
+      const next = Math.min(2 ** Math.ceil(Math.log2(magnitude)), 2 ** 1023);
+      squares.scale((scale / next) ** 2);
+      scale = next;
+    }
+    squares.add((magnitude / scale) ** 2);
+  }
+  return scale * Math.sqrt(squares.value);
+}
+
+/**
+ * Key selector callback, used by {@link groupBy | `groupBy`},
+ * {@link countBy | `countBy`} and {@link indexBy | `indexBy`}.
+ * @typeParam T - The type of items being keyed.
+ * @typeParam K - The type of the keys.
+ */
+export interface KeySelectorCallback<T, K> {
+  /**
+   * Key selector callback.
+   * @callback KeySelectorCallback
+   * @param item - The current item.
+   * @param index - The index of the item.
+   * @param it - The iterable.
+   * @returns The key for `item`.
+   */
+  (item: T, index: number, it: Iterable<T>): K;
+}
+
+/**
+ * Groups the items of `it` by the key returned by `keyFn`. Keys are compared
+ * like `Map` keys (with
+ * [SameValueZero](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Equality_comparisons_and_sameness#same-value-zero_equality)),
+ * and both groups and the items within them keep their order of first
+ * appearance.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to group.
+ * @param {KeySelectorCallback} keyFn - A function that accepts up to three
+ * arguments, called once for each item in `it`.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam K - The type of the keys.
+ * @returns A map from each key to the items with that key.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const byParity = iter.groupBy(iter.create.range(1, 6), (n) => n % 2);
+ *
+ * console.log(byParity); // -> Map(2) { 1 => [ 1, 3, 5 ], 0 => [ 2, 4, 6 ] }
+ * ```
+ */
+export function groupBy<T, K>(
+  it: Iterable<T>,
+  keyFn: KeySelectorCallback<T, K>,
+): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  let index = 0;
+  for (const item of it) {
+    const key = keyFn(item, index++, it);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+  return groups;
+}
+
+/**
+ * Splits the items of `it` into those for which `predicate` returns true, and
+ * those for which it returns false, keeping their order. If `predicate` is a
+ * type guard, both sides are narrowed accordingly.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to partition.
+ * @param {IterablePredicateCallback} predicate - A function that accepts up to
+ * three arguments, called once for each item in `it`.
+ * @typeParam T - The type of items in `it`.
+ * @returns A pair of arrays, the first holding the items which satisfied
+ * `predicate` and the second holding the rest.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const [evens, odds] = iter.partition(iter.create.range(1, 6), (n) => n % 2 === 0);
+ *
+ * console.log(evens); // -> [ 2, 4, 6 ]
+ * console.log(odds); // -> [ 1, 3, 5 ]
+ * ```
+ */
+export function partition<T, S extends T>(
+  it: Iterable<T>,
+  predicate: IterableTypeGuardCallback<T, S>,
+): [S[], Exclude<T, S>[]];
+export function partition<T>(
+  it: Iterable<T>,
+  predicate: IterablePredicateCallback<T>,
+): [T[], T[]];
+export function partition<T>(
+  it: Iterable<T>,
+  predicate: IterablePredicateCallback<T>,
+): [T[], T[]] {
+  const pass = new Array<T>();
+  const fail = new Array<T>();
+  let index = 0;
+  for (const item of it) {
+    (predicate(item, index++, it) ? pass : fail).push(item);
+  }
+  return [pass, fail];
+}
+
+/**
+ * Counts the items of `it` by the key returned by `keyFn`. Keys are compared
+ * like `Map` keys, and keep their order of first appearance.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to count.
+ * @param {KeySelectorCallback} keyFn - A function that accepts up to three
+ * arguments, called once for each item in `it`.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam K - The type of the keys.
+ * @returns A map from each key to the number of items with that key.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const lengths = iter.countBy(["a", "bb", "cc", "d"], (s) => s.length);
+ *
+ * console.log(lengths); // -> Map(2) { 1 => 2, 2 => 2 }
+ * ```
+ */
+export function countBy<T, K>(
+  it: Iterable<T>,
+  keyFn: KeySelectorCallback<T, K>,
+): Map<K, number> {
+  const counts = new Map<K, number>();
+  let index = 0;
+  for (const item of it) {
+    const key = keyFn(item, index++, it);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Indexes the items of `it` by the key returned by `keyFn`. If more than one
+ * item has the same key, the last one wins (but the key keeps the position of
+ * its first appearance).
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to index.
+ * @param {KeySelectorCallback} keyFn - A function that accepts up to three
+ * arguments, called once for each item in `it`.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam K - The type of the keys.
+ * @returns A map from each key to the last item with that key.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const users = [{ id: 1, name: "Ada" }, { id: 2, name: "Alan" }];
+ * const byId = iter.indexBy(users, (user) => user.id);
+ *
+ * console.log(byId.get(2)?.name); // -> "Alan"
+ * ```
+ */
+export function indexBy<T, K>(
+  it: Iterable<T>,
+  keyFn: KeySelectorCallback<T, K>,
+): Map<K, T> {
+  const index = new Map<K, T>();
+  let i = 0;
+  for (const item of it) index.set(keyFn(item, i++, it), item);
+  return index;
+}
+
+/**
+ * Finds the smallest item in `it`, like `Math.min`. Returns `Infinity` for an
+ * empty iterable, and stops early with `NaN` if any item is `NaN`.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to search.
+ * @returns The smallest item in `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.min([3, 1, 2])); // -> 1
+ * ```
+ */
+export function min(it: Iterable<number>): number {
+  return reduce(it, (acc, n) => Math.min(acc, n), Infinity, isNaN);
+}
+
+/**
+ * Finds the largest item in `it`, like `Math.max`. Returns `-Infinity` for an
+ * empty iterable, and stops early with `NaN` if any item is `NaN`.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to search.
+ * @returns The largest item in `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.max([3, 1, 2])); // -> 3
+ * ```
+ */
+export function max(it: Iterable<number>): number {
+  return reduce(it, (acc, n) => Math.max(acc, n), -Infinity, isNaN);
+}
+
+/**
+ * Finds both the smallest and largest items in `it` in a single traversal.
+ * Follows the same rules as {@link min | `min`} and {@link max | `max`}.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to search.
+ * @returns A tuple of the smallest and largest items in `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.minMax(iter.create.range(1, 10))); // -> [ 1, 10 ]
+ * ```
+ */
+export function minMax(it: Iterable<number>): [number, number] {
+  let smallest = Infinity;
+  let largest = -Infinity;
+  for (const n of it) {
+    smallest = Math.min(smallest, n);
+    largest = Math.max(largest, n);
+    if (isNaN(n)) break;
+  }
+  return [smallest, largest];
+}
+
+/**
+ * Finds the first item in `it` with the smallest key, as returned by `keyFn`.
+ * Keys are compared with `<`.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to search.
+ * @param {KeySelectorCallback} keyFn - A function that accepts up to three
+ * arguments, called once for each item in `it`.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam K - The type of the keys.
+ * @returns The first item with the smallest key, or `undefined` if `it` is
+ * empty.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.minBy(["ccc", "a", "bb", "d"], (s) => s.length)); // -> "a"
+ * ```
+ */
+export function minBy<T, K extends number | string | bigint>(
+  it: Iterable<T>,
+  keyFn: KeySelectorCallback<T, K>,
+): T | undefined {
+  return extremeBy(it, keyFn, (a, b) => a < b);
+}
+
+/**
+ * Finds the first item in `it` with the largest key, as returned by `keyFn`.
+ * Keys are compared with `>`.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to search.
+ * @param {KeySelectorCallback} keyFn - A function that accepts up to three
+ * arguments, called once for each item in `it`.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam K - The type of the keys.
+ * @returns The first item with the largest key, or `undefined` if `it` is
+ * empty.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.maxBy(["ccc", "a", "ddd"], (s) => s.length)); // -> "ccc"
+ * ```
+ */
+export function maxBy<T, K extends number | string | bigint>(
+  it: Iterable<T>,
+  keyFn: KeySelectorCallback<T, K>,
+): T | undefined {
+  return extremeBy(it, keyFn, (a, b) => a > b);
+}
+
+function extremeBy<T, K>(
+  it: Iterable<T>,
+  keyFn: KeySelectorCallback<T, K>,
+  beats: (a: K, b: K) => boolean,
+): T | undefined {
+  let best: { item: T; key: K } | undefined;
+  let index = 0;
+  for (const item of it) {
+    const key = keyFn(item, index++, it);
+    if (best === undefined || beats(key, best.key)) best = { item, key };
+  }
+  return best?.item;
+}
+
+/**
+ * Options for {@link variance | `variance`}, {@link stddev | `stddev`} and
+ * {@link describe | `describe`}.
+ */
+export interface VarianceOptions {
+  /**
+   * Whether to calculate the sample variance (dividing by `n - 1`, i.e. with
+   * Bessel's correction) rather than the population variance (dividing by
+   * `n`). Defaults to `false`.
+   */
+  sample?: boolean;
+}
+
+/**
+ * The running totals of Welford's online algorithm, along with the extremes.
+ * @private
+ */
+interface Moments {
+  count: number;
+  sum: number;
+  mean: number;
+  /** The sum of squared differences from the mean. */
+  m2: number;
+  min: number;
+  max: number;
+}
+
+function moments(it: Iterable<number>): Moments {
+  const acc = {
+    count: 0,
+    sum: 0,
+    mean: 0,
+    m2: 0,
+    min: Infinity,
+    max: -Infinity,
+  };
+  for (const n of it) {
+    acc.count++;
+    acc.sum += n;
+    const delta = n - acc.mean;
+    acc.mean += delta / acc.count;
+    acc.m2 += delta * (n - acc.mean);
+    acc.min = Math.min(acc.min, n);
+    acc.max = Math.max(acc.max, n);
+  }
+  return acc;
+}
+
+function varianceOf({ count, m2 }: Moments, sample: boolean): number {
+  const denominator = sample ? count - 1 : count;
+  return denominator > 0 ? m2 / denominator : NaN;
+}
+
+/**
+ * Calculates the variance of `it` in a single pass, using
+ * [Welford's algorithm](https://en.wikipedia.org/wiki/Algorithms_for_calculating_variance#Welford's_online_algorithm)
+ * to avoid the cancellation errors of the naive sum-of-squares formula.
+ * Returns `NaN` if there are too few items (none for the population variance,
+ * or fewer than two for the sample variance).
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to calculate the variance of.
+ * @param options - See {@link VarianceOptions}.
+ * @returns The variance of the items in `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const data = [2, 4, 4, 4, 5, 5, 7, 9];
+ * console.log(iter.variance(data)); // -> 4
+ * console.log(iter.variance(data, { sample: true })); // -> 4.571428571428571
+ * ```
+ */
+export function variance(
+  it: Iterable<number>,
+  { sample = false }: VarianceOptions = {},
+): number {
+  return varianceOf(moments(it), sample);
+}
+
+/**
+ * Calculates the standard deviation of `it` in a single pass. The square root
+ * of {@link variance | `variance`}, and follows the same rules.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to calculate the standard deviation of.
+ * @param options - See {@link VarianceOptions}.
+ * @returns The standard deviation of the items in `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.stddev([2, 4, 4, 4, 5, 5, 7, 9])); // -> 2
+ * ```
+ */
+export function stddev(
+  it: Iterable<number>,
+  options?: VarianceOptions,
+): number {
+  return Math.sqrt(variance(it, options));
+}
+
+/**
+ * Summary statistics returned by {@link describe | `describe`}.
+ */
+export interface Description {
+  /** The number of items. */
+  count: number;
+  /** The sum of the items. */
+  sum: number;
+  /** The arithmetic mean of the items, or `NaN` if there are none. */
+  mean: number;
+  /** The smallest item, or `Infinity` if there are none. */
+  min: number;
+  /** The largest item, or `-Infinity` if there are none. */
+  max: number;
+  /** The variance of the items. See {@link variance | `variance`}. */
+  variance: number;
+  /** The standard deviation of the items. See {@link stddev | `stddev`}. */
+  stddev: number;
+}
+
+/**
+ * Calculates summary statistics of `it` in a single traversal, so that they can
+ * be found for an iterable which can only be consumed once.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to describe.
+ * @param options - See {@link VarianceOptions}.
+ * @returns The {@link Description} of the items in `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.describe([2, 4, 4, 4, 5, 5, 7, 9]));
+ * // -> { count: 8, sum: 40, mean: 5, min: 2, max: 9, variance: 4, stddev: 2 }
+ * ```
+ */
+export function describe(
+  it: Iterable<number>,
+  { sample = false }: VarianceOptions = {},
+): Description {
+  const acc = moments(it);
+  const variance = varianceOf(acc, sample);
+  return {
+    count: acc.count,
+    sum: acc.sum,
+    mean: acc.count > 0 ? acc.mean : NaN,
+    min: acc.min,
+    max: acc.max,
+    variance,
+    stddev: Math.sqrt(variance),
+  };
+}
+
+function assertQuantile(q: number): void {
+  if (!(q >= 0 && q <= 1)) {
+    throw new RangeError(
+      `Expected \`q\` to be a number from 0 to 1, got \`${q}\``,
+    );
+  }
+}
+
+/**
+ * Finds the exact `q`-quantile(s) of `it`, interpolating linearly between the
+ * closest ranks (the same method as NumPy's default, and R's type 7). Returns
+ * `NaN` for an empty iterable. Every item is held in memory and sorted, so for
+ * very large iterables consider {@link quantileSketch | `quantileSketch`}.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to find the quantile(s) of.
+ * @param q - The quantile to find, from `0` to `1`, or an array of them (which
+ * only sorts the items once).
+ * @returns The `q`-quantile of the items in `it`, or an array of quantiles
+ * matching `q`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const latencies = [12, 15, 11, 90, 14, 13];
+ * console.log(iter.quantile(latencies, 0.5)); // -> 13.5
+ * console.log(iter.quantile(latencies, [0.25, 0.75])); // -> [ 12.25, 14.75 ]
+ * ```
+ */
+export function quantile(it: Iterable<number>, q: number): number;
+export function quantile(it: Iterable<number>, q: number[]): number[];
+export function quantile(
+  it: Iterable<number>,
+  q: number | number[],
+): number | number[] {
+  const qs = typeof q === "number" ? [q] : q;
+  qs.forEach(assertQuantile);
+
+  const sorted = Float64Array.from(it).sort();
+  const results = qs.map((q) => {
+    if (sorted.length === 0) return NaN;
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, sorted.length - 1);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  });
+  return typeof q === "number" ? results[0] : results;
+}
+
+/**
+ * Finds the exact median of `it`. Returns `NaN` for an empty iterable. See
+ * {@link quantile | `quantile`}.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to find the median of.
+ * @returns The median of the items in `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.median([3, 1, 2])); // -> 2
+ * console.log(iter.median([4, 1, 2, 3])); // -> 2.5
+ * ```
+ */
+export function median(it: Iterable<number>): number {
+  return quantile(it, 0.5);
+}
+
+/**
+ * Options for {@link quantileSketch | `quantileSketch`}.
+ */
+export interface QuantileSketchOptions {
+  /**
+   * Controls the trade-off between accuracy and memory. The sketch holds at
+   * most about `compression / 2` centroids (and buffers up to
+   * `5 * compression` values between merges), and its error shrinks roughly in
+   * proportion as it grows. Defaults to `100`, which typically gives errors
+   * well under 0.1% of the quantile's rank, and less near the tails.
+   */
+  compression?: number;
+}
+
+/**
+ * An approximate summary of a distribution, created by
+ * {@link quantileSketch | `quantileSketch`}.
+ */
+export interface QuantileSketch {
+  /** The total weight of the values in the sketch. */
+  readonly count: number;
+  /** The smallest value in the sketch, or `Infinity` if it is empty. */
+  readonly min: number;
+  /** The largest value in the sketch, or `-Infinity` if it is empty. */
+  readonly max: number;
+  /**
+   * Adds a value to the sketch.
+   * @param value - The value to add.
+   * @param weight - How many times to count `value`. Defaults to `1`.
+   * @returns The sketch.
+   */
+  add(value: number, weight?: number): this;
+  /**
+   * Adds every value summarised by other sketches to this one, e.g. to combine
+   * sketches of several iterables.
+   * @param others - (blob) The sketches to merge in. They aren't modified.
+   * @returns The sketch.
+   */
+  merge(...others: QuantileSketch[]): this;
+  /**
+   * Estimates the `q`-quantile of the values in the sketch. Returns `NaN` if
+   * the sketch is empty.
+   * @param q - The quantile to estimate, from `0` to `1`.
+   */
+  quantile(q: number): number;
+  /**
+   * Gets the weighted centroids summarising the sketch, sorted by mean.
+   */
+  centroids(): Array<{ mean: number; weight: number }>;
+}
+
+/**
+ * Implementation of the {@link QuantileSketch} interface, backed by a
+ * {@link TDigest}.
+ * @private
+ */
+class CQuantileSketch implements QuantileSketch {
+  #digest: TDigest;
+
+  constructor(compression: number) {
+    this.#digest = new TDigest(compression);
+  }
+
+  get count() {
+    return this.#digest.count;
+  }
+
+  get min() {
+    return this.#digest.min;
+  }
+
+  get max() {
+    return this.#digest.max;
+  }
+
+  add(value: number, weight = 1) {
+    if (!(weight > 0 && weight < Infinity)) {
+      throw new RangeError(
+        `Expected \`weight\` to be a finite number above 0, got \`${weight}\``,
+      );
+    }
+    this.#digest.add(value, weight);
+    return this;
+  }
+
+  merge(...others: QuantileSketch[]) {
+    for (const other of others) {
+      this.#digest.merge(other.centroids(), other.min, other.max);
+    }
+    return this;
+  }
+
+  quantile(q: number) {
+    assertQuantile(q);
+    return this.#digest.quantile(q);
+  }
+
+  centroids() {
+    return this.#digest.centroids();
+  }
+}
+
+/**
+ * Summarises `it` in a {@link QuantileSketch}, from which quantiles can be
+ * estimated in bounded memory, however many items there are. The sketch is a
+ * merging [t-digest](https://arxiv.org/abs/1902.04023), which is most
+ * accurate near the tails, making it well suited to percentiles such as p99.
+ * Sketches of separate iterables can be combined with `merge`, and more values
+ * added with `add`.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to summarise.
+ * @param options - See {@link QuantileSketchOptions}.
+ * @returns A sketch of the items in `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const morning = iter.quantileSketch(iter.create.range(1, 5000));
+ * const evening = iter.quantileSketch(iter.create.range(5001, 10000));
+ * const day = morning.merge(evening);
+ *
+ * console.log(day.count); // -> 10000
+ * console.log(day.quantile(0.99)); // ~> 9900.5
+ * ```
+ */
+export function quantileSketch(
+  it: Iterable<number>,
+  { compression = 100 }: QuantileSketchOptions = {},
+): QuantileSketch {
+  if (!(Number.isFinite(compression) && compression >= 10)) {
+    throw new RangeError(
+      `Expected \`compression\` to be a number from 10 and up, got \`${compression}\``,
+    );
+  }
+  const sketch = new CQuantileSketch(compression);
+  for (const item of it) sketch.add(item);
+  return sketch;
+}
+
+function assertSampleSize(k: number): void {
+  if (!(Number.isSafeInteger(k) && k >= 0)) {
+    throw new RangeError(
+      `Expected \`k\` to be an integer from 0 and up, got \`${k}\``,
+    );
+  }
+}
+
+/**
+ * Picks `k` items from `it` uniformly at random, without replacement, in a
+ * single pass and using memory only for the `k` items kept. This is
+ * [reservoir sampling](https://en.wikipedia.org/wiki/Reservoir_sampling), so
+ * the length of `it` needn't be known in advance.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to sample.
+ * @param k - The number of items to pick.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @typeParam T - The type of items in `it`.
+ * @returns `k` items of `it` in random order, or all of them if there are
+ * fewer than `k`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.sample(iter.create.range(1, 1000), 3)); // ~> [412, 87, 950]
+ * ```
+ */
+export function sample<T>(
+  it: Iterable<T>,
+  k: number,
+  random: RandomSource = Math.random,
+): T[] {
+  assertSampleSize(k);
+  const reservoir = new Reservoir<T>(k, random);
+  for (const item of it) reservoir.add(item);
+  return reservoir.items();
+}
+
+/**
+ * Picks `k` items from `it` at random, without replacement, where each pick
+ * is made with probability proportional to the weights of the remaining
+ * items. Like {@link sample | `sample`}, this takes a single pass and uses
+ * memory only for the `k` items kept.
+ *
+ * :warning: When ran on an endless iterable, this never returns.
+ * @param it - The iterable to sample.
+ * @param k - The number of items to pick.
+ * @param {KeySelectorCallback} weightFn - Returns the weight of each item,
+ * which must be finite and non-negative. Items weighing 0 are never picked.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @typeParam T - The type of items in `it`.
+ * @returns `k` items of `it`, in the order they were picked, or all of the
+ * items with positive weights if there are fewer than `k`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const servers = [
+ *   { name: "big", capacity: 8 },
+ *   { name: "medium", capacity: 4 },
+ *   { name: "small", capacity: 1 },
+ * ];
+ * const picked = iter.sampleWeighted(servers, 2, (s) => s.capacity);
+ *
+ * console.log(picked.map((s) => s.name)); // ~> ["big", "medium"]
+ * ```
+ */
+export function sampleWeighted<T>(
+  it: Iterable<T>,
+  k: number,
+  weightFn: KeySelectorCallback<T, number>,
+  random: RandomSource = Math.random,
+): T[] {
+  assertSampleSize(k);
+  const reservoir = new WeightedReservoir<T>(k, random);
+  let index = 0;
+  for (const item of it) reservoir.add(item, weightFn(item, index++, it));
+  return reservoir.items();
+}
@@ -1,7 +1,9 @@
-import { assertEquals } from "../test_deps.ts";
+import { assert, assertEquals, assertThrows } from "../test_deps.ts";
 import * as reducers from "./reducers.ts";
 import { concat } from "./combiners.ts";
+import { map } from "./transformers.ts";
 import { increments, range } from "./generators.ts";
+import { seededRandom } from "./random.ts";
 
 Deno.test("reduce", () => {
   const add = (x: number, y: number) => x + y;
@@ -135,3 +137,274 @@ Deno.test("norm", () => {
   const pyQuad = [12, 16, 21];
   assertEquals(reducers.norm(pyQuad), 29);
 });
+
+Deno.test("groupBy", () => {
+  const groups = reducers.groupBy(range(1, 6), (n) => n % 3);
+  assertEquals([...groups], [[1, [1, 4]], [2, [2, 5]], [0, [3, 6]]]);
+  assertEquals(reducers.groupBy([], (x) => x).size, 0);
+});
+
+Deno.test("partition", () => {
+  assertEquals(
+    reducers.partition(range(1, 6), (n) => n % 2 === 0),
+    [[2, 4, 6], [1, 3, 5]],
+  );
+
+  const mixed: Array<string | number> = [1, "a", 2];
+  const [strings, numbers]: [string[], number[]] = reducers.partition(
+    mixed,
+    (x): x is string => typeof x === "string",
+  );
+  assertEquals(strings, ["a"]);
+  assertEquals(numbers, [1, 2]);
+});
+
+Deno.test("countBy", () => {
+  const counts = reducers.countBy(
+    ["a", "bb", "cc", "d", "eee"],
+    (s) => s.length,
+  );
+  assertEquals([...counts], [[1, 2], [2, 2], [3, 1]]);
+});
+
+Deno.test("indexBy", () => {
+  const users = [
+    { id: 1, name: "Ada" },
+    { id: 2, name: "Alan" },
+    { id: 1, name: "Grace" },
+  ];
+  const byId = reducers.indexBy(users, (user) => user.id);
+  assertEquals([...byId.keys()], [1, 2]);
+  assertEquals(byId.get(1)?.name, "Grace");
+});
+
+Deno.test("min, max and minMax", () => {
+  assertEquals(reducers.min([3, -1, 2]), -1);
+  assertEquals(reducers.max([3, -1, 2]), 3);
+  assertEquals(reducers.minMax([3, -1, 2]), [-1, 3]);
+  assertEquals(reducers.min([]), Infinity);
+  assertEquals(reducers.max([]), -Infinity);
+  assertEquals(reducers.minMax([]), [Infinity, -Infinity]);
+  assert(isNaN(reducers.min([1, NaN, 0])));
+  assert(isNaN(reducers.minMax(concat([1, NaN], increments()))[1]));
+});
+
+Deno.test("minBy and maxBy", () => {
+  const words = ["ccc", "a", "bb", "d", "eee"];
+  assertEquals(reducers.minBy(words, (s) => s.length), "a");
+  assertEquals(reducers.maxBy(words, (s) => s.length), "ccc");
+  assertEquals(reducers.minBy(words, (s) => s), "a");
+  assertEquals(reducers.maxBy([], (n: number) => n), undefined);
+});
+
+Deno.test("variance, stddev and describe", () => {
+  const data = [2, 4, 4, 4, 5, 5, 7, 9];
+  assertEquals(reducers.variance(data), 4);
+  assertEquals(reducers.stddev(data), 2);
+  assertEquals(reducers.variance(data, { sample: true }), 32 / 7);
+  assert(isNaN(reducers.variance([])));
+  assert(isNaN(reducers.variance([1], { sample: true })));
+  assertEquals(reducers.variance([1]), 0);
+
+  // Welford's algorithm doesn't suffer from catastrophic cancellation
+  const shifted = data.map((n) => n + 1e9);
+  assert(Math.abs(reducers.variance(shifted) - 4) < 1e-6);
+
+  assertEquals(reducers.describe(data), {
+    count: 8,
+    sum: 40,
+    mean: 5,
+    min: 2,
+    max: 9,
+    variance: 4,
+    stddev: 2,
+  });
+  const empty = reducers.describe([]);
+  assertEquals(empty.count, 0);
+  assert(isNaN(empty.mean) && isNaN(empty.variance));
+});
+
+Deno.test("quantile and median", () => {
+  assertEquals(reducers.median([3, 1, 2]), 2);
+  assertEquals(reducers.median([4, 1, 2, 3]), 2.5);
+  assertEquals(reducers.quantile([10, 20, 30, 40, 50], [0, 0.1, 1]), [
+    10,
+    14,
+    50,
+  ]);
+  assertEquals(reducers.quantile([7], 0.3), 7);
+  assert(isNaN(reducers.median([])));
+  assertThrows(() => reducers.quantile([1], 1.5), RangeError);
+});
+
+// A deterministic permutation of 0 to 10006, as 7919 and 10007 are coprime
+const scrambled = (start = 0, end = 10007) =>
+  map(range(start, end - 1), (i) => (i * 7919) % 10007);
+
+Deno.test("quantileSketch", () => {
+  const sketch = reducers.quantileSketch(scrambled());
+  assertEquals(sketch.count, 10007);
+  assertEquals([sketch.min, sketch.max], [0, 10006]);
+  assert(sketch.centroids().length <= 200);
+
+  for (const q of [0.001, 0.01, 0.25, 0.5, 0.75, 0.99, 0.999]) {
+    const exact = q * 10006;
+    // errors are bounded relative to the rank, and smaller near the tails
+    const tolerance = Math.max(2, 10006 * 0.02 * Math.sqrt(q * (1 - q)));
+    assert(
+      Math.abs(sketch.quantile(q) - exact) <= tolerance,
+      `${q}: ${sketch.quantile(q)} vs ${exact}`,
+    );
+  }
+  assertEquals(sketch.quantile(0), 0);
+  assertEquals(sketch.quantile(1), 10006);
+
+  // small sketches are exact
+  assertEquals(reducers.quantileSketch([4, 1, 2, 3]).quantile(0.5), 2.5);
+  assert(isNaN(reducers.quantileSketch([]).quantile(0.5)));
+  assertThrows(() => reducers.quantileSketch([], { compression: 1 }));
+});
+
+Deno.test("quantileSketch merge and compression", () => {
+  const halves = [
+    reducers.quantileSketch(scrambled(0, 5000)),
+    reducers.quantileSketch(scrambled(5000)),
+  ];
+  const merged = reducers.quantileSketch([]).merge(...halves);
+  assertEquals(merged.count, 10007);
+  assertEquals([merged.min, merged.max], [0, 10006]);
+  assert(Math.abs(merged.quantile(0.5) - 5003) <= 100);
+  assert(Math.abs(merged.quantile(0.99) - 9906) <= 20);
+
+  const coarse = reducers.quantileSketch(scrambled(), { compression: 20 });
+  const fine = reducers.quantileSketch(scrambled(), { compression: 500 });
+  assert(coarse.centroids().length < fine.centroids().length);
+  assert(
+    Math.abs(fine.quantile(0.9) - 9005.4) <
+      Math.abs(coarse.quantile(0.9) - 9005.4) + 1,
+  );
+
+  const weighted = reducers.quantileSketch([]).add(1, 3).add(10);
+  assertEquals(weighted.count, 4);
+  assertThrows(() => weighted.add(1, 0), RangeError);
+});
+
+Deno.test("precise sum and average", () => {
+  const cancelling = [1e16, 1, -1e16];
+  assertEquals(reducers.sum(cancelling), 0);
+  assertEquals(reducers.sum(cancelling, { precise: true }), 1);
+  assertEquals(reducers.average(cancelling, { precise: true }), 1 / 3);
+
+  // a million tenths, where naive rounding error builds up visibly
+  const tenths = () => map(range(999_999), () => 0.1);
+  const naiveError = Math.abs(reducers.sum(tenths()) - 100_000);
+  const preciseError = Math.abs(
+    reducers.sum(tenths(), { precise: true }) - 100_000,
+  );
+  assert(naiveError > 1e-7);
+  assert(preciseError < 1e-10);
+  assertEquals(reducers.average(tenths(), { precise: true }), 0.1);
+
+  assertEquals(reducers.sum([], { precise: true }), 0);
+  assert(isNaN(reducers.average([], { precise: true })));
+  assert(
+    isNaN(reducers.sum(concat([1, NaN], increments()), { precise: true })),
+  );
+  assertEquals(reducers.sum([1e308, 1e308], { precise: true }), Infinity);
+});
+
+Deno.test("precise norm", () => {
+  assertEquals(reducers.norm([12, 16, 21], { precise: true }), 29);
+  assertEquals(reducers.norm([], { precise: true }), 0);
+
+  // squaring would overflow or underflow
+  assertEquals(reducers.norm([3e200, 4e200]), Infinity);
+  assertEquals(
+    reducers.norm([3e200, 4e200], { precise: true }),
+    Math.hypot(3e200, 4e200),
+  );
+  assertEquals(reducers.norm([3e-200, 4e-200]), 0);
+  assertEquals(
+    reducers.norm([3e-200, 4e-200], { precise: true }),
+    Math.hypot(3e-200, 4e-200),
+  );
+
+  assertEquals(reducers.norm([-Infinity, NaN], { precise: true }), Infinity);
+  assert(isNaN(reducers.norm([1, NaN, -Infinity], { precise: true })));
+  // stops at the first NaN, so it returns on an endless iterable
+  const endless = concat([NaN], increments(1));
+  assert(isNaN(reducers.norm(endless, { precise: true })));
+});
+
+Deno.test("bigint sum and product", () => {
+  const factorial25: bigint = reducers.product(range(1n, 25n));
+  assertEquals(factorial25, 15511210043330985984000000n);
+  assertEquals(reducers.product(range(1, 200)), Infinity);
+  assertEquals(reducers.product([2n, 0n, 3n]), 0n);
+
+  const total: bigint = reducers.sum([2n ** 64n, 1n]);
+  assertEquals(total, 18446744073709551617n);
+  assertEquals(reducers.sum(new Array<bigint>(), { bigint: true }), 0n);
+  assertEquals(reducers.product(new Array<bigint>(), { bigint: true }), 1n);
+  assertEquals(reducers.sum(new Array<bigint>(), { bigint: true }) + 1n, 1n);
+  // without the option, there's no telling that they would have been bigints
+  assertEquals(reducers.sum(new Array<bigint>()) as unknown, 0);
+});
+
+Deno.test("sample", () => {
+  const random = seededRandom(1);
+  const counts = new Array<number>(10).fill(0);
+  for (let i = 0; i < 5000; i++) {
+    const picked = reducers.sample(range(0, 9), 2, random);
+    assertEquals(picked.length, 2);
+    assert(picked[0] !== picked[1]);
+    for (const n of picked) counts[n]++;
+  }
+
+  // each item is picked with probability 2 / 10
+  assert(counts.every((count) => Math.abs(count - 1000) < 120), `${counts}`);
+  assertEquals(reducers.sample([1, 2, 3], 5, random).sort(), [1, 2, 3]);
+  assertEquals(reducers.sample([1, 2, 3], 0), []);
+  assertEquals(reducers.sample([], 3), []);
+  assertThrows(() => reducers.sample([1], -1), RangeError);
+  assertThrows(() => reducers.sample([1], 1.5), RangeError);
+});
+
+Deno.test("sample draws few random numbers from long iterables", () => {
+  let draws = 0;
+  const random = seededRandom(2);
+  const counted = () => {
+    draws++;
+    return random();
+  };
+  const picked = reducers.sample(range(1, 100000), 10, counted);
+
+  assertEquals(new Set(picked).size, 10);
+  assert(draws < 1000, `${draws}`);
+});
+
+Deno.test("sampleWeighted", () => {
+  const random = seededRandom(3);
+  const items = ["a", "b", "c"];
+  const weights = [1, 0, 3];
+  let aCount = 0;
+  for (let i = 0; i < 4000; i++) {
+    const [picked] = reducers.sampleWeighted(
+      items,
+      1,
+      (_, index) => weights[index],
+      random,
+    );
+    assert(picked !== "b");
+    if (picked === "a") aCount++;
+  }
+
+  assert(Math.abs(aCount - 1000) < 100, `${aCount}`);
+  assertEquals(
+    reducers.sampleWeighted(items, 5, (_, i) => weights[i], random).sort(),
+    ["a", "c"],
+  );
+  assertEquals(reducers.sampleWeighted(items, 0, () => 1), []);
+  assertThrows(() => reducers.sampleWeighted(items, 1, () => -1), RangeError);
+  assertThrows(() => reducers.sampleWeighted(items, 1, () => NaN), RangeError);
+});
@@ -0,0 +1,451 @@
+import { MapCallback } from "./transformers.ts";
+import {
+  IterableCircular,
+  IterablePredicateCallback,
+  IterableTypeGuardCallback,
+} from "./types.ts";
+
+/**
+ * The result of a {@link Step} which ends the reduction early. Created with
+ * {@link reduced | `reduced`}.
+ * @typeParam A - The type of the accumulator.
+ */
+export interface Reduced<A> {
+  /** The final accumulator value. */
+  readonly value: A;
+}
+
+/**
+ * A reducing step, as wrapped by a {@link Transducer}.
+ * @typeParam A - The type of the accumulator.
+ * @typeParam T - The type of items being reduced.
+ */
+export interface Step<A, T> {
+  /**
+   * A reducing step.
+   * @callback Step
+   * @param accumulator - The accumulated value so far.
+   * @param item - The current item.
+   * @returns The next accumulator value, or a {@link Reduced} value to stop the
+   * reduction.
+   */
+  (accumulator: A, item: T): A | Reduced<A>;
+}
+
+/**
+ * {@link transduce | `transduce`} reducer callback.
+ * @typeParam T - See {@link transduce}.
+ * @typeParam U - See {@link transduce}.
+ * @typeParam A - See {@link transduce}.
+ */
+export interface TransduceCallback<T, U, A> {
+  /**
+   * {@link transduce | `transduce`} reducer callback.
+   * @callback TransduceCallback
+   * @param accumulator - The accumulated value so far.
+   * @param item - The current item coming out of the transducer.
+   * @param index - The number of transformed items already processed.
+   * @param it - The iterable being transduced.
+   * @returns The next accumulator value.
+   */
+  (accumulator: A, item: U, index: number, it: Iterable<T>): A;
+}
+
+/**
+ * A transformation of reducing steps, independent of where the items come
+ * from and where they end up. Transducers are created with
+ * {@link tmap | `tmap`}, {@link tfilter | `tfilter`} and
+ * {@link ttake | `ttake`}, combined with {@link compose | `compose`}, and run
+ * with {@link transduce | `transduce`}, {@link into | `into`} or
+ * {@link sequence | `sequence`}.
+ * @typeParam T - The type of items going in.
+ * @typeParam U - The type of items coming out.
+ */
+export interface Transducer<T, U> {
+  /**
+   * Wraps a reducing step. Called once per run, so any state (such as an
+   * index) should be created here rather than in the transducer's factory.
+   * @callback Transducer
+   * @param next - The step to feed transformed items to.
+   * @param it - The iterable being transduced.
+   * @returns The step to feed items of type `T` to.
+   */
+  <A>(next: Step<A, U>, it: Iterable<unknown>): Step<A, T>;
+}
+
+/**
+ * Steps which end the reduction before taking any items, so that
+ * {@link transduce | `transduce`} and {@link sequence | `sequence`} can stop
+ * without pulling an item from the source.
+ * @private
+ */
+const finishedSteps = new WeakSet<object>();
+
+/**
+ * Implementation of the {@link Reduced} interface.
+ * @private
+ */
+class CReduced<A> implements Reduced<A> {
+  constructor(readonly value: A) {}
+}
+
+/**
+ * Wraps an accumulator value to signal that a reduction should stop. Use it
+ * when writing your own {@link Transducer}.
+ * @param value - The final accumulator value.
+ * @typeParam A - The type of the accumulator.
+ * @returns A value which ends the reduction when returned from a
+ * {@link Step}.
+ */
+export function reduced<A>(value: A): Reduced<A> {
+  return new CReduced(value);
+}
+
+/**
+ * Checks whether a value returned from a {@link Step} ends the reduction.
+ * @param x - The value to check.
+ * @returns Whether `x` was created with {@link reduced | `reduced`}.
+ */
+export function isReduced(x: unknown): x is Reduced<unknown> {
+  return x instanceof CReduced;
+}
+
+/**
+ * Creates a transducer which calls a defined callback function for each item.
+ * The transducer counterpart of {@link map | `map`}, taking the same callback.
+ * @param {MapCallback} f - A function that accepts up to three arguments. It is
+ * called with each item, the index of the item among those reaching this step,
+ * and the iterable being transduced.
+ * @typeParam T - The type of items going in.
+ * @typeParam U - Return type of `f`.
+ * @returns A transducer of `f` applied to each item.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.into([], iter.tmap((n: number) => n * 2), [1, 2, 3]));
+ * // -> [ 2, 4, 6 ]
+ * ```
+ */
+export function tmap<T, U = T>(f: MapCallback<T, U>): Transducer<T, U> {
+  return (next, it) => {
+    let index = 0;
+    return (accumulator, item) =>
+      next(accumulator, f(item, index++, it as Iterable<T>));
+  };
+}
+
+/**
+ * Creates a transducer which only passes on the items for which `predicate`
+ * returns true. The transducer counterpart of {@link filter | `filter`},
+ * taking the same callback.
+ * @param {IterablePredicateCallback} predicate - A function that accepts up to
+ * three arguments. It is called with each item, the index of the item among
+ * those reaching this step, and the iterable being transduced.
+ * @typeParam T - The type of items going in.
+ * @returns A transducer of the items satisfying `predicate`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const evens = iter.tfilter((n: number) => n % 2 === 0);
+ *
+ * console.log(iter.into([], evens, iter.create.range(6))); // -> [ 0, 2, 4 ]
+ * ```
+ */
+export function tfilter<T, S extends T>(
+  predicate: IterableTypeGuardCallback<T, S>,
+): Transducer<T, S>;
+export function tfilter<T>(
+  predicate: IterablePredicateCallback<T>,
+): Transducer<T, T>;
+export function tfilter<T>(
+  predicate: IterablePredicateCallback<T>,
+): Transducer<T, T> {
+  return (next, it) => {
+    let index = 0;
+    return (accumulator, item) =>
+      predicate(item, index++, it as Iterable<T>)
+        ? next(accumulator, item)
+        : accumulator;
+  };
+}
+
+/**
+ * Creates a transducer which passes on the first `n` items, then ends the
+ * reduction. The transducer counterpart of {@link take | `take`}. If `n` is `0`
+ * or less, the reduction ends without pulling any items from the source.
+ * @param n - The number of items to take.
+ * @typeParam T - The type of items going in.
+ * @returns A transducer of the first `n` items.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(iter.into([], iter.ttake(3), iter.create.increments()));
+ * // -> [ 0, 1, 2 ]
+ * ```
+ */
+export function ttake<T>(n: number): Transducer<T, T> {
+  return <A>(next: Step<A, T>): Step<A, T> => {
+    if (!(n > 0)) {
+      const finished = (accumulator: A) => reduced(accumulator);
+      finishedSteps.add(finished);
+      return finished;
+    }
+
+    let remaining = n;
+    return (accumulator, item) => {
+      const result = next(accumulator, item);
+      return --remaining <= 0 && !isReduced(result) ? reduced(result) : result;
+    };
+  };
+}
+
+/**
+ * Combines transducers into one, which applies them left to right (i.e. items
+ * go through the first transducer first). Typed for up to 9 transducers.
+ * @param xfs - (blob) The transducers to combine.
+ * @returns A transducer applying each of `xfs` in turn.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const xf = iter.compose(
+ *   iter.tmap((n: number) => n ** 2),
+ *   iter.tfilter((n) => n % 2 === 1),
+ *   iter.ttake(3),
+ * );
+ *
+ * console.log(iter.transduce(iter.create.increments(1), xf, (a, n) => a + n, 0));
+ * // -> 35
+ * ```
+ */
+export function compose<T>(): Transducer<T, T>;
+export function compose<A, B>(
+  ab: Transducer<A, B>,
+): Transducer<A, B>;
+export function compose<A, B, C>(
+  ab: Transducer<A, B>,
+  bc: Transducer<B, C>,
+): Transducer<A, C>;
+export function compose<A, B, C, D>(
+  ab: Transducer<A, B>,
+  bc: Transducer<B, C>,
+  cd: Transducer<C, D>,
+): Transducer<A, D>;
+export function compose<A, B, C, D, E>(
+  ab: Transducer<A, B>,
+  bc: Transducer<B, C>,
+  cd: Transducer<C, D>,
+  de: Transducer<D, E>,
+): Transducer<A, E>;
+export function compose<A, B, C, D, E, F>(
+  ab: Transducer<A, B>,
+  bc: Transducer<B, C>,
+  cd: Transducer<C, D>,
+  de: Transducer<D, E>,
+  ef: Transducer<E, F>,
+): Transducer<A, F>;
+export function compose<A, B, C, D, E, F, G>(
+  ab: Transducer<A, B>,
+  bc: Transducer<B, C>,
+  cd: Transducer<C, D>,
+  de: Transducer<D, E>,
+  ef: Transducer<E, F>,
+  fg: Transducer<F, G>,
+): Transducer<A, G>;
+export function compose<A, B, C, D, E, F, G, H>(
+  ab: Transducer<A, B>,
+  bc: Transducer<B, C>,
+  cd: Transducer<C, D>,
+  de: Transducer<D, E>,
+  ef: Transducer<E, F>,
+  fg: Transducer<F, G>,
+  gh: Transducer<G, H>,
+): Transducer<A, H>;
+export function compose<A, B, C, D, E, F, G, H, I>(
+  ab: Transducer<A, B>,
+  bc: Transducer<B, C>,
+  cd: Transducer<C, D>,
+  de: Transducer<D, E>,
+  ef: Transducer<E, F>,
+  fg: Transducer<F, G>,
+  gh: Transducer<G, H>,
+  hi: Transducer<H, I>,
+): Transducer<A, I>;
+export function compose<A, B, C, D, E, F, G, H, I, J>(
+  ab: Transducer<A, B>,
+  bc: Transducer<B, C>,
+  cd: Transducer<C, D>,
+  de: Transducer<D, E>,
+  ef: Transducer<E, F>,
+  fg: Transducer<F, G>,
+  gh: Transducer<G, H>,
+  hi: Transducer<H, I>,
+  ij: Transducer<I, J>,
+): Transducer<A, J>;
+export function compose(
+  ...xfs: Array<Transducer<unknown, unknown>>
+): Transducer<unknown, unknown>;
+export function compose(
+  ...xfs: Array<Transducer<unknown, unknown>>
+): Transducer<unknown, unknown> {
+  return (next, it) =>
+    xfs.reduceRight(
+      // nothing reaches a finished step, so there's no need to wrap it
+      (step, xf) => finishedSteps.has(step) ? step : xf(step, it),
+      next,
+    );
+}
+
+/**
+ * Reduces an iterable through a transducer in a single loop, without creating
+ * an intermediate iterable per step.
+ * @param it - The iterable to be reduced.
+ * @param xf - The transducer to apply to the items of `it`.
+ * @param {TransduceCallback} reducer - A function that accepts up to four
+ * arguments, called with the accumulator, each transformed item, the number of
+ * transformed items already processed and `it`.
+ * @param initialValue - The initial accumulator value.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam U - The type of items coming out of `xf`.
+ * @typeParam A - The type of the accumulator and result.
+ * @returns The final accumulator value.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const total = iter.transduce(
+ *   ["1", "2", "x", "3"],
+ *   iter.compose(iter.tmap(Number), iter.tfilter((n) => !isNaN(n))),
+ *   (sum, n) => sum + n,
+ *   0,
+ * );
+ *
+ * console.log(total); // -> 6
+ * ```
+ */
+export function transduce<T, U, A>(
+  it: Iterable<T>,
+  xf: Transducer<T, U>,
+  reducer: TransduceCallback<T, U, A>,
+  initialValue: A,
+): A {
+  let index = 0;
+  const step = xf<A>(
+    (accumulator, item) => reducer(accumulator, item, index++, it),
+    it,
+  );
+  if (finishedSteps.has(step)) return initialValue;
+
+  let accumulator = initialValue;
+  for (const item of it) {
+    const result = step(accumulator, item);
+    if (isReduced(result)) return result.value;
+    accumulator = result;
+  }
+  return accumulator;
+}
+
+/**
+ * Transduces an iterable into an existing array, `Set` or `Map`, which is
+ * modified in place.
+ * @param target - The collection to add the transformed items to. Items added
+ * to a `Map` must be `[key, value]` pairs.
+ * @param xf - The transducer to apply to the items of `it`.
+ * @param it - The iterable to transduce.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam U - The type of items coming out of `xf`.
+ * @returns `target`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const lengths = iter.into(
+ *   new Map<string, number>(),
+ *   iter.tmap((word: string) => [word, word.length] as [string, number]),
+ *   ["ab", "cde"],
+ * );
+ *
+ * console.log(lengths); // -> Map(2) { "ab" => 2, "cde" => 3 }
+ * ```
+ */
+export function into<T, K, V>(
+  target: Map<K, V>,
+  xf: Transducer<T, [K, V]>,
+  it: Iterable<T>,
+): Map<K, V>;
+export function into<T, U>(
+  target: Set<U>,
+  xf: Transducer<T, U>,
+  it: Iterable<T>,
+): Set<U>;
+export function into<T, U>(
+  target: U[],
+  xf: Transducer<T, U>,
+  it: Iterable<T>,
+): U[];
+export function into<T>(
+  target: unknown[] | Set<unknown> | Map<unknown, unknown>,
+  xf: Transducer<T, unknown>,
+  it: Iterable<T>,
+): unknown[] | Set<unknown> | Map<unknown, unknown> {
+  if (target instanceof Map) {
+    return transduce(
+      it,
+      xf as Transducer<T, [unknown, unknown]>,
+      (map, [key, value]) => map.set(key, value),
+      target,
+    );
+  }
+  if (target instanceof Set) {
+    return transduce(it, xf, (set, item) => set.add(item), target);
+  }
+  return transduce(it, xf, (array, item) => {
+    array.push(item);
+    return array;
+  }, target);
+}
+
+/**
+ * Lazily applies a transducer to an iterable. Unlike chaining transformers,
+ * each item passes through a single generator however many steps `xf` has,
+ * so the result can be handed to any reducer.
+ * @param it - The iterable to transduce.
+ * @param xf - The transducer to apply to the items of `it`.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam U - The type of items coming out of `xf`.
+ * @returns A new iterable of the transformed items.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const xf = iter.compose(iter.tmap((n: number) => n * 2), iter.ttake(3));
+ *
+ * console.log(iter.sum(iter.sequence(iter.create.increments(), xf))); // -> 6
+ * ```
+ */
+export function sequence<T, U>(
+  it: Iterable<T>,
+  xf: Transducer<T, U>,
+): IterableCircular<U> {
+  return {
+    *[Symbol.iterator]() {
+      // a single step may emit any number of items, so they are buffered
+      const buffer = new Array<U>();
+      const step = xf<U[]>((output, item) => {
+        output.push(item);
+        return output;
+      }, it);
+      if (finishedSteps.has(step)) return;
+
+      for (const item of it) {
+        const result = step(buffer, item);
+        for (const output of buffer) yield output;
+        buffer.length = 0;
+        if (isReduced(result)) return;
+      }
+    },
+  };
+}
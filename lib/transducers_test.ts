@@ -0,0 +1,120 @@
+import { assert, assertEquals } from "../test_deps.ts";
+import * as transducers from "./transducers.ts";
+import * as create from "./generators.ts";
+import { sum } from "./reducers.ts";
+
+Deno.test("transduce", () => {
+  const xf = transducers.compose(
+    transducers.tmap((n: number) => n ** 2),
+    transducers.tfilter((n) => n % 2 === 1),
+    transducers.ttake(3),
+  );
+
+  assertEquals(
+    transducers.transduce(create.increments(1), xf, (acc, n) => acc + n, 0),
+    35,
+  );
+  // stateful transducers start afresh on each run
+  assertEquals(
+    transducers.transduce(create.increments(1), xf, (acc, n) => acc + n, 0),
+    35,
+  );
+  assertEquals(
+    transducers.transduce(
+      [1, 2],
+      transducers.compose(),
+      (acc, n) => acc + n,
+      0,
+    ),
+    3,
+  );
+});
+
+Deno.test("transduce passes the source to the reducer", () => {
+  const source = ["a", "bc"];
+  const lengths = transducers.transduce(
+    source,
+    transducers.tmap((s: string) => s.length),
+    (acc: number[], n, i, it: Iterable<string>) => {
+      assert(it === source);
+      acc[i] = n;
+      return acc;
+    },
+    [],
+  );
+  assertEquals(lengths, [1, 2]);
+});
+
+Deno.test("transducer callbacks get indices per step", () => {
+  const source = ["a", "b", "c", "d"];
+  const seen: Array<[string, number]> = [];
+  const xf = transducers.compose(
+    transducers.tfilter((_: string, i) => i % 2 === 0),
+    transducers.tmap((s: string, i, it) => {
+      assert(it === source);
+      seen.push([s, i]);
+      return s;
+    }),
+  );
+
+  assertEquals(transducers.into([], xf, source), ["a", "c"]);
+  assertEquals(seen, [["a", 0], ["c", 1]]);
+});
+
+Deno.test("ttake stops pulling from the source", () => {
+  let pulls = 0;
+  function* source() {
+    while (true) yield pulls++;
+  }
+
+  assertEquals(transducers.into([], transducers.ttake(3), source()), [0, 1, 2]);
+  assertEquals(pulls, 3);
+
+  // taking nothing doesn't pull an item, even after other steps
+  pulls = 0;
+  assertEquals(transducers.into([], transducers.ttake(0), source()), []);
+  const xf = transducers.compose(
+    transducers.tmap((n: number) => n * 2),
+    transducers.ttake(-1),
+  );
+  assertEquals(transducers.transduce(source(), xf, (a, n) => a + n, 7), 7);
+  assertEquals([...transducers.sequence(source(), xf)], []);
+  assertEquals(pulls, 0);
+});
+
+Deno.test("into", () => {
+  const xf = transducers.tmap((n: number) => n % 3);
+
+  assertEquals(transducers.into([9], xf, [1, 2, 3]), [9, 1, 2, 0]);
+  assertEquals(transducers.into(new Set(), xf, [1, 4, 7]), new Set([1]));
+  assertEquals(
+    transducers.into(
+      new Map<number, number>(),
+      transducers.tmap((n: number): [number, number] => [n % 3, n]),
+      [1, 2, 4],
+    ),
+    new Map([[1, 4], [2, 2]]),
+  );
+});
+
+Deno.test("sequence", () => {
+  const xf = transducers.compose(
+    transducers.tfilter((n: number) => n > 1),
+    transducers.ttake(2),
+  );
+  const sequenced = transducers.sequence(create.increments(), xf);
+
+  assertEquals([...sequenced], [2, 3]);
+  assertEquals(sum(sequenced), 5);
+});
+
+Deno.test("reduced", () => {
+  const firstOver =
+    (limit: number): transducers.Transducer<number, number> =>
+    (next) =>
+    (acc, n) => n > limit ? transducers.reduced(acc) : next(acc, n);
+
+  assertEquals(transducers.into([], firstOver(2), [1, 2, 3, 1]), [1, 2]);
+  assert(transducers.isReduced(transducers.reduced(1)));
+  assert(!transducers.isReduced({ value: 1 }));
+});
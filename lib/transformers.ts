@@ -1,8 +1,19 @@
-import { isIterable } from "./internal/util.ts";
+import { isIterable, sameValueZero, untilError } from "./internal/util.ts";
+import { Deque } from "./internal/deque.ts";
+import { ReplayCache } from "./internal/replay_cache.ts";
+import { RingBuffer } from "./internal/ring_buffer.ts";
+import { SharedBuffer } from "./internal/shared_buffer.ts";
+import { Splitter, trimLineEnd } from "./internal/splitter.ts";
 import {
   IterableCircular,
   IterablePredicateCallback,
+  IterableTypeGuardCallback,
+  LinesOptions,
   Peekable,
+  PredicateCallback,
+  RandomSource,
+  Remembered,
+  SafeResult,
 } from "./types.ts";
 
 /**
@@ -111,7 +122,7 @@ export function flatMap<T, U = T>(
         const mapped = f(item, index, it);
         // uses simplified flat as at most one level is flattened
         if (isIterable(mapped)) {
-          yield* mapped;
+          for (const inner of mapped) yield inner;
         } else {
           yield mapped;
         }
@@ -122,7 +133,9 @@ export function flatMap<T, U = T>(
 }
 
 /**
- * Returns a new iterable containing the first `n` items of `it`.
+ * Returns a new iterable containing the first `n` items of `it`. Once `n`
+ * items have been taken, the iterator over `it` is closed, and no more items
+ * are pulled from it.
  * @param it - The iterable being taken from.
  * @param n - The number of items to take.
  * @typeParam T - The type of items in both `it` and the returned iterable.
@@ -149,8 +162,12 @@ export function flatMap<T, U = T>(
 export function take<T>(it: Iterable<T>, n: number): IterableCircular<T> {
   return {
     *[Symbol.iterator]() {
-      const iterator = it[Symbol.iterator]();
-      for (let i = 0; i < n; i++) yield iterator.next().value;
+      if (!(n > 0)) return;
+      let count = 0;
+      for (const item of it) {
+        yield item;
+        if (++count >= n) break;
+      }
     },
   };
 }
@@ -181,9 +198,11 @@ export function take<T>(it: Iterable<T>, n: number): IterableCircular<T> {
 export function drop<T>(it: Iterable<T>, n: number): IterableCircular<T> {
   return {
     *[Symbol.iterator]() {
-      const iterator = it[Symbol.iterator]();
-      for (let i = 0; i < n; i++) iterator.next();
-      yield* { [Symbol.iterator]: () => iterator };
+      let index = 0;
+      for (const item of it) {
+        if (index++ < n) continue;
+        yield item;
+      }
     },
   };
 }
@@ -367,7 +386,8 @@ export function dropWhile<T>(
  * @param it - The iterable being filtered
  * @param {IterablePredicateCallback} predicate - A function that accepts up to
  * three arguments. The filter function calls the predicate function one time for
- * each item in the iterable.
+ * each item in the iterable. If it is a type guard, the returned iterable is
+ * narrowed accordingly.
  * @typeParam T - The type of items in `it`.
  * @returns A new iterable
  * @example
@@ -386,6 +406,14 @@ export function dropWhile<T>(
  * console.log(iterator.next().value); // -> 11
  * ```
  */
+export function filter<T, S extends T>(
+  it: Iterable<T>,
+  predicate: IterableTypeGuardCallback<T, S>,
+): IterableCircular<S>;
+export function filter<T>(
+  it: Iterable<T>,
+  predicate: IterablePredicateCallback<T>,
+): IterableCircular<T>;
 export function filter<T>(
   it: Iterable<T>,
   predicate: IterablePredicateCallback<T>,
@@ -498,17 +526,563 @@ export function chunkify<T>(
   };
 }
 
+/**
+ * Options for {@link windows | `windows`}.
+ */
+export interface WindowsOptions {
+  /**
+   * The number of items between the starts of consecutive windows. Values
+   * smaller than the window size give overlapping windows, and larger values
+   * skip items. Defaults to `1`.
+   */
+  step?: number;
+  /**
+   * Whether to yield the windows at the end of the iterable which are smaller
+   * than the window size. Defaults to `false`.
+   */
+  partial?: boolean;
+}
+
+/**
+ * Creates an iterable over sliding windows of `it`. Inspired by Kotlin's
+ * [`sequences.windowed`](https://kotlinlang.org/api/latest/jvm/stdlib/kotlin.sequences/windowed.html).
+ * Items are held in a ring buffer, so large windows over long iterables don't
+ * reallocate per item. Each window is a new array.
+ * @param it - The iterable to slide over.
+ * @param size - The size of each window.
+ * @param options - See {@link WindowsOptions}.
+ * @typeParam T - The type of items in `it`.
+ * @returns A new iterable over window arrays.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(...iter.windows([1, 2, 3, 4, 5], 3));
+ * // -> [ 1, 2, 3 ] [ 2, 3, 4 ] [ 3, 4, 5 ]
+ *
+ * console.log(...iter.windows([1, 2, 3, 4, 5], 2, { step: 2, partial: true }));
+ * // -> [ 1, 2 ] [ 3, 4 ] [ 5 ]
+ * ```
+ */
+export function windows<T>(
+  it: Iterable<T>,
+  size: number,
+  { step = 1, partial = false }: WindowsOptions = {},
+): IterableCircular<T[]> {
+  if (!(Number.isSafeInteger(size) && size > 0)) {
+    throw new RangeError(
+      `Expected \`size\` to be an integer from 1 and up, got \`${size}\``,
+    );
+  }
+  if (!(Number.isSafeInteger(step) && step > 0)) {
+    throw new RangeError(
+      `Expected \`step\` to be an integer from 1 and up, got \`${step}\``,
+    );
+  }
+
+  return {
+    *[Symbol.iterator]() {
+      if (Array.isArray(it)) {
+        for (let index = 0; index < it.length; index += step) {
+          if (!partial && index + size > it.length) return;
+          yield it.slice(index, index + size);
+        }
+        return;
+      }
+
+      const buffer = new RingBuffer<T>(size);
+      let skip = 0;
+
+      for (const value of it) {
+        if (skip > 0) {
+          skip--;
+          continue;
+        }
+
+        buffer.push(value);
+
+        if (buffer.length === size) {
+          yield buffer.toArray();
+          if (step < size) {
+            buffer.drop(step);
+          } else {
+            buffer.clear();
+            skip = step - size;
+          }
+        }
+      }
+
+      if (partial) {
+        while (buffer.length > 0) {
+          yield buffer.toArray();
+          buffer.drop(step);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Creates an iterable over pairs of consecutive items of `it`. Equivalent to
+ * {@link windows | `windows(it, 2)`}, but yields tuples.
+ * @param it - The iterable to pair up.
+ * @typeParam T - The type of items in `it`.
+ * @returns A new iterable over pairs of consecutive items.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(...iter.pairwise([1, 2, 3, 4]));
+ * // -> [ 1, 2 ] [ 2, 3 ] [ 3, 4 ]
+ * ```
+ */
+export function pairwise<T>(it: Iterable<T>): IterableCircular<[T, T]> {
+  return {
+    *[Symbol.iterator]() {
+      let first = true;
+      let previous: T;
+      for (const item of it) {
+        if (!first) yield [previous!, item];
+        first = false;
+        previous = item;
+      }
+    },
+  };
+}
+
+/**
+ * {@link chunkBy | `chunkBy`} callback.
+ * @typeParam T - See {@link chunkBy}
+ * @typeParam K - See {@link chunkBy}
+ */
+export interface ChunkByCallback<T, K> {
+  /**
+   * {@link chunkBy | `chunkBy`} callback.
+   * @callback ChunkByCallback
+   * @param item - The current item.
+   * @param index - The index of the item.
+   * @param it - The iterable.
+   * @returns The key for `item`.
+   */
+  (item: T, index: number, it: Iterable<T>): K;
+}
+
+/**
+ * Splits an iterable into chunks of consecutive items with the same key. A new
+ * chunk is started every time the key changes. Keys are compared with
+ * SameValueZero (like `Map` keys). Unlike `groupBy`, this is
+ * lazy and works on endless iterables.
+ * @param it - The iterable being chunked.
+ * @param {ChunkByCallback} keyFn - A function that accepts up to three
+ * arguments, called once for each item in `it`.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam K - The type of the keys.
+ * @returns A new iterable over chunk arrays.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * console.log(...iter.chunkBy([1, 3, 2, 4, 5], (n) => n % 2));
+ * // -> [ 1, 3 ] [ 2, 4 ] [ 5 ]
+ * ```
+ */
+export function chunkBy<T, K>(
+  it: Iterable<T>,
+  keyFn: ChunkByCallback<T, K>,
+): IterableCircular<T[]> {
+  return {
+    *[Symbol.iterator]() {
+      let index = 0;
+      let chunk: T[] = [];
+      let chunkKey: K;
+
+      for (const item of it) {
+        const key = keyFn(item, index++, it);
+        if (chunk.length > 0 && !sameValueZero(key, chunkKey!)) {
+          yield chunk;
+          chunk = [];
+        }
+        chunk.push(item);
+        chunkKey = key;
+      }
+
+      if (chunk.length > 0) {
+        yield chunk;
+      }
+    },
+  };
+}
+
+/**
+ * {@link splitWhen | `splitWhen`} callback.
+ * @typeParam T - See {@link splitWhen}
+ */
+export interface SplitWhenCallback<T> {
+  /**
+   * {@link splitWhen | `splitWhen`} callback.
+   * @callback SplitWhenCallback
+   * @param previous - The previous item.
+   * @param current - The current item.
+   * @param index - The index of the current item.
+   * @returns Whether a new chunk should start at `current`.
+   */
+  (previous: T, current: T, index: number): boolean;
+}
+
+/**
+ * Splits an iterable into chunks, starting a new chunk between two consecutive
+ * items whenever `predicate` returns true for them.
+ * @param it - The iterable being split.
+ * @param {SplitWhenCallback} predicate - A function called with each pair of
+ * consecutive items.
+ * @typeParam T - The type of items in `it`.
+ * @returns A new iterable over chunk arrays.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * // Split into runs of consecutive numbers
+ * console.log(...iter.splitWhen([1, 2, 3, 7, 8, 10], (a, b) => b !== a + 1));
+ * // -> [ 1, 2, 3 ] [ 7, 8 ] [ 10 ]
+ * ```
+ */
+export function splitWhen<T>(
+  it: Iterable<T>,
+  predicate: SplitWhenCallback<T>,
+): IterableCircular<T[]> {
+  return {
+    *[Symbol.iterator]() {
+      let index = 0;
+      let chunk: T[] = [];
+
+      for (const item of it) {
+        if (
+          chunk.length > 0 && predicate(chunk[chunk.length - 1], item, index)
+        ) {
+          yield chunk;
+          chunk = [];
+        }
+        chunk.push(item);
+        index++;
+      }
+
+      if (chunk.length > 0) {
+        yield chunk;
+      }
+    },
+  };
+}
+
+function assertDelimiter(delimiter: string): void {
+  if (typeof delimiter !== "string" || delimiter.length === 0) {
+    throw new RangeError(
+      `Expected \`delimiter\` to be a non-empty string, got \`${delimiter}\``,
+    );
+  }
+}
+
+/**
+ * Lazily joins chunks of text and splits them on `delimiter`, like
+ * [`String.prototype.split`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/String/split),
+ * but without holding more than one piece in memory. Delimiters may span
+ * chunk boundaries. As with `split`, the text after the last delimiter is
+ * always yielded, even if it is empty.
+ * @param chunks - The chunks of text, e.g. from a reader.
+ * @param delimiter - The non-empty string to split on.
+ * @returns An iterable over the text between delimiters.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const records = iter.splitOn(["a::b:", ":c"], "::");
+ *
+ * console.log([...records]); // -> ["a", "b", "c"]
+ * ```
+ */
+export function splitOn(
+  chunks: Iterable<string>,
+  delimiter: string,
+): IterableCircular<string> {
+  assertDelimiter(delimiter);
+
+  return {
+    *[Symbol.iterator]() {
+      const splitter = new Splitter(delimiter, false);
+      for (const chunk of chunks) {
+        for (const piece of splitter.push(chunk)) yield piece;
+      }
+      yield splitter.end();
+    },
+  };
+}
+
+/**
+ * Lazily joins chunks of text and splits them into lines, which may span
+ * chunk boundaries. Lines end with `"\n"` or, by default, `"\r\n"`. Unlike
+ * with {@link splitOn | `splitOn`}, a trailing line ending doesn't start an
+ * extra, empty line.
+ * @param chunks - The chunks of text, e.g. from a reader.
+ * @param options - See {@link LinesOptions}.
+ * @returns An iterable over the lines.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const chunks = ["first\r", "\nsec", "ond\nthird\n"];
+ *
+ * console.log([...iter.lines(chunks)]); // -> ["first", "second", "third"]
+ * console.log([...iter.lines(chunks, { keepEnds: true })]);
+ * // -> ["first\r\n", "second\n", "third\n"]
+ * ```
+ */
+export function lines(
+  chunks: Iterable<string>,
+  { keepEnds = false, crlf = true }: LinesOptions = {},
+): IterableCircular<string> {
+  return {
+    *[Symbol.iterator]() {
+      const splitter = new Splitter("\n", true);
+      for (const chunk of chunks) {
+        for (const line of splitter.push(chunk)) {
+          yield keepEnds ? line : trimLineEnd(line, crlf);
+        }
+      }
+      const last = splitter.end();
+      if (last !== "") yield last;
+    },
+  };
+}
+
+/**
+ * {@link catchError | `catchError`} callback.
+ * @typeParam U - See {@link catchError}
+ */
+export interface CatchErrorCallback<U> {
+  /**
+   * {@link catchError | `catchError`} callback.
+   * @callback CatchErrorCallback
+   * @param error - The error thrown by the source.
+   * @returns The iterable to continue with.
+   */
+  (error: unknown): Iterable<U>;
+}
+
+/**
+ * Yields the items of `it`, and if iterating over it throws, continues with
+ * the items of the fallback iterable returned by `handler` instead of
+ * aborting. Only errors from `it` (including from upstream callbacks, such as
+ * those of `map` or `filter`) are caught, not those of the consumer.
+ * @param it - The iterable which may throw.
+ * @param {CatchErrorCallback} handler - Called with the error, returning the
+ * iterable to continue with. It may rethrow the error.
+ * @typeParam T - The type of items in `it`.
+ * @typeParam U - The type of items in the fallback.
+ * @returns An iterable over the items of `it`, then those of the fallback if
+ * it threw.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const parsed = iter.map(["1", "2", "{"], (text) => JSON.parse(text));
+ * const safe = iter.catchError(parsed, () => [-1]);
+ *
+ * console.log([...safe]); // -> [1, 2, -1]
+ * ```
+ */
+export function catchError<T, U = T>(
+  it: Iterable<T>,
+  handler: CatchErrorCallback<U>,
+): IterableCircular<T | U> {
+  return {
+    *[Symbol.iterator]() {
+      const failure = yield* untilError(() => it[Symbol.iterator]());
+      if (failure === undefined) return;
+      for (const item of handler(failure.error)) yield item;
+    },
+  };
+}
+
+/**
+ * {@link onError | `onError`} callback.
+ */
+export interface OnErrorCallback {
+  /**
+   * {@link onError | `onError`} callback.
+   * @callback OnErrorCallback
+   * @param error - The error thrown by the source.
+   */
+  (error: unknown): void;
+}
+
+/**
+ * Calls `f` with any error thrown while iterating over `it`, before rethrowing
+ * it. Useful for logging or cleaning up, without recovering from the error.
+ * @param it - The iterable which may throw.
+ * @param {OnErrorCallback} f - Called with the error.
+ * @typeParam T - The type of items in `it`.
+ * @returns An iterable over the items of `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const parsed = iter.map(["1", "{"], (text) => JSON.parse(text));
+ * const errors: unknown[] = [];
+ * const logged = iter.onError(parsed, (error) => errors.push(error));
+ *
+ * try {
+ *   for (const value of logged) console.log(value); // -> 1
+ * } catch (error) {
+ *   console.log(error === errors[0]); // -> true
+ * }
+ * ```
+ */
+export function onError<T>(
+  it: Iterable<T>,
+  f: OnErrorCallback,
+): IterableCircular<T> {
+  return {
+    *[Symbol.iterator]() {
+      const failure = yield* untilError(() => it[Symbol.iterator]());
+      if (failure === undefined) return;
+      f(failure.error);
+      throw failure.error;
+    },
+  };
+}
+
+/**
+ * Options for {@link retry | `retry`}.
+ */
+export interface RetryOptions {
+  /**
+   * The maximum number of times to iterate over a new source, including the
+   * first. Defaults to `3`.
+   */
+  attempts?: number;
+}
+
+/**
+ * Iterates over the source created by `factory`, and if that throws, creates
+ * a new source with `factory` and iterates over it from the start, up to
+ * `attempts` times in total. The error from the last attempt is rethrown.
+ *
+ * Note that items yielded before an error are yielded again by the next
+ * attempt, unless `factory` resumes where the previous source left off.
+ * @param factory - Creates the source. Errors it throws count as failed
+ * attempts.
+ * @param options - See {@link RetryOptions}.
+ * @typeParam T - The type of items in the source.
+ * @returns An iterable over the items of the first source which doesn't throw.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * let failures = 2;
+ * const flaky = function* () {
+ *   yield 1;
+ *   if (failures-- > 0) throw new Error("Connection lost");
+ *   yield 2;
+ * };
+ *
+ * console.log([...iter.retry(flaky, { attempts: 3 })]); // -> [1, 1, 1, 2]
+ * ```
+ */
+export function retry<T>(
+  factory: () => Iterable<T>,
+  { attempts = 3 }: RetryOptions = {},
+): IterableCircular<T> {
+  if (
+    !(attempts === Infinity || Number.isSafeInteger(attempts)) || attempts < 1
+  ) {
+    throw new RangeError(
+      `Expected \`attempts\` to be an integer from 1 and up, got \`${attempts}\``,
+    );
+  }
+
+  return {
+    *[Symbol.iterator]() {
+      for (let attempt = 1;; attempt++) {
+        const failure = yield* untilError(() => factory()[Symbol.iterator]());
+        if (failure === undefined) return;
+        if (attempt >= attempts) throw failure.error;
+      }
+    },
+  };
+}
+
+/**
+ * Lazily maps each item of `it` like {@link map | `map`}, but catches errors
+ * thrown by `f`, so that a bad item doesn't abort the whole iteration. Each
+ * result is tagged with whether mapping succeeded, so failures can be routed
+ * aside, e.g. with `partition`.
+ * @param it - The iterable being mapped.
+ * @param {MapCallback} f - A function that accepts up to three arguments, and
+ * may throw.
+ * @typeParam T - Type of items in `it`.
+ * @typeParam U - Return type of `f`.
+ * @returns An iterable of {@link SafeResult}s, holding either the value
+ * returned by `f` or the error it threw along with the item.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const results = iter.mapSafe(["1", "{", "3"], (text) => JSON.parse(text));
+ * const [good, bad] = iter.partition(results, (result) => result.ok);
+ *
+ * console.log(good.map((result) => result.ok && result.value)); // -> [1, 3]
+ * console.log(bad.map((result) => !result.ok && result.item)); // -> ["{"]
+ * ```
+ */
+export function mapSafe<T, U>(
+  it: Iterable<T>,
+  f: MapCallback<T, U>,
+): IterableCircular<SafeResult<T, U>> {
+  return {
+    *[Symbol.iterator]() {
+      let index = 0;
+      for (const item of it) {
+        let result: SafeResult<T, U>;
+        try {
+          result = { ok: true, value: f(item, index++, it) };
+        } catch (error) {
+          result = { ok: false, error, item };
+        }
+        yield result;
+      }
+    },
+  };
+}
+
+/**
+ * Options for {@link remember | `remember`}.
+ */
+export interface RememberOptions {
+  /**
+   * The maximum number of items to cache. Once the cache is full, the oldest
+   * item is evicted for each new one, so new iterations replay only the most
+   * recent `maxItems` items before continuing with the source. Defaults to
+   * `Infinity`.
+   */
+  maxItems?: number;
+}
+
 /**
  * Makes an iterable remember. Each time it is iterated over it will yield the
- * same results.
+ * same results, replaying the cached items before pulling new ones from the
+ * source. The source is only ever pulled from once per item, and the cache can
+ * be inspected and dropped through the returned {@link Remembered} handle.
+ *
+ * With `maxItems`, iterators which fall behind the cache (or are running when
+ * it is reset) skip ahead to its oldest item.
  * @param it - The iterable to remember.
+ * @param options - See {@link RememberOptions}.
  * @typeParam T - The type of items in `it`.
  * @returns A new iterable which remembers.
  * @example
  * ```ts
  * import * as iter from "https://deno.land/x/iter/mod.ts";
  *
- * const permRandomNumbers = iter.rememeber(iter.create.randomNumbers());
+ * const permRandomNumbers = iter.remember(iter.create.randomNumbers());
  * const iterator1 = permRandomNumbers[Symbol.iterator]();
  * const iterator2 = permRandomNumbers[Symbol.iterator]();
  *
@@ -519,24 +1093,226 @@ export function chunkify<T>(
  * console.log(iterator2.next().value); // ~> 0.1363627616298313
  * console.log(iterator2.next().value); // ~> 0.20839783736895812
  * console.log(iterator2.next().value); // ~> 0.30540840030529215
+ *
+ * const recent = iter.remember(iter.create.increments(), { maxItems: 2 });
+ * console.log(...iter.take(recent, 5)); // -> 0 1 2 3 4
+ * console.log(...iter.take(recent, 3)); // -> 3 4 5
+ * console.log(recent.size); // -> 2
  * ```
  */
-export function remember<T>(it: Iterable<T>): IterableCircular<T> {
-  const history = new Array<T>();
-  const iterator = it[Symbol.iterator]();
+export function remember<T>(
+  it: Iterable<T>,
+  { maxItems = Infinity }: RememberOptions = {},
+): Remembered<T> {
+  if (
+    !(maxItems === Infinity || Number.isSafeInteger(maxItems)) || maxItems < 0
+  ) {
+    throw new RangeError(
+      `Expected \`maxItems\` to be an integer from 0 and up, got \`${maxItems}\``,
+    );
+  }
+
+  const cache = new ReplayCache<T>(maxItems);
+  let iterator: Iterator<T> | undefined;
   let done = false;
 
   return {
     *[Symbol.iterator]() {
-      yield* history;
-      while (!done) {
-        const next = iterator.next();
-        done = next.done || false;
-        history.push(next.value);
-        if (done) {
-          return next.value;
+      let position = cache.start;
+      while (true) {
+        position = Math.max(position, cache.start);
+        if (position < cache.end) {
+          yield cache.at(position++);
+        } else if (done) {
+          return;
+        } else {
+          const next = (iterator ??= it[Symbol.iterator]()).next();
+          if (next.done) {
+            done = true;
+          } else {
+            // yield directly, as the item may already have been evicted
+            cache.push(next.value);
+            position++;
+            yield next.value;
+          }
+        }
+      }
+    },
+    get size() {
+      return cache.size;
+    },
+    reset() {
+      if (!done) iterator?.return?.();
+      iterator = undefined;
+      done = false;
+      cache.clear();
+    },
+    close() {
+      if (!done) iterator?.return?.();
+      done = true;
+    },
+  };
+}
+
+/**
+ * Options for {@link tee | `tee`}.
+ */
+export interface TeeOptions {
+  /**
+   * The maximum number of items the shared buffer may hold, i.e. how far the
+   * fastest reader may get ahead of the slowest one. A reader which would take
+   * the buffer past this limit throws a `RangeError`, and can be retried once
+   * the slower readers have caught up. Defaults to `Infinity`.
+   */
+  maxBuffer?: number;
+}
+
+/**
+ * Splits one iterable into `n` independent iterators. Inspired by Python's
+ * [`itertools.tee`](https://docs.python.org/3/library/itertools.html#itertools.tee).
+ * The source is iterated over at most once, and the readers share a buffer
+ * holding only the items the slowest reader has yet to consume. Unlike
+ * {@link remember | `remember`}, this doesn't keep a history, so it is suited
+ * to handing a one-shot source such as a generator to several consumers.
+ *
+ * Note that unlike other transformers, this returns iterators rather than
+ * iterables, so each reader can only be iterated over once. Closing a reader
+ * (e.g. by breaking out of a `for...of` loop) stops the buffer from waiting for
+ * it, and the source is closed once every reader has been closed. If the
+ * source throws, each reader throws the same error once it has read the items
+ * before it.
+ * @param it - The iterable to split.
+ * @param n - The number of readers. Defaults to `2`.
+ * @param options - See {@link TeeOptions}.
+ * @typeParam T - The type of items in `it`.
+ * @returns An array of `n` iterators over the items of `it`.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const [a, b] = iter.tee(iter.create.range(3));
+ *
+ * console.log(...a); // -> 0 1 2
+ * console.log(...b); // -> 0 1 2
+ * ```
+ */
+export function tee<T>(
+  it: Iterable<T>,
+  n = 2,
+  { maxBuffer = Infinity }: TeeOptions = {},
+): IterableIterator<T>[] {
+  if (!(Number.isSafeInteger(n) && n >= 0)) {
+    throw new RangeError(
+      `Expected \`n\` to be an integer from 0 and up, got \`${n}\``,
+    );
+  }
+  if (
+    !(maxBuffer === Infinity || Number.isSafeInteger(maxBuffer)) ||
+    maxBuffer < 1
+  ) {
+    throw new RangeError(
+      `Expected \`maxBuffer\` to be an integer from 1 and up, got \`${maxBuffer}\``,
+    );
+  }
+
+  const buffer = new SharedBuffer<T>(n);
+  let iterator: Iterator<T> | undefined;
+  let done = false;
+  // an error thrown by the source, rethrown to each reader once it gets there
+  let failure: { error: unknown } | undefined;
+  const failed = new Array<boolean>(n).fill(false);
+
+  // detaches a reader, closing the source once every reader is detached
+  const close = (id: number) => {
+    buffer.detach(id);
+    if (buffer.attached === 0 && !done) {
+      done = true;
+      iterator?.return?.();
+    }
+  };
+
+  const reader = (id: number): IterableIterator<T> => ({
+    next() {
+      if (buffer.has(id)) return { done: false, value: buffer.take(id) };
+      if (buffer.isDetached(id)) return { done: true, value: undefined };
+      if (done) {
+        if (failure !== undefined && !failed[id]) {
+          failed[id] = true;
+          throw failure.error;
         }
-        yield next.value;
+        return { done: true, value: undefined };
+      }
+      if (buffer.length >= maxBuffer) {
+        throw new RangeError(
+          `Expected the \`tee\` buffer to hold at most \`${maxBuffer}\` items, got \`${
+            buffer.length + 1
+          }\``,
+        );
+      }
+      let next: IteratorResult<T>;
+      try {
+        next = (iterator ??= it[Symbol.iterator]()).next();
+      } catch (error) {
+        // a source which throws is finished, so it mustn't be closed later
+        done = true;
+        failure = { error };
+        return this.next();
+      }
+      if (next.done) {
+        done = true;
+        return { done: true, value: undefined };
+      }
+      buffer.push(next.value);
+      return { done: false, value: buffer.take(id) };
+    },
+    return() {
+      close(id);
+      return { done: true, value: undefined };
+    },
+    throw(error?: unknown) {
+      close(id);
+      throw error;
+    },
+    [Symbol.iterator]() {
+      return this;
+    },
+  });
+
+  return Array.from({ length: n }, (_, id) => reader(id));
+}
+
+/**
+ * Lazily shuffles a finite iterable. Each iteration reads all of `it`, then
+ * yields a uniformly random permutation of its items one at a time, with a
+ * [Fisher–Yates shuffle](https://en.wikipedia.org/wiki/Fisher%E2%80%93Yates_shuffle)
+ * which only does the work for the items actually taken.
+ *
+ * :warning: When ran on an endless iterable, this never yields.
+ * @param it - The iterable to shuffle.
+ * @param random - The source of randomness. Defaults to `Math.random`.
+ * @typeParam T - The type of items in `it`.
+ * @returns An iterable of the items of `it` in random order.
+ * @example
+ * ```ts
+ * import * as iter from "https://deno.land/x/iter/mod.ts";
+ *
+ * const deck = iter.create.range(1, 52);
+ * const hand = iter.take(iter.shuffle(deck), 5);
+ *
+ * console.log(...hand); // ~> 17 3 48 29 8
+ * ```
+ */
+export function shuffle<T>(
+  it: Iterable<T>,
+  random: RandomSource = Math.random,
+): IterableCircular<T> {
+  return {
+    *[Symbol.iterator]() {
+      const items = [...it];
+      for (let i = 0; i < items.length; i++) {
+        const j = i + Math.floor(random() * (items.length - i));
+        [items[i], items[j]] = [items[j], items[i]];
+        yield items[i];
       }
     },
   };
@@ -567,7 +1343,7 @@ export function flat<T, Iter extends Iterable<NestedIterableContent<T>>>(
   if (depth === 0) {
     return {
       *[Symbol.iterator]() {
-        yield* iter;
+        for (const value of iter) yield value;
       },
     };
   } else {
@@ -636,6 +1412,11 @@ export function fuse<T>(iter: Iterable<T>): IterableCircular<T> {
  * Note that unlike other transformers, this returns an extended `IterableIterator`
  * rather than an iterable. Inspired by Rust's
  * [`std::iter::Peekable`](https://doc.rust-lang.org/std/iter/struct.Peekable.html).
+ *
+ * Besides `peek`, it can look several items ahead with `peekN`, consume an
+ * item conditionally with `nextIf` and `nextIfEq`, push items back with
+ * `unshift`, and tracks its `position`, which makes it handy for hand-written
+ * tokenizers and parsers.
  * @param iter - The iterable to make peekable
  * @returns A peekable iterator on the items of `iter`.
  * @example
@@ -648,6 +1429,11 @@ export function fuse<T>(iter: Iterable<T>): IterableCircular<T> {
  * for (const n of peekable) {
  *   assert(n + 1 === peekable.peek().value ||  peekable.peek().done);
  * }
+ *
+ * const chars = iter.peekable("x <= 10");
+ * chars.nextIf((c) => /\w/.test(c));
+ * chars.nextIfEq(" ");
+ * console.log(chars.peekN(2).join(""), chars.position); // -> "<=" 2
  * ```
  */
 export function peekable<T>(iter: Iterable<T>): Peekable<T> {
@@ -661,29 +1447,107 @@ export function peekable<T>(iter: Iterable<T>): Peekable<T> {
  * @private
  */
 class CPeekable<T> implements Peekable<T> {
-  #cachedResult?: IteratorResult<T>;
+  #buffer = new Deque<IteratorResult<T>>();
   #internalIterator: Iterator<T>;
+  #done = false;
+  #position = 0;
 
   constructor(iter: Iterable<T>) {
     this.#internalIterator = iter[Symbol.iterator]();
   }
 
-  next() {
-    return this.#clearCache() ?? this.#internalIterator.next();
+  get position(): number {
+    return this.#position;
+  }
+
+  next(): IteratorResult<T> {
+    const result = this.#buffer.shift() ?? this.#pull();
+    if (!result.done) this.#position++;
+    return result;
+  }
+
+  peek(): IteratorResult<T> {
+    return this.#lookahead(0);
+  }
+
+  peekN(n: number): T[] {
+    assertPeekCount(n);
+    const items = new Array<T>();
+    for (let i = 0; i < n; i++) {
+      const result = this.#lookahead(i);
+      if (result.done) break;
+      items.push(result.value);
+    }
+    return items;
+  }
+
+  nextIf<S extends T>(
+    predicate: (value: T) => value is S,
+  ): IteratorResult<S, undefined>;
+  nextIf(predicate: PredicateCallback<T>): IteratorResult<T, undefined>;
+  nextIf(predicate: PredicateCallback<T>): IteratorResult<T, undefined> {
+    const result = this.peek();
+    if (result.done || !predicate(result.value)) {
+      return { done: true, value: undefined };
+    }
+    return this.next();
+  }
+
+  nextIfEq(value: T): IteratorResult<T, undefined> {
+    return this.nextIf((item) => sameValueZero(item, value));
+  }
+
+  unshift(...items: T[]): void {
+    for (let i = items.length - 1; i >= 0; i--) {
+      this.#buffer.unshift({ done: false, value: items[i] });
+    }
+    this.#position -= items.length;
+  }
+
+  return(value?: unknown): IteratorResult<T> {
+    this.#close();
+    return { done: true, value: value as T };
   }
 
-  peek() {
-    this.#cachedResult = this.#cachedResult ?? this.#internalIterator.next();
-    return this.#cachedResult;
+  throw(error?: unknown): IteratorResult<T> {
+    this.#close();
+    throw error;
   }
 
   [Symbol.iterator]() {
     return this;
   }
 
-  #clearCache(): IteratorResult<T> | undefined {
-    const cache = this.#cachedResult;
-    this.#cachedResult = undefined;
-    return cache;
+  /**
+   * Gets the result `index` places ahead, pulling from the source as needed.
+   * Callers stop at the first `done` result, so none are buffered after it.
+   */
+  #lookahead(index: number): IteratorResult<T> {
+    while (this.#buffer.length <= index) this.#buffer.push(this.#pull());
+    return this.#buffer.at(index) as IteratorResult<T>;
+  }
+
+  #pull(): IteratorResult<T> {
+    if (this.#done) return { done: true, value: undefined };
+    // an iterator which throws is finished, so it mustn't be closed again
+    this.#done = true;
+    const result = this.#internalIterator.next();
+    this.#done = result.done === true;
+    return result;
+  }
+
+  #close(): void {
+    this.#buffer.clear();
+    if (this.#done) return;
+    this.#done = true;
+    this.#internalIterator.return?.();
+  }
+}
+
+function assertPeekCount(n: number): void {
+  if (!(Number.isInteger(n) && n >= 0)) {
+    throw new RangeError(
+      `Expected \`n\` to be an integer from 0 and up, got \`${n}\``,
+    );
   }
 }
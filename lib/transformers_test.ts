@@ -2,6 +2,7 @@ import { assert, assertEquals, assertThrows } from "../test_deps.ts";
 import * as transformers from "./transformers.ts";
 import * as create from "./generators.ts";
 import { stripIterable } from "./internal/util.ts";
+import { seededRandom } from "./random.ts";
 
 Deno.test("take", () => {
   const testArray = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
@@ -166,6 +167,72 @@ Deno.test("chunkify", () => {
   assertEquals([...transformers.chunkify(stripIterable(numbers), 2)], expected);
 });
 
+Deno.test("windows", () => {
+  const numbers = [1, 2, 3, 4, 5];
+  const check = (
+    options: transformers.WindowsOptions & { size: number },
+    expected: number[][],
+  ) => {
+    const { size, ...rest } = options;
+    assertEquals([...transformers.windows(numbers, size, rest)], expected);
+    assertEquals(
+      [...transformers.windows(stripIterable(numbers), size, rest)],
+      expected,
+    );
+  };
+
+  check({ size: 3 }, [[1, 2, 3], [2, 3, 4], [3, 4, 5]]);
+  check({ size: 3, partial: true }, [
+    [1, 2, 3],
+    [2, 3, 4],
+    [3, 4, 5],
+    [4, 5],
+    [5],
+  ]);
+  check({ size: 2, step: 2 }, [[1, 2], [3, 4]]);
+  check({ size: 2, step: 2, partial: true }, [[1, 2], [3, 4], [5]]);
+  check({ size: 1, step: 3 }, [[1], [4]]);
+  check({ size: 2, step: 3, partial: true }, [[1, 2], [4, 5]]);
+  check({ size: 6 }, []);
+  check({ size: 6, partial: true }, [
+    [1, 2, 3, 4, 5],
+    [2, 3, 4, 5],
+    [3, 4, 5],
+    [4, 5],
+    [5],
+  ]);
+
+  assertThrows(() => transformers.windows(numbers, 0));
+  assertThrows(() => transformers.windows(numbers, 2, { step: 0 }));
+
+  const longWindows = transformers.windows(create.increments(), 1000);
+  const [first, second] = transformers.take(longWindows, 2);
+  assertEquals(first[999], 999);
+  assertEquals(second[0], 1);
+});
+
+Deno.test("pairwise", () => {
+  assertEquals([...transformers.pairwise([1, 2, 3])], [[1, 2], [2, 3]]);
+  assertEquals([...transformers.pairwise([1])], []);
+});
+
+Deno.test("chunkBy", () => {
+  assertEquals(
+    [...transformers.chunkBy([1, 3, 2, 4, 5, 7], (n) => n % 2)],
+    [[1, 3], [2, 4], [5, 7]],
+  );
+  assertEquals([...transformers.chunkBy([NaN, NaN], (n) => n)], [[NaN, NaN]]);
+  assertEquals([...transformers.chunkBy([], (n) => n)], []);
+});
+
+Deno.test("splitWhen", () => {
+  assertEquals(
+    [...transformers.splitWhen([1, 2, 3, 7, 8, 10], (a, b) => b !== a + 1)],
+    [[1, 2, 3], [7, 8], [10]],
+  );
+  assertEquals([...transformers.splitWhen([], () => true)], []);
+});
+
 Deno.test("rememember", () => {
   const memIterable = transformers.remember(create.randomNumbers());
   const numbers5 = transformers.take(memIterable, 5);
@@ -174,6 +241,129 @@ Deno.test("rememember", () => {
   assertEquals([...transformers.take(numbers10, 5)], [...numbers5]);
 });
 
+Deno.test("remember with maxItems", () => {
+  let pulls = 0;
+  const source = transformers.map(create.increments(), (n) => {
+    pulls++;
+    return n;
+  });
+  const recent = transformers.remember(source, { maxItems: 2 });
+
+  assertEquals([...transformers.take(recent, 5)], [0, 1, 2, 3, 4]);
+  assertEquals(recent.size, 2);
+  assertEquals([...transformers.take(recent, 3)], [3, 4, 5]);
+  assertEquals(pulls, 6);
+
+  // a lagging iterator skips to the oldest cached item
+  const lagging = recent[Symbol.iterator]();
+  assertEquals(lagging.next().value, 4);
+  assertEquals([...transformers.take(recent, 5)], [4, 5, 6, 7, 8]);
+  assertEquals(lagging.next().value, 7);
+
+  const none = transformers.remember([1, 2, 3], { maxItems: 0 });
+  assertEquals([...none], [1, 2, 3]);
+  assertEquals([...none], []);
+  assertEquals(none.size, 0);
+
+  assertThrows(() => transformers.remember([], { maxItems: -1 }), RangeError);
+});
+
+Deno.test("remember reset", () => {
+  let opened = 0;
+  let closed = 0;
+  const source = {
+    *[Symbol.iterator]() {
+      opened++;
+      try {
+        yield* [1, 2, 3];
+      } finally {
+        closed++;
+      }
+    },
+  };
+  const remembered = transformers.remember(source);
+
+  assertEquals([...transformers.take(remembered, 2)], [1, 2]);
+  assertEquals(remembered.size, 2);
+  remembered.reset();
+  assertEquals(remembered.size, 0);
+  assertEquals(closed, 1);
+
+  assertEquals([...remembered], [1, 2, 3]);
+  assertEquals([...remembered], [1, 2, 3]);
+  assertEquals(opened, 2);
+});
+
+Deno.test("tee", () => {
+  let pulls = 0;
+  function* source() {
+    for (let i = 0; i < 5; i++) {
+      pulls++;
+      yield i;
+    }
+  }
+  const [a, b, c] = transformers.tee(source(), 3);
+
+  assertEquals([a.next().value, a.next().value], [0, 1]);
+  assertEquals([...b], [0, 1, 2, 3, 4]);
+  assertEquals([...a], [2, 3, 4]);
+  assertEquals([...c], [0, 1, 2, 3, 4]);
+  assertEquals([...b], []);
+  assertEquals(pulls, 5);
+
+  assertEquals(transformers.tee([1, 2], 0), []);
+  assertThrows(() => transformers.tee([], -1), RangeError);
+  assertThrows(() => transformers.tee([], 2, { maxBuffer: 0 }), RangeError);
+});
+
+Deno.test("tee rethrows source errors to every reader", () => {
+  function* source() {
+    yield 1;
+    throw new Error("broken");
+  }
+  const [a, b, c] = transformers.tee(source(), 3);
+
+  assertEquals(a.next().value, 1);
+  assertThrows(() => a.next(), Error);
+  assertEquals(a.next().done, true);
+  // the others read the item before the error, then get the error themselves
+  assertEquals(b.next().value, 1);
+  assertThrows(() => b.next(), Error);
+  assertEquals(b.next().done, true);
+  assertThrows(() => [...c], Error);
+});
+
+Deno.test("tee maxBuffer", () => {
+  const [a, b] = transformers.tee(create.increments(), 2, { maxBuffer: 2 });
+
+  assertEquals([a.next().value, a.next().value], [0, 1]);
+  assertThrows(() => a.next(), RangeError);
+  assertEquals(b.next().value, 0);
+  // the reader is still usable once the slower one has caught up
+  assertEquals(a.next().value, 2);
+
+  // closing the slow reader stops the buffer from waiting for it
+  b.return?.();
+  assertEquals([...transformers.take(a, 5)], [3, 4, 5, 6, 7]);
+});
+
+Deno.test("tee closes the source once every reader is closed", () => {
+  let closed = false;
+  function* source() {
+    try {
+      yield* create.increments();
+    } finally {
+      closed = true;
+    }
+  }
+  const [a, b] = transformers.tee(source());
+
+  for (const n of a) if (n === 2) break;
+  assert(!closed);
+  for (const n of b) if (n === 0) break;
+  assert(closed);
+});
+
 Deno.test("flat", () => {
   const unflatArray1 = [[1, 2], 3, [4, 5, 6]];
   assertEquals([...transformers.flat(unflatArray1)], unflatArray1.flat());
@@ -245,3 +435,230 @@ Deno.test("peekable", () => {
     assert(n + 1 === peekableIter2.peek().value || peekableIter2.peek().done);
   }
 });
+
+Deno.test("peekable lookahead and push-back", () => {
+  const peekable = transformers.peekable([0, 1, 2, 3]);
+  assertEquals(peekable.peekN(2), [0, 1]);
+  assertEquals(peekable.peekN(0), []);
+  assertEquals(peekable.peek().value, 0);
+  assertEquals(peekable.position, 0);
+
+  assertEquals(peekable.nextIf((n) => n > 0), { done: true, value: undefined });
+  assertEquals(peekable.nextIf((n) => n === 0), { done: false, value: 0 });
+  assertEquals(peekable.nextIfEq(2).done, true);
+  assertEquals(peekable.nextIfEq(1).value, 1);
+  assertEquals(peekable.position, 2);
+
+  peekable.unshift(-2, -1);
+  assertEquals(peekable.position, 0);
+  assertEquals(peekable.peekN(10), [-2, -1, 2, 3]);
+  assertEquals([...peekable], [-2, -1, 2, 3]);
+  assertEquals(peekable.position, 4);
+  assertEquals(peekable.peekN(2), []);
+  assertEquals(peekable.nextIf(() => true).done, true);
+
+  peekable.unshift(4);
+  assertEquals(peekable.next(), { done: false, value: 4 });
+  assertEquals(peekable.next().done, true);
+
+  // compared by SameValueZero, and pushing back more than was read is allowed
+  const nans = transformers.peekable([NaN, 0]);
+  assertEquals(nans.nextIfEq(NaN).done, false);
+  assertEquals(nans.nextIfEq(-0).value, 0);
+  nans.unshift(1, 2, 3);
+  assertEquals(nans.position, -1);
+
+  assertThrows(() => peekable.peekN(-1), RangeError);
+  assertThrows(() => peekable.peekN(1.5), RangeError);
+});
+
+Deno.test("peekable nextIf narrows type guards", () => {
+  const peekable = transformers.peekable<string | number>(["a", 1]);
+  const letter = peekable.nextIf((x): x is string => typeof x === "string");
+  if (!letter.done) assertEquals(letter.value.toUpperCase(), "A");
+  assertEquals(peekable.nextIf((x): x is string => typeof x === "string"), {
+    done: true,
+    value: undefined,
+  });
+});
+
+Deno.test("shuffle", () => {
+  const random = seededRandom(1);
+  const shuffled = transformers.shuffle(create.range(1, 10), random);
+
+  assertEquals([...shuffled].sort((a, b) => a - b), [...create.range(1, 10)]);
+  // each iteration is a fresh permutation
+  assert([...shuffled].join() !== [...shuffled].join());
+  assertEquals([...transformers.shuffle([])], []);
+
+  const firsts = new Array<number>(4).fill(0);
+  for (let i = 0; i < 4000; i++) {
+    const [first] = transformers.take(
+      transformers.shuffle([0, 1, 2, 3], random),
+      1,
+    );
+    firsts[first]++;
+  }
+  assert(firsts.every((count) => Math.abs(count - 1000) < 120), `${firsts}`);
+});
+
+Deno.test("shuffle is lazy", () => {
+  let draws = 0;
+  const counted = () => {
+    draws++;
+    return Math.random();
+  };
+  const [first] = transformers.take(
+    transformers.shuffle(create.range(1, 1000), counted),
+    1,
+  );
+
+  assert(first >= 1 && first <= 1000);
+  assertEquals(draws, 1);
+});
+
+/** Every way of cutting `text` into chunks of 1 to 3 characters. */
+function* chunkings(text: string): Generator<string[]> {
+  if (text.length === 0) {
+    yield [];
+    return;
+  }
+  for (let size = 1; size <= Math.min(3, text.length); size++) {
+    for (const rest of chunkings(text.slice(size))) {
+      yield [text.slice(0, size), ...rest];
+    }
+  }
+}
+
+Deno.test("splitOn", () => {
+  for (const text of ["a::b:::c::", "::", "a:b", ""]) {
+    for (const chunks of chunkings(text)) {
+      assertEquals(
+        [...transformers.splitOn(chunks, "::")],
+        text.split("::"),
+        JSON.stringify(chunks),
+      );
+    }
+  }
+
+  const split = transformers.splitOn(["a,", "", "b"], ",");
+  assertEquals([...split], ["a", "b"]);
+  assertEquals([...split], ["a", "b"]);
+  assertThrows(() => transformers.splitOn(["a"], ""), RangeError);
+});
+
+Deno.test("lines", () => {
+  const text = "a\r\nb\n\nc\rd\r\n";
+  for (const chunks of chunkings(text)) {
+    assertEquals([...transformers.lines(chunks)], ["a", "b", "", "c\rd"]);
+  }
+
+  assertEquals([...transformers.lines(["a\r", "\nb"], { keepEnds: true })], [
+    "a\r\n",
+    "b",
+  ]);
+  assertEquals([...transformers.lines(["a\r\nb\n"], { crlf: false })], [
+    "a\r",
+    "b",
+  ]);
+  assertEquals([...transformers.lines(["\n"])], [""]);
+  assertEquals([...transformers.lines([""])], []);
+  assertEquals([...transformers.lines([])], []);
+});
+
+function* failing<T>(items: T[], error: unknown) {
+  yield* items;
+  throw error;
+}
+
+Deno.test("catchError", () => {
+  const error = new Error("Upstream");
+  const errors = new Array<unknown>();
+  const caught = transformers.catchError(failing([1, 2], error), (e) => {
+    errors.push(e);
+    return ["fallback"];
+  });
+  assertEquals([...caught], [1, 2, "fallback"]);
+  assertEquals(errors, [error]);
+
+  assertEquals([...transformers.catchError([1, 2], () => [3])], [1, 2]);
+
+  const parsed = transformers.map(["1", "{"], (text) => JSON.parse(text));
+  assertEquals([...transformers.catchError(parsed, () => [-1])], [1, -1]);
+
+  // errors thrown by the handler, or into the iterator, aren't caught
+  assertThrows(() => [
+    ...transformers.catchError(failing([], error), (e) => {
+      throw e;
+    }),
+  ]);
+  const iterator = transformers.catchError([1, 2], () => [3])[
+    Symbol.iterator
+  ]();
+  iterator.next();
+  assertThrows(() => iterator.throw?.(new Error("Consumer")));
+  assertEquals(iterator.next().done, true);
+});
+
+Deno.test("onError", () => {
+  const error = new Error("Upstream");
+  const errors = new Array<unknown>();
+  const logged = transformers.onError(
+    failing([1], error),
+    (e) => errors.push(e),
+  );
+  const items = new Array<number>();
+  try {
+    for (const item of logged) items.push(item);
+    assert(false);
+  } catch (thrown) {
+    assertEquals(thrown, error);
+  }
+  assertEquals(items, [1]);
+  assertEquals(errors, [error]);
+
+  assertEquals([...transformers.onError([1, 2], () => errors.push(0))], [1, 2]);
+  assertEquals(errors.length, 1);
+});
+
+Deno.test("retry", () => {
+  let calls = 0;
+  const flaky = () => {
+    calls++;
+    return calls < 3 ? failing([calls], new Error(`${calls}`)) : [0, 1];
+  };
+  assertEquals([...transformers.retry(flaky)], [1, 2, 0, 1]);
+  assertEquals(calls, 3);
+
+  calls = 0;
+  try {
+    [...transformers.retry(flaky, { attempts: 2 })];
+    assert(false);
+  } catch (error) {
+    assertEquals((error as Error).message, "2");
+  }
+
+  // a factory which throws counts as a failed attempt
+  let opened = 0;
+  const retried = transformers.retry(() => {
+    if (opened++ === 0) throw new Error("Unavailable");
+    return [1];
+  });
+  assertEquals([...retried], [1]);
+
+  assertThrows(() => transformers.retry(flaky, { attempts: 0 }), RangeError);
+  assertThrows(() => transformers.retry(flaky, { attempts: 1.5 }), RangeError);
+});
+
+Deno.test("mapSafe", () => {
+  const error = new Error("Odd");
+  const results = transformers.mapSafe([1, 2, 3], (n, i) => {
+    if (n % 2 === 1) throw error;
+    return n * 10 + i;
+  });
+  assertEquals([...results], [
+    { ok: false, error, item: 1 },
+    { ok: true, value: 21 },
+    { ok: false, error, item: 3 },
+  ]);
+});
@@ -28,6 +28,62 @@ export interface IterablePredicateCallback<T> {
   (value: T, index: number, it: Iterable<T>): boolean;
 }
 
+/**
+ * Iterable predicate callback which narrows the type of the value.
+ * @typeParam T - Type of value to be predicated.
+ * @typeParam S - The narrowed type.
+ */
+export interface IterableTypeGuardCallback<T, S extends T> {
+  /**
+   * Iterable type guard callback.
+   * @callback IterableTypeGuardCallback
+   * @param value - The value of the item being predicated.
+   * @param index - The index of the item being predicated.
+   * @param it - The iterable.
+   * @returns Whether `value` is of type `S`.
+   */
+  (value: T, index: number, it: Iterable<T>): value is S;
+}
+
+/**
+ * Async iterable predicate callback. May return a promise.
+ * @typeParam T - Type of value to be predicated.
+ */
+export interface AsyncIterablePredicateCallback<T> {
+  /**
+   * Async iterable predicate callback.
+   * @callback AsyncIterablePredicateCallback
+   * @param value - The value of the item being predicated.
+   * @param index - The index of the item being predicated.
+   * @param it - The iterable.
+   * @returns The predicate result, or a promise of it.
+   */
+  (value: T, index: number, it: AnyIterable<T>): boolean | Promise<boolean>;
+}
+
+/**
+ * Comparator callback, as taken by `Array.prototype.sort`.
+ * @typeParam T - Type of values to be compared.
+ */
+export interface CompareCallback<T> {
+  /**
+   * Comparator callback.
+   * @callback CompareCallback
+   * @param a - The first value.
+   * @param b - The second value.
+   * @returns A negative number if `a` comes before `b`, a positive number if
+   * it comes after, and `0` if they are equal.
+   */
+  (a: T, b: T): number;
+}
+
+/**
+ * Either an `AsyncIterable` or a regular `Iterable`. All functions in the async
+ * entry point accept both.
+ * @typeParam T - Type of items in the iterable.
+ */
+export type AnyIterable<T> = AsyncIterable<T> | Iterable<T>;
+
 /**
  * The same as the `Iterable` type, but the iterator implementation is iterable.
  * @typeParam T - Type of items in the iterable.
@@ -36,14 +92,186 @@ export interface IterableCircular<T> extends Iterable<T> {
   [Symbol.iterator](): IterableIterator<T>;
 }
 
+/**
+ * Maps a tuple of item types to a tuple of iterables of those types.
+ * @typeParam Items - The item types.
+ */
+export type IterablesOf<Items extends unknown[]> = {
+  [K in keyof Items]: Iterable<Items[K]>;
+};
+
+/**
+ * The same as the `AsyncIterable` type, but the iterator implementation is
+ * async iterable.
+ * @typeParam T - Type of items in the async iterable.
+ */
+export interface AsyncIterableCircular<T> extends AsyncIterable<T> {
+  [Symbol.asyncIterator](): AsyncIterableIterator<T>;
+}
+
+/**
+ * A source of uniformly distributed random numbers from 0 (inclusive) to 1
+ * (exclusive), such as `Math.random`, or a seeded generator created by
+ * `seededRandom`.
+ */
+export interface RandomSource {
+  (): number;
+}
+
+/** Options for `lines`. */
+export interface LinesOptions {
+  /**
+   * Whether to keep the line ending at the end of each line. Defaults to
+   * `false`.
+   */
+  keepEnds?: boolean;
+  /**
+   * Whether `"\r\n"` is also a line ending, so that the `"\r"` is removed
+   * along with the `"\n"`. Only has an effect if `keepEnds` is `false`.
+   * Defaults to `true`.
+   */
+  crlf?: boolean;
+}
+
+/**
+ * The outcome of mapping an item with `mapSafe`: either the mapped value, or
+ * the error thrown while mapping along with the item which caused it.
+ * @typeParam T - Type of the items being mapped.
+ * @typeParam U - Type of the mapped values.
+ */
+export type SafeResult<T, U> =
+  | { ok: true; value: U }
+  | { ok: false; error: unknown; item: T };
+
 /**
  * An iterator that defines a peeking mechanism.
  * Inspired by Rust's [`std::Iter::Peekable`](https://doc.rust-lang.org/std/iter/struct.Peekable.html)
  * @typeParam T - Type of items in the iterator.
  */
 export interface Peekable<T> extends IterableIterator<T> {
+  /**
+   * The number of items consumed so far, less the number pushed back with
+   * `unshift`. Useful for pointing at the offending item in error messages.
+   * Goes below zero if more items are pushed back than were consumed.
+   */
+  readonly position: number;
   /** Peeks the next item of the iterator without consuming it. */
   peek(): IteratorResult<T>;
+  /**
+   * Peeks up to `n` upcoming items without consuming them.
+   * @returns The next `n` items, or fewer if the iterator ends first.
+   */
+  peekN(n: number): T[];
+  /**
+   * Consumes the next item only if it satisfies `predicate`.
+   * @returns The consumed item, or a `done` result if the iterator has ended
+   * or the next item didn't satisfy `predicate` (in which case it is left in
+   * place).
+   */
+  nextIf<S extends T>(
+    predicate: (value: T) => value is S,
+  ): IteratorResult<S, undefined>;
+  nextIf(predicate: PredicateCallback<T>): IteratorResult<T, undefined>;
+  /**
+   * Consumes the next item only if it equals `value`, compared like
+   * `Array.prototype.includes` (so `NaN` equals `NaN`).
+   * @returns The consumed item, or a `done` result if the iterator has ended
+   * or the next item isn't `value`.
+   */
+  nextIfEq(value: T): IteratorResult<T, undefined>;
+  /**
+   * Pushes items back onto the front of the iterator, so that they are
+   * yielded next, in the order given.
+   */
+  unshift(...items: T[]): void;
+}
+
+/**
+ * An async iterator that defines a peeking mechanism. The async counterpart of
+ * {@link Peekable}.
+ * @typeParam T - Type of items in the iterator.
+ */
+export interface AsyncPeekable<T> extends AsyncIterableIterator<T> {
+  /**
+   * The number of items consumed so far, less the number pushed back with
+   * `unshift`. Goes below zero if more items are pushed back than were
+   * consumed.
+   */
+  readonly position: number;
+  /** Peeks the next item of the iterator without consuming it. */
+  peek(): Promise<IteratorResult<T>>;
+  /**
+   * Peeks up to `n` upcoming items without consuming them.
+   * @returns The next `n` items, or fewer if the iterator ends first.
+   */
+  peekN(n: number): Promise<T[]>;
+  /**
+   * Consumes the next item only if it satisfies `predicate`, which may return
+   * a promise.
+   * @returns The consumed item, or a `done` result if the iterator has ended
+   * or the next item didn't satisfy `predicate`.
+   */
+  nextIf<S extends T>(
+    predicate: (value: T) => value is S,
+  ): Promise<IteratorResult<S, undefined>>;
+  nextIf(
+    predicate: (value: T) => boolean | Promise<boolean>,
+  ): Promise<IteratorResult<T, undefined>>;
+  /**
+   * Consumes the next item only if it equals `value`, compared like
+   * `Array.prototype.includes` (so `NaN` equals `NaN`).
+   * @returns The consumed item, or a `done` result if the iterator has ended
+   * or the next item isn't `value`.
+   */
+  nextIfEq(value: T): Promise<IteratorResult<T, undefined>>;
+  /**
+   * Pushes items back onto the front of the iterator, so that they are
+   * yielded next, in the order given.
+   */
+  unshift(...items: T[]): void;
+}
+
+/**
+ * An iterable which remembers the items of its source, with a handle on the
+ * cache. Returned by `remember`.
+ * @typeParam T - Type of items in the iterable.
+ */
+export interface Remembered<T> extends IterableCircular<T> {
+  /** The number of items currently cached. */
+  readonly size: number;
+  /**
+   * Drops the cache and closes the source, so that the next item is pulled
+   * from a new iterator over it.
+   */
+  reset(): void;
+  /**
+   * Closes the source, running its cleanup (such as `finally` blocks), without
+   * dropping the cache. Iterations end once they have replayed the cache,
+   * until {@link reset} starts again from a new iterator over the source.
+   */
+  close(): void;
+}
+
+/**
+ * The async counterpart of {@link Remembered}.
+ * @typeParam T - Type of items in the async iterable.
+ */
+export interface AsyncRemembered<T> extends AsyncIterableCircular<T> {
+  /** The number of items currently cached. */
+  readonly size: number;
+  /**
+   * Drops the cache and closes the source, so that the next item is pulled
+   * from a new iterator over it.
+   * @returns A promise which resolves once the source has been closed.
+   */
+  reset(): Promise<void>;
+  /**
+   * Closes the source, running its cleanup (such as `finally` blocks), without
+   * dropping the cache. Iterations end once they have replayed the cache,
+   * until {@link reset} starts again from a new iterator over the source.
+   * @returns A promise which resolves once the source has been closed.
+   */
+  close(): Promise<void>;
 }
 
 /**
@@ -84,3 +312,43 @@ export type UniaryIterTransformer<T, U> = UniaryIterFunction<
   T,
   Iterable<U>
 >;
+
+/**
+ * The item type of an iterable of type `T` after being flattened to `Depth`.
+ * The iterable equivalent of the built-in `FlatArray` type.
+ * @typeParam T - The item type before flattening.
+ * @typeParam Depth - The depth of flattening.
+ */
+export type FlatItem<T, Depth extends number> = {
+  done: T;
+  recur: T extends string ? T
+    : T extends Iterable<infer U> ? FlatItem<
+        U,
+        [-1, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16][Depth]
+      >
+    : T;
+}[Depth extends -1 ? "done" : "recur"];
+
+/**
+ * The item type of an async iterable of type `T` after being flattened to
+ * `Depth`. Like {@link FlatItem}, but async iterables are flattened as well.
+ * @typeParam T - The item type before flattening.
+ * @typeParam Depth - The depth of flattening.
+ */
+export type AsyncFlatItem<T, Depth extends number> = {
+  done: T;
+  recur: T extends string ? T
+    : T extends AnyIterable<infer U> ? AsyncFlatItem<
+        U,
+        [-1, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16][Depth]
+      >
+    : T;
+}[Depth extends -1 ? "done" : "recur"];
+
+/**
+ * The item type of an iterable of type `T` after being flattened completely.
+ * @typeParam T - The item type before flattening.
+ */
+export type CompleteFlatItem<T> = T extends string ? T
+  : T extends Iterable<infer U> ? CompleteFlatItem<U>
+  : T;
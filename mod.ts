@@ -4,6 +4,10 @@ export * from "./lib/combiners.ts";
 export * from "./lib/reducers.ts";
 export * from "./lib/types.ts";
 export * from "./lib/effectors.ts";
+export * from "./lib/transducers.ts";
+export * from "./lib/random.ts";
+export { chain } from "./lib/chain.ts";
+export type { Iter, RememberedIter } from "./lib/chain.ts";
 export * as create from "./lib/generators.ts";
 
 import * as fp from "./fp.ts";
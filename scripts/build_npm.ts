@@ -10,17 +10,19 @@ await build({
       name: "./fp",
       path: "./fp.ts",
     },
+    {
+      name: "./async",
+      path: "./async.ts",
+    },
+    {
+      name: "./async/fp",
+      path: "./async_fp.ts",
+    },
   ],
   outDir: "./npm",
   shims: {
     deno: "dev",
   },
-  mappings: {
-    "https://deno.land/x/copb@v1.0.1/mod.ts": {
-      name: "copb",
-      version: "^1.0.1",
-    },
-  },
   package: {
     name: "iterable-utilities",
     version,
@@ -34,13 +36,12 @@ await build({
     bugs: {
       url: "https://github.com/jajaperson/iterable-utilities/issues",
     },
-    devDependecies: {
-      copb: "^1.0.1",
-    },
     typesVersions: {
       "<4.7": {
         "index.d.ts": ["types/mod.d.ts"],
         fp: ["types/fp.d.ts"],
+        async: ["types/async.d.ts"],
+        "async/fp": ["types/async_fp.d.ts"],
       },
     },
   },